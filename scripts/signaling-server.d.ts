@@ -0,0 +1,4 @@
+import type { WebSocketServer } from 'ws';
+
+/** See signaling-server.js. Port 0 picks a free port (read it from `address()`). */
+export function startSignalingServer(options?: { port?: number; host?: string }): WebSocketServer;
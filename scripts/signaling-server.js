@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+/**
+ * Signaling Relay
+ *
+ * A tiny WebSocket relay that lets two players exchange WebRTC offers, answers and ICE
+ * candidates by room code instead of copy/paste or QR. It only forwards signaling
+ * messages between the host and the client of a room; game traffic never passes
+ * through it, and nothing is stored.
+ *
+ * Run with: node scripts/signaling-server.js
+ *
+ * Environment:
+ *   PORT   port to listen on (default 8787)
+ *   HOST   interface to bind (default 0.0.0.0)
+ *
+ * Protocol (JSON text frames):
+ *   -> { type: 'join', room, role: 'host' | 'client' }
+ *   -> { type: 'signal', data }                 forwarded to the other peer
+ *   <- { type: 'joined', room, peerPresent }
+ *   <- { type: 'peer-joined' } / { type: 'peer-left' }
+ *   <- { type: 'signal', data }
+ *   <- { type: 'error', reason }                'bad_request' | 'role_taken'
+ */
+
+import { WebSocketServer } from 'ws';
+import { fileURLToPath } from 'url';
+
+const ROOM_PATTERN = /^[A-Z0-9-]{4,32}$/;
+const HEARTBEAT_MS = 30_000;
+
+export function startSignalingServer({ port = 8787, host = '0.0.0.0' } = {}) {
+  const wss = new WebSocketServer({ port, host, maxPayload: 64 * 1024 });
+  /** @type {Map<string, { host?: import('ws').WebSocket, client?: import('ws').WebSocket }>} */
+  const rooms = new Map();
+
+  const send = (ws, msg) => {
+    if (ws && ws.readyState === ws.OPEN) ws.send(JSON.stringify(msg));
+  };
+
+  wss.on('connection', (ws) => {
+    let room = null;
+    let role = null;
+    ws.isAlive = true;
+    ws.on('pong', () => {
+      ws.isAlive = true;
+    });
+
+    const other = () => {
+      const peers = room && rooms.get(room);
+      return peers ? peers[role === 'host' ? 'client' : 'host'] : undefined;
+    };
+
+    ws.on('message', (raw) => {
+      let msg;
+      try {
+        msg = JSON.parse(raw.toString());
+      } catch {
+        send(ws, { type: 'error', reason: 'bad_request' });
+        return;
+      }
+
+      if (msg.type === 'join' && !room) {
+        const code = String(msg.room ?? '').toUpperCase();
+        if (!ROOM_PATTERN.test(code) || (msg.role !== 'host' && msg.role !== 'client')) {
+          send(ws, { type: 'error', reason: 'bad_request' });
+          return;
+        }
+        const peers = rooms.get(code) ?? {};
+        if (peers[msg.role]) {
+          send(ws, { type: 'error', reason: 'role_taken' });
+          return;
+        }
+        peers[msg.role] = ws;
+        rooms.set(code, peers);
+        room = code;
+        role = msg.role;
+        const peer = other();
+        send(ws, { type: 'joined', room, peerPresent: Boolean(peer) });
+        if (peer) send(peer, { type: 'peer-joined' });
+        return;
+      }
+
+      if (msg.type === 'signal' && room) {
+        send(other(), { type: 'signal', data: msg.data });
+        return;
+      }
+
+      send(ws, { type: 'error', reason: 'bad_request' });
+    });
+
+    ws.on('close', () => {
+      if (!room) return;
+      const peers = rooms.get(room);
+      if (peers?.[role] === ws) {
+        delete peers[role];
+        send(other(), { type: 'peer-left' });
+        if (!peers.host && !peers.client) rooms.delete(room);
+      }
+    });
+  });
+
+  // Drop sockets whose peer vanished without a close frame (e.g. a phone going to sleep).
+  const heartbeat = setInterval(() => {
+    for (const ws of wss.clients) {
+      if (!ws.isAlive) {
+        ws.terminate();
+        continue;
+      }
+      ws.isAlive = false;
+      ws.ping();
+    }
+  }, HEARTBEAT_MS);
+  wss.on('close', () => clearInterval(heartbeat));
+
+  return wss;
+}
+
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const port = Number(process.env.PORT) || 8787;
+  const host = process.env.HOST || '0.0.0.0';
+  startSignalingServer({ port, host }).on('listening', () => {
+    console.log(`Signaling relay listening on ws://${host}:${port}`);
+  });
+}
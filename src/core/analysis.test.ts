@@ -0,0 +1,55 @@
+import { describe, expect, it, vi } from 'vitest';
+import { analyzeGame } from './analysis';
+import { ScrabbleGame } from './game';
+import { alphabetFor, buildMoveLexicon } from './moveGenerator';
+
+describe('analyzeGame', () => {
+  const words = new Set(['HI', 'HIT', 'IT']);
+  const lexicon = buildMoveLexicon(words, alphabetFor('en'));
+  const checkWord = vi.fn(async (word: string) => words.has(word));
+
+  function startGame() {
+    const game = new ScrabbleGame();
+    game.start('en', ['p1', 'p2']);
+    const state = game.getState();
+    // Only H, I and T can form words, so the rest of each rack never matters.
+    state.racks['p1'] = [
+      { id: 'h', letter: 'H', value: 4 },
+      { id: 'i', letter: 'I', value: 1 },
+      { id: 't', letter: 'T', value: 1 }
+    ];
+    state.racks['p2'] = [{ id: 'x', letter: 'X', value: 8 }];
+    state.bag = [];
+    return game;
+  }
+
+  it('measures each turn against the best available move', async () => {
+    const game = startGame();
+    const rack = game.getState().racks['p1'];
+    await game.placeMove('p1', [
+      { x: 7, y: 7, tile: rack[0] },
+      { x: 8, y: 7, tile: rack[1] }
+    ], checkWord);
+    game.passTurn('p2');
+
+    const analysis = analyzeGame(game.getState(), lexicon);
+
+    expect(analysis.turns).toHaveLength(2);
+    expect(analysis.turns[0].played).toEqual({ type: 'MOVE', words: ['HI'], score: 10 });
+    expect(analysis.turns[0].best?.score).toBe(12);
+    expect(analysis.turns[0].lost).toBe(2);
+    expect(analysis.turns[1]).toMatchObject({ playerId: 'p2', best: null, lost: 0 });
+    expect(analysis.lostByPlayer).toEqual({ p1: 2, p2: 0 });
+    expect(analysis.biggestMisses.map((t) => t.moveNumber)).toEqual([1]);
+  });
+
+  it('skips turns saved without a rack', () => {
+    const game = startGame();
+    game.passTurn('p1');
+    const state = game.getState();
+    const pass = state.history[0];
+    if (pass.type === 'PASS') delete pass.rack;
+
+    expect(analyzeGame(state, lexicon)).toMatchObject({ turns: [], skipped: 1 });
+  });
+});
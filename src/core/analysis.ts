@@ -0,0 +1,71 @@
+import { generateMoves, type MoveLexicon } from './moveGenerator';
+import { buildReplay } from './replay';
+import type { GameState, Placement } from './types';
+
+export interface TurnAnalysis {
+  moveNumber: number;
+  playerId: string;
+  /** What was actually played: words are empty for a pass or exchange. */
+  played: { type: 'MOVE' | 'PASS' | 'EXCHANGE'; words: string[]; score: number };
+  /** Highest-scoring move available with the rack the player held (null if none). */
+  best: { words: string[]; score: number; placements: Placement[] } | null;
+  /** Points left on the table this turn (never negative). */
+  lost: number;
+}
+
+export interface GameAnalysis {
+  turns: TurnAnalysis[];
+  lostByPlayer: Record<string, number>;
+  /** Turns with the largest loss, biggest first. */
+  biggestMisses: TurnAnalysis[];
+  /** Turns that couldn't be analysed because their rack wasn't recorded. */
+  skipped: number;
+}
+
+/**
+ * Replays the game and compares every turn against the highest-scoring move that
+ * was available. Scores only: leave and board position are not taken into account.
+ * A withdrawn play counts as scoring 0.
+ */
+export function analyzeGame(
+  state: GameState,
+  lexicon: MoveLexicon,
+  options: { minLength?: number; missCount?: number } = {}
+): GameAnalysis {
+  const { frames } = buildReplay(state);
+  const turns: TurnAnalysis[] = [];
+  const lostByPlayer: Record<string, number> = Object.fromEntries(state.players.map((id) => [id, 0]));
+  let skipped = 0;
+
+  for (let i = 1; i < frames.length; i += 1) {
+    const entry = frames[i].entry!;
+    if (entry.type !== 'MOVE' && entry.type !== 'PASS' && entry.type !== 'EXCHANGE') continue;
+    if (!entry.rack) {
+      skipped += 1;
+      continue;
+    }
+
+    const position: GameState = { ...state, board: frames[i - 1].board, racks: { [entry.playerId]: entry.rack } };
+    const moves = generateMoves(position, entry.playerId, lexicon, { minLength: options.minLength });
+    const top = moves.length ? moves.reduce((a, b) => (b.score > a.score ? b : a)) : null;
+    const played =
+      entry.type === 'MOVE'
+        ? { type: entry.type, words: entry.words, score: entry.withdrawn ? 0 : entry.scoreDelta }
+        : { type: entry.type, words: [], score: 0 };
+    const lost = Math.max(0, (top?.score ?? 0) - played.score);
+    lostByPlayer[entry.playerId] = (lostByPlayer[entry.playerId] ?? 0) + lost;
+    turns.push({
+      moveNumber: entry.moveNumber,
+      playerId: entry.playerId,
+      played,
+      best: top ? { words: top.words, score: top.score, placements: top.placements } : null,
+      lost
+    });
+  }
+
+  const biggestMisses = turns
+    .filter((t) => t.lost > 0)
+    .sort((a, b) => b.lost - a.lost)
+    .slice(0, options.missCount ?? 3);
+  return { turns, lostByPlayer, biggestMisses, skipped };
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { buildPremiumMap } from './boardLayout';
+import { BOARD_LAYOUTS, buildPremiumMap, parseBoardLayout, SUPER_LAYOUT, WWF_LAYOUT } from './boardLayout';
 
 describe('buildPremiumMap', () => {
     const map = buildPremiumMap();
@@ -42,3 +42,46 @@ describe('buildPremiumMap', () => {
 });
 
 
+
+describe('board layouts', () => {
+    it('keeps every preset symmetric with at most one premium per square', () => {
+        for (const layout of BOARD_LAYOUTS) {
+            const map = buildPremiumMap(layout);
+            const listed = Object.values(layout.premiums).reduce((n, squares) => n + squares.length, 0);
+            expect(map.size).toBe(listed);
+            const last = layout.size - 1;
+            for (const [key, premium] of map) {
+                const [x, y] = key.split(',').map(Number);
+                expect(map.get(`${last - x},${y}`)).toBe(premium);
+                expect(map.get(`${y},${x}`)).toBe(premium);
+            }
+        }
+    });
+
+    it('places quadruple squares on the Super board and no star bonus on the Friends-style board', () => {
+        const superMap = buildPremiumMap(SUPER_LAYOUT);
+        expect(superMap.get('0,0')).toBe('QW');
+        expect(superMap.get('20,20')).toBe('QW');
+        expect(superMap.get('10,10')).toBe('CENTER');
+
+        expect(buildPremiumMap(WWF_LAYOUT).get('7,7')).toBeUndefined();
+    });
+
+    it('reads a user-defined layout, centering the start square by default', () => {
+        const layout = parseBoardLayout(
+            JSON.stringify({ name: 'Mini', size: 9, premiums: { TW: [[0, 0], [8, 8]], DL: [[2, 3]] } })
+        );
+        expect(layout).toMatchObject({ id: 'custom', name: 'Mini', size: 9, center: [4, 4] });
+        expect(buildPremiumMap(layout).get('2,3')).toBe('DL');
+    });
+
+    it('rejects layouts that do not fit the board', () => {
+        expect(() => parseBoardLayout('{')).toThrow('not valid JSON');
+        expect(() => parseBoardLayout('{"size": 40}')).toThrow('size');
+        expect(() => parseBoardLayout('{"size": 9, "premiums": {"TW": [[9, 0]]}}')).toThrow('inside the 9×9 board');
+        expect(() => parseBoardLayout('{"size": 9, "premiums": {"XX": []}}')).toThrow('Unknown premium');
+        expect(() => parseBoardLayout('{"size": 9, "premiums": {"TW": [[0, 0]], "DW": [[0, 0]]}}')).toThrow(
+            'more than one premium'
+        );
+    });
+});
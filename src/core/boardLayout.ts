@@ -1,12 +1,31 @@
 import type { Premium } from './types';
 
-const tripleWord = [
+/** Premium squares a layout can place; the start square is marked separately. */
+export type LayoutPremium = Exclude<Premium, 'CENTER'>;
+
+export interface BoardLayout {
+  id: string;
+  name: string;
+  /** Squares per side; boards are always square. */
+  size: number;
+  /** The square the opening play must cover. */
+  center: [number, number];
+  premiums: Partial<Record<LayoutPremium, Array<[number, number]>>>;
+}
+
+export const MIN_BOARD_SIZE = 5;
+/** GCG coordinates name columns A–Z, so no layout may be wider than that. */
+export const MAX_BOARD_SIZE = 26;
+
+const LAYOUT_PREMIUMS: LayoutPremium[] = ['QW', 'TW', 'DW', 'QL', 'TL', 'DL'];
+
+const tripleWord: Array<[number, number]> = [
   [0, 0], [0, 7], [0, 14],
   [7, 0], [7, 14],
   [14, 0], [14, 7], [14, 14]
 ];
 
-const doubleWord = [
+const doubleWord: Array<[number, number]> = [
   [1, 1], [2, 2], [3, 3], [4, 4],
   [7, 7],
   [10, 10], [11, 11], [12, 12], [13, 13],
@@ -14,14 +33,14 @@ const doubleWord = [
   [10, 4], [11, 3], [12, 2], [13, 1]
 ];
 
-const tripleLetter = [
+const tripleLetter: Array<[number, number]> = [
   [1, 5], [1, 9],
   [5, 1], [5, 5], [5, 9], [5, 13],
   [9, 1], [9, 5], [9, 9], [9, 13],
   [13, 5], [13, 9]
 ];
 
-const doubleLetter = [
+const doubleLetter: Array<[number, number]> = [
   [0, 3], [0, 11],
   [2, 6], [2, 8],
   [3, 0], [3, 7], [3, 14],
@@ -33,23 +52,148 @@ const doubleLetter = [
   [14, 3], [14, 11]
 ];
 
-const center: [number, number] = [7, 7];
+export const STANDARD_LAYOUT: BoardLayout = {
+  id: 'standard',
+  name: 'Standard 15×15',
+  size: 15,
+  center: [7, 7],
+  premiums: { TW: tripleWord, DW: doubleWord, TL: tripleLetter, DL: doubleLetter }
+};
 
-export function buildPremiumMap(): Map<string, Premium> {
+/**
+ * Expands squares given for one eighth of the board (x >= y, top-left quadrant)
+ * into all eight mirror images, the way printed boards are laid out.
+ */
+function mirrored(size: number, cells: Array<[number, number]>): Array<[number, number]> {
+  const last = size - 1;
+  const out = new Map<string, [number, number]>();
+  for (const [x, y] of cells) {
+    for (const [a, b] of [[x, y], [y, x]]) {
+      for (const [cx, cy] of [[a, b], [last - a, b], [a, last - b], [last - a, last - b]]) {
+        out.set(`${cx},${cy}`, [cx, cy]);
+      }
+    }
+  }
+  return [...out.values()];
+}
+
+/** 21×21 board with quadruple squares, modelled on Super Scrabble. */
+export const SUPER_LAYOUT: BoardLayout = {
+  id: 'super',
+  name: 'Super 21×21',
+  size: 21,
+  center: [10, 10],
+  premiums: {
+    QW: mirrored(21, [[0, 0]]),
+    TW: mirrored(21, [[7, 0], [10, 3]]),
+    DW: mirrored(21, [[1, 1], [2, 2], [4, 4], [5, 5], [6, 6], [10, 10]]),
+    QL: mirrored(21, [[3, 3]]),
+    TL: mirrored(21, [[5, 1], [9, 5], [8, 8]]),
+    DL: mirrored(21, [[3, 0], [10, 0], [6, 2], [8, 3], [9, 1], [7, 7]])
+  }
+};
+
+/** Words-with-Friends-style 15×15 board: premiums pushed off the corners, no bonus on the start square. */
+export const WWF_LAYOUT: BoardLayout = {
+  id: 'wwf',
+  name: 'Friends-style 15×15',
+  size: 15,
+  center: [7, 7],
+  premiums: {
+    TW: mirrored(15, [[3, 0]]),
+    DW: mirrored(15, [[5, 1], [7, 3]]),
+    TL: mirrored(15, [[6, 0], [3, 3], [5, 5]]),
+    DL: mirrored(15, [[2, 1], [4, 2], [6, 4]])
+  }
+};
+
+export const BOARD_LAYOUTS: BoardLayout[] = [STANDARD_LAYOUT, SUPER_LAYOUT, WWF_LAYOUT];
+
+/** The layout a game is played on. Snapshots from before layouts existed use the standard board. */
+export function layoutFor(state: { layout?: BoardLayout }): BoardLayout {
+  return state.layout ?? STANDARD_LAYOUT;
+}
+
+export function buildPremiumMap(layout: BoardLayout = STANDARD_LAYOUT): Map<string, Premium> {
   const map = new Map<string, Premium>();
-  tripleWord.forEach(([x, y]) => {
-    map.set(`${x},${y}`, 'TW');
-  });
-  doubleWord.forEach(([x, y]) => {
-    map.set(`${x},${y}`, 'DW');
-  });
-  tripleLetter.forEach(([x, y]) => {
-    map.set(`${x},${y}`, 'TL');
-  });
-  doubleLetter.forEach(([x, y]) => {
-    map.set(`${x},${y}`, 'DL');
-  });
-  map.set(`${center[0]},${center[1]}`, 'CENTER');
+  for (const kind of LAYOUT_PREMIUMS) {
+    (layout.premiums[kind] ?? []).forEach(([x, y]) => {
+      map.set(`${x},${y}`, kind);
+    });
+  }
+  // A double-word start square is drawn as the star; elsewhere the start keeps its own premium.
+  const centerKey = `${layout.center[0]},${layout.center[1]}`;
+  if (map.get(centerKey) === 'DW') map.set(centerKey, 'CENTER');
+  return map;
+}
+
+const premiumMaps = new WeakMap<BoardLayout, Map<string, Premium>>();
+
+/** `buildPremiumMap`, cached per layout object so scoring doesn't rebuild it for every word. */
+export function premiumMapFor(layout: BoardLayout): Map<string, Premium> {
+  let map = premiumMaps.get(layout);
+  if (!map) {
+    map = buildPremiumMap(layout);
+    premiumMaps.set(layout, map);
+  }
   return map;
 }
 
+/**
+ * Reads a user-defined layout, e.g.
+ * `{"name": "Mini", "size": 11, "center": [5, 5], "premiums": {"TW": [[0, 0]], "DL": [[2, 3]]}}`.
+ * `center` defaults to the middle square. Throws with a readable message when the JSON is unusable.
+ */
+export function parseBoardLayout(text: string): BoardLayout {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Board layout is not valid JSON');
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Board layout must be a JSON object');
+  }
+  const obj = raw as Record<string, unknown>;
+
+  const size = obj.size;
+  if (typeof size !== 'number' || !Number.isInteger(size) || size < MIN_BOARD_SIZE || size > MAX_BOARD_SIZE) {
+    throw new Error(`Board layout size must be a whole number from ${MIN_BOARD_SIZE} to ${MAX_BOARD_SIZE}`);
+  }
+  const readSquare = (value: unknown, what: string): [number, number] => {
+    if (
+      !Array.isArray(value) ||
+      value.length !== 2 ||
+      !value.every((v) => typeof v === 'number' && Number.isInteger(v) && v >= 0 && v < size)
+    ) {
+      throw new Error(`Board layout ${what} must be an [x, y] pair inside the ${size}×${size} board`);
+    }
+    return [value[0] as number, value[1] as number];
+  };
+
+  const middle = Math.floor(size / 2);
+  const center = obj.center === undefined ? ([middle, middle] as [number, number]) : readSquare(obj.center, 'center');
+
+  const premiums: BoardLayout['premiums'] = {};
+  const rawPremiums = obj.premiums ?? {};
+  if (typeof rawPremiums !== 'object' || Array.isArray(rawPremiums)) {
+    throw new Error('Board layout premiums must map a premium type to a list of squares');
+  }
+  const taken = new Set<string>();
+  for (const [kind, squares] of Object.entries(rawPremiums as Record<string, unknown>)) {
+    if (!LAYOUT_PREMIUMS.includes(kind as LayoutPremium)) {
+      throw new Error(`Unknown premium "${kind}" in board layout (use ${LAYOUT_PREMIUMS.join(', ')})`);
+    }
+    if (!Array.isArray(squares)) throw new Error(`Board layout premium ${kind} must be a list of squares`);
+    premiums[kind as LayoutPremium] = squares.map((sq) => {
+      const square = readSquare(sq, `${kind} square`);
+      const key = square.join(',');
+      if (taken.has(key)) throw new Error(`Board layout square ${key} has more than one premium`);
+      taken.add(key);
+      return square;
+    });
+  }
+
+  const name = typeof obj.name === 'string' && obj.name.trim() ? obj.name.trim().slice(0, 40) : `Custom ${size}×${size}`;
+  return { id: 'custom', name, size, center, premiums };
+}
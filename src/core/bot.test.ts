@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { chooseBotAction, effectiveChallengeRule, evaluateLeave } from './bot';
+import type { GeneratedMove } from './moveGenerator';
+import type { Tile } from './types';
+
+function tiles(letters: string): Tile[] {
+  return letters.split('').map((letter, i) =>
+    letter === '?' ? { id: `t${i}`, letter: ' ', value: 0, blank: true } : { id: `t${i}`, letter, value: letter === 'Q' ? 10 : 1 }
+  );
+}
+
+function move(rack: Tile[], usedIds: string[], score: number): GeneratedMove {
+  return {
+    placements: usedIds.map((id, i) => ({ x: 7 + i, y: 7, tile: rack.find((t) => t.id === id)! })),
+    words: [],
+    score,
+    orientation: 'row'
+  };
+}
+
+describe('evaluateLeave', () => {
+  it('prefers blanks and balanced racks over duplicates', () => {
+    expect(evaluateLeave(tiles('?'), 'en')).toBeGreaterThan(evaluateLeave(tiles('E'), 'en'));
+    expect(evaluateLeave(tiles('ERS'), 'en')).toBeGreaterThan(evaluateLeave(tiles('III'), 'en'));
+    expect(evaluateLeave(tiles('Q'), 'en')).toBeLessThan(evaluateLeave(tiles('QU'), 'en'));
+  });
+});
+
+describe('chooseBotAction', () => {
+  const rack = tiles('QIIIAER');
+  // t0=Q, t6=R
+  const moves = [move(rack, ['t6', 't5'], 20), move(rack, ['t0', 't1'], 18), move(rack, ['t4'], 2)];
+
+  it('medium plays the highest-scoring move', () => {
+    const action = chooseBotAction({ moves, rack, bagCount: 50, difficulty: 'medium', language: 'en' });
+    expect(action).toEqual({ type: 'move', placements: moves[0].placements });
+  });
+
+  it('hard trades a little score for a better leave', () => {
+    const action = chooseBotAction({ moves, rack, bagCount: 50, difficulty: 'hard', language: 'en' });
+    expect(action).toEqual({ type: 'move', placements: moves[1].placements });
+  });
+
+  it('hard ignores the leave once the bag is empty', () => {
+    const action = chooseBotAction({ moves, rack, bagCount: 0, difficulty: 'hard', language: 'en' });
+    expect(action).toEqual({ type: 'move', placements: moves[0].placements });
+  });
+
+  it('easy picks from the legal moves using the supplied rng', () => {
+    const action = chooseBotAction({ moves, rack, bagCount: 50, difficulty: 'easy', language: 'en', rng: () => 0.99 });
+    expect(action).toEqual({ type: 'move', placements: moves[2].placements });
+  });
+
+  it('exchanges without moves when the bag allows it, otherwise passes', () => {
+    expect(chooseBotAction({ moves: [], rack, bagCount: 7, difficulty: 'medium', language: 'en' })).toEqual({
+      type: 'exchange',
+      tileIds: rack.map((t) => t.id)
+    });
+    expect(chooseBotAction({ moves: [], rack, bagCount: 6, difficulty: 'hard', language: 'en' })).toEqual({ type: 'pass' });
+
+    const hard = chooseBotAction({ moves: [], rack, bagCount: 50, difficulty: 'hard', language: 'en' });
+    expect(hard.type).toBe('exchange');
+    expect(hard.type === 'exchange' && hard.tileIds).toContain('t0');
+  });
+});
+
+describe('effectiveChallengeRule', () => {
+  it('rejects invalid words straight away against the bot', () => {
+    expect(effectiveChallengeRule('double', true)).toBe('off');
+    expect(effectiveChallengeRule('single', true)).toBe('off');
+  });
+
+  it('keeps the chosen rule between people', () => {
+    expect(effectiveChallengeRule('double', false)).toBe('double');
+    expect(effectiveChallengeRule('off', false)).toBe('off');
+  });
+});
@@ -0,0 +1,141 @@
+import { languagePack } from './languagePacks';
+import type { GeneratedMove } from './moveGenerator';
+import type { ChallengeRule, Language, Placement, Tile } from './types';
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export type BotAction =
+  | { type: 'move'; placements: Placement[] }
+  | { type: 'exchange'; tileIds: string[] }
+  | { type: 'pass' };
+
+export const BOT_DIFFICULTY_LABELS: Record<BotDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard'
+};
+
+/**
+ * The rule a game actually uses. The bot never challenges, so against it any string would
+ * stand under 'double' or 'single'; those games keep rejecting invalid words straight away.
+ */
+export function effectiveChallengeRule(rule: ChallengeRule, againstBot: boolean): ChallengeRule {
+  return againstBot ? 'off' : rule;
+}
+
+// An exchange must look this much better than the best play before the bot gives up a turn.
+const EXCHANGE_MARGIN = 8;
+
+/**
+ * Rough value (in points) of keeping `leave` on the rack for the next turn.
+ *
+ * Not a trained leave table: it rewards blanks and S, and penalises duplicates,
+ * a lopsided vowel/consonant mix and heavy tiles that are hard to place.
+ */
+export function evaluateLeave(leave: Tile[], language: Language): number {
+  if (leave.length === 0) return 0;
+  const vowels = languagePack(language).vowels;
+  let value = 0;
+  let vowelCount = 0;
+  let consonantCount = 0;
+  const seen = new Map<string, number>();
+
+  for (const tile of leave) {
+    if (tile.blank) {
+      value += 25;
+      continue;
+    }
+    const letter = tile.letter;
+    if (language === 'en' && letter === 'S') value += 8;
+    if (tile.value >= 8) value -= tile.value / 2;
+    if (vowels.includes(letter)) vowelCount += 1;
+    else consonantCount += 1;
+    const dupes = seen.get(letter) ?? 0;
+    if (dupes > 0) value -= 4 * dupes;
+    seen.set(letter, dupes + 1);
+  }
+
+  if (language === 'en' && seen.has('Q') && !seen.has('U')) value -= 7;
+  value -= 3 * Math.max(0, Math.abs(vowelCount - consonantCount) - 1);
+  return value;
+}
+
+function leaveAfter(rack: Tile[], usedIds: Set<string>): Tile[] {
+  return rack.filter((t) => !usedIds.has(t.id));
+}
+
+/** Best subset of the rack to keep when exchanging (everything else goes back to the bag). */
+function bestExchange(rack: Tile[], language: Language): { keep: Tile[]; value: number } {
+  // Start from "exchange everything"; keeping the whole rack is not an exchange.
+  let best = { keep: [] as Tile[], value: 0 };
+  // Racks are at most 7 tiles, so checking every subset (128) is cheap.
+  for (let mask = 1; mask < (1 << rack.length) - 1; mask += 1) {
+    const keep = rack.filter((_, i) => mask & (1 << i));
+    const value = evaluateLeave(keep, language);
+    if (value > best.value) best = { keep, value };
+  }
+  return best;
+}
+
+/**
+ * Picks the bot's action for this turn from the list of legal moves.
+ *
+ * - easy: any legal move at random.
+ * - medium: the highest-scoring move.
+ * - hard: score plus the value of the tiles left behind; may exchange a poor rack.
+ *
+ * Without a legal move the bot exchanges its whole rack when the bag allows it, otherwise passes.
+ */
+export function chooseBotAction(params: {
+  moves: GeneratedMove[];
+  rack: Tile[];
+  bagCount: number;
+  difficulty: BotDifficulty;
+  language: Language;
+  rng?: () => number;
+}): BotAction {
+  const { moves, rack, bagCount, difficulty, language } = params;
+  const rng = params.rng ?? Math.random;
+  const canExchange = bagCount >= 7 && rack.length > 0;
+
+  if (moves.length === 0) {
+    if (!canExchange) return { type: 'pass' };
+    if (difficulty !== 'hard') return { type: 'exchange', tileIds: rack.map((t) => t.id) };
+    const { keep } = bestExchange(rack, language);
+    const keepIds = new Set(keep.map((t) => t.id));
+    return { type: 'exchange', tileIds: rack.filter((t) => !keepIds.has(t.id)).map((t) => t.id) };
+  }
+
+  if (difficulty === 'easy') {
+    const pick = moves[Math.min(moves.length - 1, Math.floor(rng() * moves.length))];
+    return { type: 'move', placements: pick.placements };
+  }
+
+  if (difficulty === 'medium') {
+    const best = moves.reduce((a, b) => (b.score > a.score ? b : a));
+    return { type: 'move', placements: best.placements };
+  }
+
+  // Hard: leave only matters while there are tiles to draw.
+  const leaveWeight = bagCount > 0 ? 1 : 0;
+  let best = moves[0];
+  let bestEquity = -Infinity;
+  for (const move of moves) {
+    const used = new Set(move.placements.map((p) => p.tile.id));
+    const equity = move.score + leaveWeight * evaluateLeave(leaveAfter(rack, used), language);
+    if (equity > bestEquity) {
+      best = move;
+      bestEquity = equity;
+    }
+  }
+
+  if (canExchange) {
+    const exchange = bestExchange(rack, language);
+    if (exchange.value > bestEquity + EXCHANGE_MARGIN) {
+      const keepIds = new Set(exchange.keep.map((t) => t.id));
+      return { type: 'exchange', tileIds: rack.filter((t) => !keepIds.has(t.id)).map((t) => t.id) };
+    }
+  }
+
+  return { type: 'move', placements: best.placements };
+}
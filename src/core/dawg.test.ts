@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { DawgWordSet, encodeDawg } from './dawg';
+import { alphabetFor, buildLetterToIndex, buildMoveLexicon, buildTrie, generateMoves, overlayTrie } from './moveGenerator';
+import type { BoardCell, GameState } from './types';
+
+const WORDS = ['CAT', 'CATS', 'BAT', 'BATS', 'RAT', 'RATS', 'AT', 'A'];
+
+function countNodes(root: ReturnType<typeof buildTrie>): number {
+  const seen = new Set<object>();
+  const walk = (node: typeof root) => {
+    if (seen.has(node)) return;
+    seen.add(node);
+    node.children.forEach(walk);
+  };
+  walk(root);
+  return seen.size;
+}
+
+function trieWords(root: ReturnType<typeof buildTrie>, alphabet: string[]): string[] {
+  const words: string[] = [];
+  const walk = (node: typeof root, prefix: string) => {
+    if (node.end) words.push(prefix);
+    node.children.forEach((child, idx) => walk(child, prefix + alphabet[idx]));
+  };
+  walk(root, '');
+  return words.sort();
+}
+
+describe('DAWG dictionary', () => {
+  it('answers lookups and lists its words in order', () => {
+    const words = new DawgWordSet(encodeDawg(WORDS, alphabetFor('en')));
+
+    expect(words.size).toBe(WORDS.length);
+    expect(WORDS.every((w) => words.has(w))).toBe(true);
+    expect(words.has('CA')).toBe(false);
+    expect(words.has('CATSS')).toBe(false);
+    expect(words.has('ÄT')).toBe(false);
+    expect(words.has('')).toBe(false);
+    expect([...words]).toEqual([...WORDS].sort());
+  });
+
+  it('shares suffixes, so its graph is smaller than a trie of the same words', () => {
+    const alphabet = alphabetFor('en');
+    const dawg = new DawgWordSet(encodeDawg(WORDS, alphabet));
+    const trie = buildTrie(WORDS, buildLetterToIndex(alphabet));
+
+    expect(countNodes(dawg.trieRoot())).toBeLessThan(countNodes(trie));
+  });
+
+  it('keeps digraph tiles as single edges', () => {
+    const words = new DawgWordSet(encodeDawg(['CHE', 'CALLE', 'CARRO'], alphabetFor('es')));
+    expect(words.has('CHE')).toBe(true);
+    expect(words.has('CARRO')).toBe(true);
+    expect(words.trieRoot().children.has(alphabetFor('es').indexOf('CH'))).toBe(true);
+  });
+
+  it('survives a structured clone and generates the same moves as a word set', () => {
+    const data = structuredClone(encodeDawg(WORDS, alphabetFor('en')));
+    const board: BoardCell[][] = Array.from({ length: 15 }, () => Array.from({ length: 15 }, () => ({ tile: null })));
+    const state: GameState = {
+      board,
+      bag: [],
+      racks: { p1: ['C', 'A', 'T', 'S'].map((letter, i) => ({ id: `t${i}`, letter, value: 1 })), p2: [] },
+      scores: { p1: 0, p2: 0 },
+      currentPlayer: 'p1',
+      players: ['p1', 'p2'],
+      language: 'en',
+      moveNumber: 0,
+      history: [],
+      sessionId: 'test'
+    };
+
+    const fromDawg = generateMoves(state, 'p1', buildMoveLexicon(new DawgWordSet(data), alphabetFor('en')));
+    const fromSet = generateMoves(state, 'p1', buildMoveLexicon(new Set(WORDS), alphabetFor('en')));
+    expect(fromDawg.length).toBeGreaterThan(0);
+    expect(fromDawg).toEqual(fromSet);
+  });
+
+  it('takes house-rule changes without touching its shared graph', () => {
+    const alphabet = alphabetFor('en');
+    const dawg = new DawgWordSet(encodeDawg(WORDS, alphabet));
+    const root = overlayTrie(dawg.trieRoot(), ['MAT', 'CATS'], ['RAT', 'ZAP'], buildLetterToIndex(alphabet));
+
+    expect(trieWords(root, alphabet)).toEqual(['A', 'AT', 'BAT', 'BATS', 'CAT', 'CATS', 'MAT', 'RATS']);
+    expect(trieWords(dawg.trieRoot(), alphabet)).toEqual([...WORDS].sort());
+  });
+});
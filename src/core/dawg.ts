@@ -0,0 +1,213 @@
+import { createTokenizer } from './languagePacks';
+import type { TrieNode } from './moveGenerator';
+import type { WordSet } from './types';
+
+/**
+ * A dictionary packed as a minimized DAWG (directed acyclic word graph), ready to store in
+ * IndexedDB as is. Every node is a run of 32-bit edges:
+ *
+ *   bits 0-5   alphabet index of the tile on the edge
+ *   bit 6      the edge ends a word
+ *   bit 7      last edge of the node
+ *   bits 8-31  offset of the child's edges (0 when the child has none)
+ *
+ * Offset 0 is a sentinel, so the root's edges start at 1.
+ */
+export interface DawgData {
+  version: 1;
+  alphabet: string[];
+  /** Number of words in the graph. */
+  size: number;
+  edges: Uint32Array;
+}
+
+const LABEL_MASK = 0x3f;
+const FINAL_BIT = 0x40;
+const LAST_BIT = 0x80;
+const ROOT = 1;
+const MAX_OFFSET = 0xffffff;
+
+type BuildState = {
+  final: boolean;
+  edges: Array<{ label: number; to: BuildState }>;
+  id?: number;
+};
+
+/**
+ * Builds a DAWG from a word list. Words the alphabet can't spell are left out; the rest are
+ * split into tiles first, so with Spanish tiles CH is one edge.
+ */
+export function encodeDawg(words: Iterable<string>, alphabet: string[]): DawgData {
+  if (alphabet.length > LABEL_MASK + 1) throw new Error(`DAWG alphabet too large (${alphabet.length} tiles)`);
+  const tokenize = createTokenizer(alphabet);
+  const index = new Map(alphabet.map((t, i) => [t, i]));
+
+  const sequences: number[][] = [];
+  for (const word of words) {
+    const tokens = tokenize(word);
+    if (tokens?.length) sequences.push(tokens.map((t) => index.get(t)!));
+  }
+  sequences.sort(compareSequences);
+
+  // Incremental construction from sorted input (Daciuk et al.): once a word is added, the
+  // states left behind by the previous word can never change, so they are merged right away.
+  const root: BuildState = { final: false, edges: [] };
+  const register = new Map<string, BuildState>();
+  const path: BuildState[] = [root];
+  let prev: number[] = [];
+  let size = 0;
+
+  const minimize = (downTo: number) => {
+    for (let i = path.length - 1; i > downTo; i -= 1) {
+      const state = path[i];
+      const key = `${state.final ? 1 : 0}${state.edges.map((e) => `,${e.label}:${e.to.id}`).join('')}`;
+      const existing = register.get(key);
+      const parentEdges = path[i - 1].edges;
+      if (existing) {
+        parentEdges[parentEdges.length - 1].to = existing;
+      } else {
+        state.id = register.size;
+        register.set(key, state);
+      }
+    }
+    path.length = downTo + 1;
+  };
+
+  for (const seq of sequences) {
+    if (compareSequences(seq, prev) === 0) continue;
+    let common = 0;
+    while (common < seq.length && common < prev.length && seq[common] === prev[common]) common += 1;
+    minimize(common);
+    for (let i = common; i < seq.length; i += 1) {
+      const next: BuildState = { final: false, edges: [] };
+      path[path.length - 1].edges.push({ label: seq[i], to: next });
+      path.push(next);
+    }
+    path[path.length - 1].final = true;
+    prev = seq;
+    size += 1;
+  }
+  minimize(0);
+
+  return { version: 1, alphabet: [...alphabet], size, edges: layOut(root) };
+}
+
+function compareSequences(a: number[], b: number[]): number {
+  const n = Math.min(a.length, b.length);
+  for (let i = 0; i < n; i += 1) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+}
+
+function layOut(root: BuildState): Uint32Array {
+  const offsets = new Map<BuildState, number>();
+  const order: BuildState[] = [];
+  let next = ROOT;
+  const visit = (state: BuildState) => {
+    if (!state.edges.length || offsets.has(state)) return;
+    offsets.set(state, next);
+    order.push(state);
+    next += state.edges.length;
+    state.edges.forEach((e) => visit(e.to));
+  };
+  visit(root);
+  if (next - 1 > MAX_OFFSET) throw new Error('Dictionary too large for the DAWG format');
+
+  const edges = new Uint32Array(Math.max(next, ROOT));
+  for (const state of order) {
+    const at = offsets.get(state)!;
+    state.edges.forEach((e, i) => {
+      const child = offsets.get(e.to) ?? 0;
+      edges[at + i] =
+        e.label | (e.to.final ? FINAL_BIT : 0) | (i === state.edges.length - 1 ? LAST_BIT : 0) | (child << 8);
+    });
+  }
+  return edges;
+}
+
+/**
+ * Read-only word set over a stored DAWG: lookups walk the graph instead of a `Set` of
+ * strings, and move generation reuses the graph as its trie (see `trieRoot`).
+ */
+export class DawgWordSet implements WordSet {
+  readonly alphabet: string[];
+  readonly size: number;
+  private readonly edges: Uint32Array;
+  private readonly index: Map<string, number>;
+  private readonly tokenize: (word: string) => string[] | null;
+  private trie: TrieNode | null = null;
+
+  constructor(data: DawgData) {
+    this.alphabet = data.alphabet;
+    this.size = data.size;
+    this.edges = data.edges;
+    this.index = new Map(data.alphabet.map((t, i) => [t, i]));
+    this.tokenize = createTokenizer(data.alphabet);
+  }
+
+  has(word: string): boolean {
+    const tokens = this.tokenize(word);
+    if (!tokens?.length) return false;
+    let offset = this.edges.length > ROOT ? ROOT : 0;
+    let final = false;
+    for (const token of tokens) {
+      const edge = offset ? this.findEdge(offset, this.index.get(token)!) : undefined;
+      if (edge === undefined) return false;
+      final = (edge & FINAL_BIT) !== 0;
+      offset = edge >>> 8;
+    }
+    return final;
+  }
+
+  *[Symbol.iterator](): IterableIterator<string> {
+    if (this.edges.length <= ROOT) return;
+    const edges = this.edges;
+    const alphabet = this.alphabet;
+    const prefix: string[] = [];
+    function* walk(offset: number): Generator<string> {
+      for (let i = offset; ; i += 1) {
+        const edge = edges[i];
+        prefix.push(alphabet[edge & LABEL_MASK]);
+        if (edge & FINAL_BIT) yield prefix.join('');
+        if (edge >>> 8) yield* walk(edge >>> 8);
+        prefix.pop();
+        if (edge & LAST_BIT) return;
+      }
+    }
+    yield* walk(ROOT);
+  }
+
+  /**
+   * The graph as `TrieNode`s for move generation, with child indices into `alphabet`.
+   * Shared suffixes stay shared, so this is far smaller than a trie built from the words.
+   */
+  trieRoot(): TrieNode {
+    if (this.trie) return this.trie;
+    const edges = this.edges;
+    const nodes = new Map<number, TrieNode>();
+    const node = (offset: number, end: boolean): TrieNode => {
+      const key = offset * 2 + (end ? 1 : 0);
+      let n = nodes.get(key);
+      if (n) return n;
+      n = { children: new Map(), end };
+      nodes.set(key, n);
+      if (!offset) return n;
+      for (let i = offset; ; i += 1) {
+        const edge = edges[i];
+        n.children.set(edge & LABEL_MASK, node(edge >>> 8, (edge & FINAL_BIT) !== 0));
+        if (edge & LAST_BIT) return n;
+      }
+    };
+    this.trie = node(this.edges.length > ROOT ? ROOT : 0, false);
+    return this.trie;
+  }
+
+  private findEdge(offset: number, label: number): number | undefined {
+    for (let i = offset; ; i += 1) {
+      const edge = this.edges[i];
+      if ((edge & LABEL_MASK) === label) return edge;
+      if (edge & LAST_BIT) return undefined;
+    }
+  }
+}
@@ -70,9 +70,11 @@ describe('ScrabbleGame Integration', () => {
         const rack = state.racks['p1'];
 
         // Assume rack has 7 tiles. We'll hack them to be 1-point letters.
+        // Blanks too: a blank always scores 0, so they become plain tiles here.
         rack.forEach((t) => {
             t.letter = 'A';
             t.value = 1;
+            t.blank = undefined;
         });
 
         // Place all 7 tiles horizontally across center
@@ -148,6 +148,105 @@ describe('ScrabbleGame', () => {
         expect(last.success).toBe(true);
         expect(last.gameEnded?.reason).toBe('four_passes');
         expect(last.gameEnded?.finalScores).toEqual({ p1: -4, p2: -3 });
+        expect(last.gameEnded?.wentOut).toBeUndefined();
+    });
+
+    it('ends a three-player game after two full rounds of passes', () => {
+        game.start('en', ['p1', 'p2', 'p3']);
+        const state = game.getState();
+        state.racks['p1'] = [{ id: 'p1a', letter: 'A', value: 1 }];
+        state.racks['p2'] = [{ id: 'p2b', letter: 'B', value: 3 }];
+        state.racks['p3'] = [];
+
+        for (let round = 0; round < 2; round++) {
+            for (const id of ['p1', 'p2', 'p3']) {
+                const result = game.passTurn(id);
+                expect(result.success).toBe(true);
+                if (round === 1 && id === 'p3') {
+                    expect(result.gameEnded?.reason).toBe('four_passes');
+                } else {
+                    expect(result.gameEnded).toBeUndefined();
+                }
+            }
+        }
+    });
+
+    it('does not end on passes when an exchange breaks the streak', () => {
+        game.start('en', ['p1', 'p2', 'p3']);
+        const rack = game.getState().racks['p2'];
+
+        expect(game.passTurn('p1').gameEnded).toBeUndefined();
+        expect(game.exchangeTiles('p2', [rack[0].id]).success).toBe(true);
+        for (const id of ['p3', 'p1', 'p2', 'p3', 'p1']) {
+            expect(game.passTurn(id).gameEnded).toBeUndefined();
+        }
+        expect(game.passTurn('p2').gameEnded?.reason).toBe('four_passes');
+    });
+
+    it('does not let hints break a streak of passes', () => {
+        game.start('en', ['p1', 'p2']);
+
+        game.passTurn('p1');
+        game.recordHint('p2', 1);
+        game.passTurn('p2');
+        game.recordHint('p1', 1);
+        expect(game.recordHint('p1', 1).success).toBe(true);
+        expect(game.recordHint('p2', 1).success).toBe(false);
+        game.passTurn('p1');
+
+        expect(game.passTurn('p2').gameEnded?.reason).toBe('four_passes');
+    });
+
+    it('keeps hints when trimming a long history', () => {
+        game.start('en', ['p1', 'p2']);
+        game.recordHint('p1', 1);
+
+        for (let i = 0; i < 260; i += 1) {
+            const id = i % 2 === 0 ? 'p1' : 'p2';
+            expect(game.exchangeTiles(id, [game.getState().racks[id][0].id]).success).toBe(true);
+        }
+
+        const { history } = game.getState();
+        expect(history.filter((e) => e.type === 'EXCHANGE')).toHaveLength(250);
+        expect(history.filter((e) => e.type === 'HINT' && e.playerId === 'p1')).toHaveLength(1);
+    });
+
+    it('ends the game when a player goes out with the bag empty and credits their opponents\' racks', async () => {
+        game.start('en', ['p1', 'p2', 'p3']);
+        const state = game.getState();
+        state.bag = [];
+        state.racks['p1'] = [
+            { id: 't1', letter: 'H', value: 4 },
+            { id: 't2', letter: 'I', value: 1 }
+        ];
+        state.racks['p2'] = [{ id: 'p2q', letter: 'Q', value: 10 }];
+        state.racks['p3'] = [
+            { id: 'p3a', letter: 'A', value: 1 },
+            { id: 'p3e', letter: 'E', value: 1 }
+        ];
+
+        const result = await game.placeMove('p1', [
+            { x: 7, y: 7, tile: state.racks['p1'][0] },
+            { x: 8, y: 7, tile: state.racks['p1'][1] }
+        ], mockCheckWord);
+
+        expect(result.success).toBe(true);
+        expect(result.gameEnded?.reason).toBe('player_out');
+        // HI = 10, plus 10 (p2) + 2 (p3) from the other racks.
+        expect(result.gameEnded?.finalScores).toEqual({ p1: 22, p2: -10, p3: -2 });
+        expect(result.gameEnded?.wentOut).toEqual({ playerId: 'p1', bonus: 12 });
+    });
+
+    it('does not end the game when a rack empties while the bag still has tiles', async () => {
+        game.start('en', ['p1', 'p2']);
+        const state = game.getState();
+        state.racks['p1'] = [{ id: 't1', letter: 'A', value: 1 }];
+
+        const result = await game.placeMove('p1', [{ x: 7, y: 7, tile: state.racks['p1'][0] }], mockCheckWord);
+
+        expect(result.success).toBe(true);
+        expect(result.gameEnded).toBeUndefined();
+        expect(game.getState().racks['p1']).toHaveLength(7);
     });
 
     it('handles exchange tiles', () => {
@@ -237,6 +336,24 @@ describe('ScrabbleGame', () => {
         expect(result.message).toContain('Invalid word');
     });
 
+    it('requires digraph words to be spelled with the digraph tile', async () => {
+        game.start('es', ['p1']);
+        const state = game.getState();
+        const tile = (letter: string, id: string) => ({ id, letter, value: 1 });
+        const across = (letters: string[]): Placement[] =>
+            letters.map((letter, i) => ({ x: 6 + i, y: 7, tile: tile(letter, `d${i}`) }));
+        const checker = vi.fn(async (word: string) => word === 'CHE');
+
+        state.racks['p1'] = [tile('C', 'd0'), tile('H', 'd1'), tile('E', 'd2')];
+        const split = await game.placeMove('p1', across(['C', 'H', 'E']), checker);
+        expect(split.success).toBe(false);
+        expect(split.message).toContain('Invalid word');
+
+        state.racks['p1'] = [tile('CH', 'd0'), tile('E', 'd1')];
+        const joined = await game.placeMove('p1', across(['CH', 'E']), checker);
+        expect(joined.success).toBe(true);
+    });
+
     it('detects game end when bag is empty and no players have valid moves', async () => {
         game.start('en', ['p1', 'p2']);
         const state = game.getState();
@@ -251,3 +368,213 @@ describe('ScrabbleGame', () => {
     });
 });
 
+describe('ScrabbleGame challenge rule', () => {
+    const dictionary = new Set(['HI']);
+    const checkWord = vi.fn(async (word: string) => dictionary.has(word));
+
+    beforeEach(() => {
+        checkWord.mockClear();
+    });
+
+    function startWith(rule: 'double' | 'single') {
+        const game = new ScrabbleGame();
+        game.start('en', ['p1', 'p2'], { challengeRule: rule });
+        const state = game.getState();
+        state.racks['p1'][0] = { id: 'h', letter: 'H', value: 4 };
+        state.racks['p1'][1] = { id: 'x', letter: 'X', value: 8 };
+        state.racks['p1'][2] = { id: 'i', letter: 'I', value: 1 };
+        return game;
+    }
+
+    function play(game: ScrabbleGame, ids: [string, string]) {
+        const rack = game.getState().racks['p1'];
+        const [a, b] = ids.map((id) => rack.find((t) => t.id === id)!);
+        return game.placeMove('p1', [
+            { x: 7, y: 7, tile: a },
+            { x: 8, y: 7, tile: b }
+        ], checkWord);
+    }
+
+    it('accepts unchecked words provisionally', async () => {
+        const game = startWith('double');
+        const result = await play(game, ['h', 'x']);
+
+        expect(result.success).toBe(true);
+        expect(result.words).toEqual(['HX']);
+        expect(checkWord).not.toHaveBeenCalled();
+        expect(game.getState().pendingChallenge?.words).toEqual(['HX']);
+    });
+
+    it('takes letters and values from the rack, not from the sender', async () => {
+        const game = startWith('double');
+        const result = await game.placeMove('p1', [
+            { x: 7, y: 7, tile: { id: 'h', letter: '<b>', value: 50 } },
+            { x: 8, y: 7, tile: { id: 'i', letter: 'Z', value: 10 } }
+        ], checkWord);
+        const { board, scores } = game.getState();
+
+        expect(result.words).toEqual(['HI']);
+        expect(board[7][7].tile).toEqual({ id: 'h', letter: 'H', value: 4 });
+        expect(board[7][8].tile).toEqual({ id: 'i', letter: 'I', value: 1 });
+        expect(scores['p1']).toBe(10);
+    });
+
+    it('rejects a blank standing for something outside the alphabet', async () => {
+        const game = startWith('double');
+        game.getState().racks['p1'][3] = { id: 'b', letter: ' ', value: 0, blank: true };
+        const h = { id: 'h', letter: 'H', value: 4 };
+        const forged = await game.placeMove('p1', [
+            { x: 7, y: 7, tile: h },
+            { x: 8, y: 7, tile: { id: 'b', letter: '<img>', value: 9, blank: true } }
+        ], checkWord);
+        expect(forged.success).toBe(false);
+
+        const played = await game.placeMove('p1', [
+            { x: 7, y: 7, tile: h },
+            { x: 8, y: 7, tile: { id: 'b', letter: 'I', value: 9, blank: true } }
+        ], checkWord);
+        expect(played.success).toBe(true);
+        expect(game.getState().board[7][8].tile).toEqual({ id: 'b', letter: 'I', value: 0, blank: true });
+    });
+
+    it('withdraws the play on a successful challenge and keeps the challenger on turn', async () => {
+        const game = startWith('double');
+        const bagBefore = game.getState().bag.length;
+        await play(game, ['h', 'x']);
+
+        const result = await game.challenge('p2', checkWord);
+        const state = game.getState();
+
+        expect(result.challenge).toEqual({ upheld: true, invalidWords: ['HX'], penalty: 0 });
+        expect(state.board[7][7].tile).toBeNull();
+        expect(state.board[7][8].tile).toBeNull();
+        expect(state.scores['p1']).toBe(0);
+        expect(state.racks['p1'].map((t) => t.id)).toEqual(expect.arrayContaining(['h', 'x']));
+        expect(state.racks['p1']).toHaveLength(7);
+        expect(state.bag).toHaveLength(bagBefore);
+        expect(state.currentPlayer).toBe('p2');
+        expect(state.pendingChallenge).toBeNull();
+        const move = state.history.find((e) => e.type === 'MOVE');
+        expect(move?.type === 'MOVE' && move.withdrawn).toBe(true);
+        expect(state.history[state.history.length - 1].type).toBe('CHALLENGE');
+    });
+
+    it('costs the challenger the turn when a double challenge fails', async () => {
+        const game = startWith('double');
+        await play(game, ['h', 'i']);
+
+        const result = await game.challenge('p2', checkWord);
+
+        expect(result.challenge?.upheld).toBe(false);
+        expect(game.getState().currentPlayer).toBe('p1');
+        expect(game.getState().scores).toEqual({ p1: 10, p2: 0 });
+    });
+
+    it('costs the challenger points when a single challenge fails', async () => {
+        const game = startWith('single');
+        await play(game, ['h', 'i']);
+
+        const result = await game.challenge('p2', checkWord);
+
+        expect(result.challenge).toEqual({ upheld: false, invalidWords: [], penalty: 5 });
+        expect(game.getState().currentPlayer).toBe('p2');
+        expect(game.getState().scores).toEqual({ p1: 10, p2: -5 });
+    });
+
+    it('closes the challenge window when the next player acts', async () => {
+        const game = startWith('double');
+        await play(game, ['h', 'x']);
+
+        expect(game.passTurn('p2').success).toBe(true);
+        expect(game.getState().pendingChallenge).toBeNull();
+        expect((await game.challenge('p1', checkWord)).success).toBe(false);
+    });
+
+    it('waits for an accept or challenge before a player who went out ends the game', async () => {
+        const game = startWith('double');
+        const state = game.getState();
+        state.bag = [];
+        state.racks['p1'] = state.racks['p1'].filter((t) => t.id === 'h' || t.id === 'i');
+
+        const result = await play(game, ['h', 'i']);
+        expect(result.gameEnded).toBeUndefined();
+
+        const p2Rack = game.getState().racks['p2'];
+        expect(game.exchangeTiles('p2', [p2Rack[0].id]).success).toBe(false);
+        const accepted = game.acceptPlay('p2');
+        expect(accepted.gameEnded?.reason).toBe('player_out');
+        expect(accepted.gameEnded?.wentOut?.playerId).toBe('p1');
+    });
+});
+
+describe('ScrabbleGame takeBack', () => {
+    const checkWord = vi.fn().mockResolvedValue(true);
+
+    it('restores board, racks, bag and score exactly after a move', async () => {
+        const game = new ScrabbleGame();
+        game.start('en', ['p1', 'p2']);
+        const before = structuredClone(game.getState());
+        const rack = before.racks['p1'];
+
+        await game.placeMove('p1', [
+            { x: 7, y: 7, tile: rack[0] },
+            { x: 8, y: 7, tile: rack[1] }
+        ], checkWord);
+        const result = game.takeBack('p1');
+        const state = game.getState();
+
+        expect(result.success).toBe(true);
+        expect(state.board).toEqual(before.board);
+        expect(state.scores).toEqual(before.scores);
+        expect(state.racks['p1'].map((t) => t.id).sort()).toEqual(rack.map((t) => t.id).sort());
+        expect(state.bag.map((t) => t.id).sort()).toEqual(before.bag.map((t) => t.id).sort());
+        expect(state.currentPlayer).toBe('p1');
+        expect(state.lastMove).toBeNull();
+        expect(state.history.map((e) => e.type)).toEqual(['TAKEBACK']);
+    });
+
+    it('returns exchanged tiles to the rack and drawn tiles to the bag', () => {
+        const game = new ScrabbleGame();
+        game.start('en', ['p1', 'p2']);
+        const rackIds = game.getState().racks['p1'].map((t) => t.id);
+        const bagIds = game.getState().bag.map((t) => t.id);
+
+        game.exchangeTiles('p1', rackIds.slice(0, 3));
+        expect(game.takeBack('p1').success).toBe(true);
+
+        expect(game.getState().racks['p1'].map((t) => t.id).sort()).toEqual([...rackIds].sort());
+        expect(game.getState().bag.map((t) => t.id).sort()).toEqual([...bagIds].sort());
+    });
+
+    it('only undoes the requester\'s latest turn', () => {
+        const game = new ScrabbleGame();
+        game.start('en', ['p1', 'p2']);
+        game.passTurn('p1');
+
+        expect(game.takeBack('p2').success).toBe(false);
+        expect(game.takeBack('p1').success).toBe(true);
+        expect(game.takeBack('p1').success).toBe(false);
+    });
+
+    it('can undo consecutive turns newest first', () => {
+        const game = new ScrabbleGame();
+        game.start('en', ['p1', 'p2']);
+        game.passTurn('p1');
+        game.passTurn('p2');
+
+        expect(game.takeBack('p1').success).toBe(false);
+        expect(game.takeBack('p2').success).toBe(true);
+        expect(game.takeBack('p1').success).toBe(true);
+        expect(game.getState().currentPlayer).toBe('p1');
+    });
+
+    it('looks past hints to find the last turn', () => {
+        const game = new ScrabbleGame();
+        game.start('en', ['p1', 'p2']);
+        game.passTurn('p1');
+        game.recordHint('p2', 1);
+
+        expect(game.takeBack('p1').success).toBe(true);
+        expect(game.getState().history.map((e) => e.type)).toEqual(['HINT', 'TAKEBACK']);
+    });
+});
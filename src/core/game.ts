@@ -1,19 +1,26 @@
-import { buildPremiumMap } from './boardLayout';
+import { layoutFor, premiumMapFor, STANDARD_LAYOUT, type BoardLayout } from './boardLayout';
+import { createTokenizer, languagePack, spelledByTiles } from './languagePacks';
 import { buildBag, getInitialBagSize } from './tiles';
 import type {
   BoardCell,
+  ChallengeRule,
   GameHistoryEntry,
   GameEndReason,
+  GameEndedInfo,
   GameState,
+  HintLevel,
   Language,
   MoveResult,
+  PendingChallenge,
   Placement,
   Premium,
   Tile
 } from './types';
 
-export const BOARD_SIZE = 15;
-const premiumMap = buildPremiumMap();
+/** Size of the standard board. Games on other layouts take their size from `state.board`. */
+export const BOARD_SIZE = STANDARD_LAYOUT.size;
+// Points a challenger loses for an unsuccessful single challenge.
+export const SINGLE_CHALLENGE_PENALTY = 5;
 
 export type WordChecker = ((word: string, language: Language) => Promise<boolean>) & {
   /**
@@ -28,7 +35,12 @@ export type WordChecker = ((word: string, language: Language) => Promise<boolean
 export class ScrabbleGame {
   private state: GameState | null = null;
 
-  start(language: Language, players: string[]): GameState {
+  start(
+    language: Language,
+    players: string[],
+    options: { challengeRule?: ChallengeRule; layout?: BoardLayout } = {}
+  ): GameState {
+    const layout = options.layout ?? STANDARD_LAYOUT;
     const bag = buildBag(language);
     const racks: Record<string, Tile[]> = {};
     const scores: Record<string, number> = {};
@@ -37,7 +49,7 @@ export class ScrabbleGame {
       scores[id] = 0;
     });
     this.state = {
-      board: createBoard(),
+      board: createBoard(layout.size),
       bag,
       racks,
       scores,
@@ -47,7 +59,10 @@ export class ScrabbleGame {
       moveNumber: 0,
       lastMove: null,
       history: [],
-      sessionId: crypto.randomUUID()
+      sessionId: crypto.randomUUID(),
+      challengeRule: options.challengeRule ?? 'off',
+      pendingChallenge: null,
+      layout: structuredClone(layout)
     };
     return this.state;
   }
@@ -65,15 +80,23 @@ export class ScrabbleGame {
 
   /**
    * Ends the game scoring: subtract remaining rack values from each player's score.
+   * A player who went out (empty rack) is credited with the sum of everyone else's penalties;
+   * returns that player and bonus, if any.
    * Caller is responsible for ensuring this is applied only once.
    */
-  applyEndGameScoring(): void {
+  applyEndGameScoring(): GameEndedInfo['wentOut'] {
     const state = this.getState();
+    let totalPenalty = 0;
     for (const playerId of state.players) {
       const rack = state.racks[playerId] ?? [];
       const penalty = rack.reduce((sum, t) => sum + (t.value ?? 0), 0);
       state.scores[playerId] = (state.scores[playerId] ?? 0) - penalty;
+      totalPenalty += penalty;
     }
+    const outPlayerId = findPlayerOut(state);
+    if (!outPlayerId) return undefined;
+    state.scores[outPlayerId] = (state.scores[outPlayerId] ?? 0) + totalPenalty;
+    return { playerId: outPlayerId, bonus: totalPenalty };
   }
 
   /**
@@ -82,12 +105,17 @@ export class ScrabbleGame {
   async checkGameEnd(checkWord: WordChecker): Promise<{ ended: boolean; reason?: GameEndReason }> {
     const state = this.getState();
 
-    // Condition 1: 4 consecutive passes (P1,P2,P1,P2) => end.
+    // Condition 1: a player used their last tile with the bag empty.
+    if (findPlayerOut(state)) {
+      return { ended: true, reason: 'player_out' };
+    }
+
+    // Condition 2: two full rounds of passes (P1,P2,P1,P2 for two players) => end.
     if (checkSequentialSkips(state)) {
       return { ended: true, reason: 'four_passes' };
     }
 
-    // Condition 2: bag empty AND no valid moves for all players.
+    // Condition 3: bag empty AND no valid moves for all players.
     // Performance heuristic: only do the expensive scan once the bag is < 50% of initial.
     const initialBag = getInitialBagSize(state.language);
     const shouldRunExpensive = state.bag.length < initialBag / 2;
@@ -106,7 +134,7 @@ export class ScrabbleGame {
     // If we can't access the full dictionary, we refuse to declare "no moves" to avoid false positives.
     if (!words) return false;
 
-    const anchors = computeAnchors(state.board);
+    const anchors = computeAnchors(state.board, layoutFor(state).center);
     const boardIsEmpty = !boardHasAnyTiles(state.board);
 
     for (const playerId of state.players) {
@@ -120,7 +148,7 @@ export class ScrabbleGame {
     const state = this.getState();
     const words = await resolveAllWords(checkWord, state.language);
     if (!words) return true;
-    const anchors = computeAnchors(state.board);
+    const anchors = computeAnchors(state.board, layoutFor(state).center);
     const boardIsEmpty = !boardHasAnyTiles(state.board);
     return await hasValidMovesWithWords(state, playerId, anchors, boardIsEmpty, words, checkWord);
   }
@@ -134,15 +162,22 @@ export class ScrabbleGame {
     if (state.currentPlayer !== playerId) {
       return { success: false, message: 'Not your turn' };
     }
+    const blocked = this.challengeWindowBlocks(playerId);
+    if (blocked) return { success: false, message: blocked };
     if (placements.length === 0) {
       return { success: false, message: 'Place at least one tile' };
     }
-    if (!placements.every((p) => inBounds(p.x) && inBounds(p.y))) {
+    if (!placements.every((p) => inBounds(state.board, p.x) && inBounds(state.board, p.y))) {
       return { success: false, message: 'Placement outside board' };
     }
     if (!playerHasTiles(state.racks[playerId], placements.map((p) => p.tile.id))) {
       return { success: false, message: 'Tile not in rack' };
     }
+    const tiles = rackTilesFor(state, playerId, placements);
+    if (!tiles) {
+      return { success: false, message: 'A blank must stand for a letter of the alphabet' };
+    }
+    placements = tiles;
     if (!placements.every((p) => state.board[p.y][p.x].tile === null)) {
       return { success: false, message: 'Cell already occupied' };
     }
@@ -155,8 +190,9 @@ export class ScrabbleGame {
     // not by moveNumber. moveNumber increases on PASS/EXCHANGE, so relying on
     // it breaks the rule when the opening turns are skipped.
     const boardIsEmpty = !boardHasAnyTiles(state.board);
+    const [centerX, centerY] = layoutFor(state).center;
 
-    if (boardIsEmpty && !placements.some((p) => p.x === 7 && p.y === 7)) {
+    if (boardIsEmpty && !placements.some((p) => p.x === centerX && p.y === centerY)) {
       return { success: false, message: 'First move must cover center' };
     }
     if (!boardIsEmpty && !touchesExisting(state.board, placements)) {
@@ -166,15 +202,20 @@ export class ScrabbleGame {
       return { success: false, message: 'Tiles must form a contiguous line' };
     }
 
+    // Under a challenge rule the play lands provisionally; words are only checked if challenged.
+    const challengeable = isChallengeRuleActive(state);
     let scoreResult: { words: string[]; score: number };
     try {
-      scoreResult = await computeScore(
-        state.board,
-        placements,
-        orientation,
-        state.language,
-        checkWord
-      );
+      scoreResult = challengeable
+        ? scorePlacements(state.board, placements, orientation, layoutFor(state))
+        : await computeScore(
+          state.board,
+          placements,
+          orientation,
+          state.language,
+          checkWord,
+          layoutFor(state)
+        );
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Invalid move';
       return { success: false, message };
@@ -183,6 +224,10 @@ export class ScrabbleGame {
       return { success: false, message: 'No valid word formed' };
     }
 
+    state.pendingChallenge = null;
+    const previousLastMove = state.lastMove ?? null;
+    const rackBefore = structuredClone(state.racks[playerId]);
+
     // Apply placements
     placements.forEach((p) => {
       state.board[p.y][p.x].tile = p.tile;
@@ -192,9 +237,8 @@ export class ScrabbleGame {
     const { remaining } = removeTiles(state.racks[playerId], placements.map((p) => p.tile.id));
     state.racks[playerId] = remaining;
     const tilesNeeded = Math.max(0, 7 - state.racks[playerId].length);
-    if (tilesNeeded > 0) {
-      state.racks[playerId].push(...drawTiles(state.bag, tilesNeeded));
-    }
+    const drawn = tilesNeeded > 0 ? drawTiles(state.bag, tilesNeeded) : [];
+    state.racks[playerId].push(...drawn);
 
     // Update scores and turn
     state.scores[playerId] += scoreResult.score;
@@ -212,17 +256,36 @@ export class ScrabbleGame {
       scoreDelta: scoreResult.score,
       words: scoreResult.words,
       placedTiles: placements.length,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      placements: structuredClone(placements),
+      drawnTileIds: drawn.map((t) => t.id),
+      rack: rackBefore
     });
 
+    if (challengeable) {
+      state.pendingChallenge = {
+        playerId,
+        moveNumber: state.moveNumber,
+        placements: structuredClone(placements),
+        words: scoreResult.words,
+        scoreDelta: scoreResult.score,
+        drawnTileIds: drawn.map((t) => t.id),
+        previousLastMove
+      };
+      // The game can't end on a play that may still be taken back; going out is
+      // settled by acceptPlay/challenge, the other end conditions by the next action.
+      return { success: true, scoreDelta: scoreResult.score, words: scoreResult.words };
+    }
+
+    // Going out (last tile played with the bag empty) is checked first by checkGameEnd.
     const ended = await this.checkGameEnd(checkWord);
     if (ended.ended && ended.reason) {
-      this.applyEndGameScoring();
+      const wentOut = this.applyEndGameScoring();
       return {
         success: true,
         scoreDelta: scoreResult.score,
         words: scoreResult.words,
-        gameEnded: { reason: ended.reason, finalScores: structuredClone(state.scores) }
+        gameEnded: { reason: ended.reason, finalScores: structuredClone(state.scores), wentOut }
       };
     }
 
@@ -234,13 +297,19 @@ export class ScrabbleGame {
     if (state.currentPlayer !== playerId) {
       return { success: false, message: 'Not your turn' };
     }
+    // Passing instead of challenging a play that went out accepts it (this also covers timeouts).
+    if (this.challengeWindowBlocks(playerId)) {
+      return this.acceptPlay(playerId);
+    }
+    state.pendingChallenge = null;
     state.currentPlayer = nextPlayer(state.players, playerId);
     state.moveNumber += 1;
     recordHistory(state, {
       type: 'PASS',
       moveNumber: state.moveNumber,
       playerId,
-      timestamp: Date.now()
+      timestamp: Date.now(),
+      rack: structuredClone(state.racks[playerId] ?? [])
     });
     if (checkSequentialSkips(state)) {
       this.applyEndGameScoring();
@@ -266,6 +335,10 @@ export class ScrabbleGame {
     if (!playerHasTiles(state.racks[playerId], tileIds)) {
       return { success: false, message: 'Tile not in rack' };
     }
+    const blocked = this.challengeWindowBlocks(playerId);
+    if (blocked) return { success: false, message: blocked };
+    state.pendingChallenge = null;
+    const rackBefore = structuredClone(state.racks[playerId]);
     const { removed, remaining } = removeTiles(state.racks[playerId], tileIds);
     state.racks[playerId] = remaining;
     const drawCount = Math.min(removed.length, Math.max(0, 7 - state.racks[playerId].length));
@@ -273,9 +346,8 @@ export class ScrabbleGame {
     // Draw before returning the exchanged tiles to the bag so you can't immediately
     // draw back the same tiles you just exchanged.
     shuffleInPlace(state.bag);
-    if (drawCount > 0) {
-      state.racks[playerId].push(...drawTiles(state.bag, drawCount));
-    }
+    const drawn = drawCount > 0 ? drawTiles(state.bag, drawCount) : [];
+    state.racks[playerId].push(...drawn);
     state.bag.push(...removed);
     shuffleInPlace(state.bag);
     state.moveNumber += 1;
@@ -285,10 +357,232 @@ export class ScrabbleGame {
       moveNumber: state.moveNumber,
       playerId,
       exchangedTiles: removed.length,
+      timestamp: Date.now(),
+      exchangedTileIds: removed.map((t) => t.id),
+      drawnTileIds: drawn.map((t) => t.id),
+      rack: rackBefore
+    });
+    return { success: true };
+  }
+
+  /** Why `playerId` can't take back their last turn right now, or null if they can. */
+  takeBackBlockedReason(playerId: string): string | null {
+    const state = this.getState();
+    const last = state.history[lastTurnIndex(state.history)];
+    if (!last || last.playerId !== playerId) return 'Only your own last turn can be taken back';
+    if (last.type === 'MOVE') {
+      if (last.withdrawn || !last.placements || !last.drawnTileIds) return 'This move cannot be taken back';
+      return null;
+    }
+    if (last.type === 'EXCHANGE') {
+      if (!last.exchangedTileIds || !last.drawnTileIds) return 'This exchange cannot be taken back';
+      return null;
+    }
+    if (last.type === 'PASS') return null;
+    return 'This turn cannot be taken back';
+  }
+
+  /**
+   * Undoes `playerId`'s last turn (move, pass or exchange) exactly and gives them the turn back.
+   * Consent is the caller's business; the engine only checks that the turn is still the latest one.
+   */
+  takeBack(playerId: string): MoveResult {
+    const blocked = this.takeBackBlockedReason(playerId);
+    if (blocked) return { success: false, message: blocked };
+    const state = this.getState();
+    const [last] = state.history.splice(lastTurnIndex(state.history), 1);
+
+    if (last.type === 'MOVE') {
+      rollbackPlay(state, {
+        playerId,
+        placements: last.placements!,
+        scoreDelta: last.scoreDelta,
+        drawnTileIds: last.drawnTileIds!,
+        previousLastMove: lastMoveFromHistory(state.history)
+      });
+      if (state.pendingChallenge?.moveNumber === last.moveNumber) state.pendingChallenge = null;
+    } else if (last.type === 'EXCHANGE') {
+      const drawnIds = new Set(last.drawnTileIds);
+      const exchangedIds = new Set(last.exchangedTileIds);
+      const rack = state.racks[playerId] ?? [];
+      const exchanged = state.bag.filter((t) => exchangedIds.has(t.id));
+      state.bag = [...state.bag.filter((t) => !exchangedIds.has(t.id)), ...rack.filter((t) => drawnIds.has(t.id))];
+      state.racks[playerId] = [...rack.filter((t) => !drawnIds.has(t.id)), ...exchanged];
+      shuffleInPlace(state.bag);
+    }
+
+    state.currentPlayer = playerId;
+    state.moveNumber += 1;
+    recordHistory(state, {
+      type: 'TAKEBACK',
+      moveNumber: state.moveNumber,
+      playerId,
+      undoneMoveNumber: last.moveNumber,
+      undoneType: last.type as 'MOVE' | 'PASS' | 'EXCHANGE',
+      words: last.type === 'MOVE' ? last.words : undefined,
       timestamp: Date.now()
     });
     return { success: true };
   }
+
+  /**
+   * Notes in the history that `playerId` looked at a hint on their turn, so opponents can
+   * see it. Allowances are a session setting and are enforced by the caller.
+   */
+  recordHint(playerId: string, level: HintLevel): MoveResult {
+    const state = this.getState();
+    if (state.currentPlayer !== playerId) {
+      return { success: false, message: 'Not your turn' };
+    }
+    recordHistory(state, {
+      type: 'HINT',
+      moveNumber: state.moveNumber,
+      playerId,
+      level,
+      timestamp: Date.now()
+    });
+    return { success: true };
+  }
+
+  /**
+   * Closes the challenge window without challenging. Only needed explicitly when the
+   * pending play went out (any other action accepts it implicitly); ends the game then.
+   */
+  acceptPlay(playerId: string): MoveResult {
+    const state = this.getState();
+    const pending = state.pendingChallenge;
+    if (!pending) return { success: false, message: 'Nothing to accept' };
+    if (state.currentPlayer !== playerId || pending.playerId === playerId) {
+      return { success: false, message: 'Not your turn' };
+    }
+    state.pendingChallenge = null;
+    if (findPlayerOut(state)) {
+      const wentOut = this.applyEndGameScoring();
+      return {
+        success: true,
+        gameEnded: { reason: 'player_out', finalScores: structuredClone(state.scores), wentOut }
+      };
+    }
+    return { success: true };
+  }
+
+  /**
+   * Challenges the pending play. If any of its words is not in the dictionary the play
+   * is taken back and its player loses that turn (the challenger stays on turn).
+   * Otherwise the challenger loses their turn ('double') or SINGLE_CHALLENGE_PENALTY points ('single').
+   */
+  async challenge(playerId: string, checkWord: WordChecker): Promise<MoveResult> {
+    const state = this.getState();
+    const pending = state.pendingChallenge;
+    if (!pending) return { success: false, message: 'No play to challenge' };
+    if (state.currentPlayer !== playerId || pending.playerId === playerId) {
+      return { success: false, message: 'Not your turn' };
+    }
+
+    const invalidWords: string[] = [];
+    const misspelled = misspelledWords(state.board, pending.placements, state.language);
+    for (const word of pending.words) {
+      if (misspelled.has(word) || !(await checkWord(word, state.language))) invalidWords.push(word);
+    }
+    // The state may have been replaced while the dictionary was consulted.
+    if (state !== this.state || state.pendingChallenge !== pending) {
+      return { success: false, message: 'Play is no longer pending' };
+    }
+
+    const upheld = invalidWords.length > 0;
+    const penalty = !upheld && state.challengeRule === 'single' ? SINGLE_CHALLENGE_PENALTY : 0;
+    state.pendingChallenge = null;
+    if (upheld) {
+      rollbackPlay(state, pending);
+      const moveEntry = state.history.find((e) => e.type === 'MOVE' && e.moveNumber === pending.moveNumber);
+      if (moveEntry?.type === 'MOVE') moveEntry.withdrawn = true;
+    } else if (penalty > 0) {
+      state.scores[playerId] -= penalty;
+    } else {
+      state.currentPlayer = nextPlayer(state.players, playerId);
+    }
+    state.moveNumber += 1;
+    recordHistory(state, {
+      type: 'CHALLENGE',
+      moveNumber: state.moveNumber,
+      playerId,
+      challengedPlayerId: pending.playerId,
+      words: pending.words,
+      invalidWords,
+      upheld,
+      penalty,
+      timestamp: Date.now()
+    });
+
+    const challenge = { upheld, invalidWords, penalty };
+    if (!upheld && findPlayerOut(state)) {
+      const wentOut = this.applyEndGameScoring();
+      return {
+        success: true,
+        challenge,
+        gameEnded: { reason: 'player_out', finalScores: structuredClone(state.scores), wentOut }
+      };
+    }
+    return { success: true, challenge };
+  }
+
+  /** Message explaining why `playerId` can't act yet, or null when they can. */
+  private challengeWindowBlocks(playerId: string): string | null {
+    const state = this.getState();
+    const pending = state.pendingChallenge;
+    if (!pending || pending.playerId === playerId) return null;
+    return findPlayerOut(state) ? 'Challenge or accept the last play first' : null;
+  }
+}
+
+// Index of the latest turn that a takeback would undo; earlier takebacks (and hints, which
+// aren't turns) are skipped so consecutive turns (e.g. a computer's reply and then your move)
+// can be undone in order.
+function lastTurnIndex(history: GameHistoryEntry[]): number {
+  let i = history.length - 1;
+  while (i >= 0 && (history[i].type === 'TAKEBACK' || history[i].type === 'HINT')) i -= 1;
+  return i;
+}
+
+function lastMoveFromHistory(history: GameHistoryEntry[]): GameState['lastMove'] {
+  for (let i = history.length - 1; i >= 0; i -= 1) {
+    const entry = history[i];
+    if (entry.type !== 'MOVE' || entry.withdrawn) continue;
+    if (!entry.placements) return null;
+    return {
+      moveNumber: entry.moveNumber,
+      playerId: entry.playerId,
+      placed: entry.placements.map((p) => ({ x: p.x, y: p.y }))
+    };
+  }
+  return null;
+}
+
+function isChallengeRuleActive(state: GameState): boolean {
+  return state.challengeRule === 'double' || state.challengeRule === 'single';
+}
+
+/**
+ * Takes a play back off the board: tiles return to the player's rack, tiles drawn
+ * afterwards go back to the bag, and the score and last-move highlight are restored.
+ */
+export function rollbackPlay(
+  state: GameState,
+  play: Pick<PendingChallenge, 'playerId' | 'placements' | 'scoreDelta' | 'drawnTileIds' | 'previousLastMove'>
+) {
+  for (const p of play.placements) {
+    state.board[p.y][p.x].tile = null;
+  }
+  const drawnIds = new Set(play.drawnTileIds);
+  const rack = state.racks[play.playerId] ?? [];
+  const returnedToBag = rack.filter((t) => drawnIds.has(t.id));
+  // Blanks go back to the rack unassigned.
+  const restored = play.placements.map((p) => (p.tile.blank ? { ...p.tile, letter: ' ', value: 0 } : p.tile));
+  state.racks[play.playerId] = [...rack.filter((t) => !drawnIds.has(t.id)), ...restored];
+  state.bag.push(...returnedToBag);
+  shuffleInPlace(state.bag);
+  state.scores[play.playerId] = (state.scores[play.playerId] ?? 0) - play.scoreDelta;
+  state.lastMove = play.previousLastMove ?? null;
 }
 
 async function resolveAllWords(
@@ -300,30 +594,32 @@ async function resolveAllWords(
   return words ?? null;
 }
 
+// Every player passing twice in a row (2 × N consecutive passes) ends the game.
+// The reason id stays 'four_passes' for compatibility with saved sessions.
 function checkSequentialSkips(state: GameState): boolean {
-  if (state.players.length !== 2) return false;
-  const last = state.history.slice(-4);
-  if (last.length < 4) return false;
+  const n = state.players.length;
+  if (n < 2) return false;
+  const last = state.history.filter((e) => e.type !== 'HINT').slice(-2 * n);
+  if (last.length < 2 * n) return false;
   if (!last.every((e) => e.type === 'PASS')) return false;
+  return state.players.every((id) => last.filter((e) => e.playerId === id).length === 2);
+}
 
-  const p0 = state.players[0];
-  const p1 = state.players[1];
-  const ids = last.map((e) => (e as Extract<GameHistoryEntry, { type: 'PASS' }>).playerId);
-  const okA = ids[0] === p0 && ids[1] === p1 && ids[2] === p0 && ids[3] === p1;
-  const okB = ids[0] === p1 && ids[1] === p0 && ids[2] === p1 && ids[3] === p0;
-  return okA || okB;
+function findPlayerOut(state: GameState): string | null {
+  if (state.bag.length !== 0) return null;
+  return state.players.find((id) => (state.racks[id] ?? []).length === 0) ?? null;
 }
 
 type Anchor = { x: number; y: number };
 
-function computeAnchors(board: BoardCell[][]): Anchor[] {
+function computeAnchors(board: BoardCell[][], center: [number, number]): Anchor[] {
   // Empty board => only center is a meaningful anchor for first move.
-  if (!boardHasAnyTiles(board)) return [{ x: 7, y: 7 }];
+  if (!boardHasAnyTiles(board)) return [{ x: center[0], y: center[1] }];
 
   const anchors: Anchor[] = [];
   const seen = new Set<string>();
-  for (let y = 0; y < BOARD_SIZE; y += 1) {
-    for (let x = 0; x < BOARD_SIZE; x += 1) {
+  for (let y = 0; y < board.length; y += 1) {
+    for (let x = 0; x < board.length; x += 1) {
       if (board[y][x].tile) continue;
       const neighbors = [
         [x + 1, y],
@@ -331,7 +627,7 @@ function computeAnchors(board: BoardCell[][]): Anchor[] {
         [x, y + 1],
         [x, y - 1]
       ];
-      const touches = neighbors.some(([nx, ny]) => inBounds(nx) && inBounds(ny) && board[ny][nx].tile);
+      const touches = neighbors.some(([nx, ny]) => inBounds(board, nx) && inBounds(board, ny) && board[ny][nx].tile);
       if (!touches) continue;
       const key = `${x},${y}`;
       if (seen.has(key)) continue;
@@ -352,6 +648,8 @@ async function hasValidMovesWithWords(
 ): Promise<boolean> {
   const rack = state.racks[playerId] ?? [];
   if (rack.length === 0) return false;
+  const [centerX, centerY] = layoutFor(state).center;
+  const tokenize = createTokenizer(languagePack(state.language).alphabet);
 
   // Precompute racks by letter (including blanks).
   const byLetter = new Map<string, Tile[]>();
@@ -365,9 +663,10 @@ async function hasValidMovesWithWords(
   }
 
   for (const rawWord of words) {
-    const word = rawWord.trim().toUpperCase();
-    if (!word) continue;
-    if (word.length > BOARD_SIZE) continue;
+    // Walk the word tile by tile; with digraph tiles that isn't character by character.
+    const word = tokenize(rawWord.trim().toUpperCase());
+    if (!word || word.length === 0) continue;
+    if (word.length > state.board.length) continue;
 
     for (const anchor of anchors) {
       // Try both orientations for each anchor index.
@@ -377,7 +676,14 @@ async function hasValidMovesWithWords(
           const startY = orientation === 'row' ? anchor.y : anchor.y - idx;
           const endX = orientation === 'row' ? startX + word.length - 1 : startX;
           const endY = orientation === 'row' ? startY : startY + word.length - 1;
-          if (!inBounds(startX) || !inBounds(startY) || !inBounds(endX) || !inBounds(endY)) continue;
+          if (
+            !inBounds(state.board, startX) ||
+            !inBounds(state.board, startY) ||
+            !inBounds(state.board, endX) ||
+            !inBounds(state.board, endY)
+          ) {
+            continue;
+          }
 
           // Collect placements: we place tiles only on empty cells; existing letters must match.
           const usedIds = new Set<string>();
@@ -426,7 +732,7 @@ async function hasValidMovesWithWords(
           if (!placedAny || placements.length === 0) continue;
 
           // First move must cover center; anchors already ensure this, but keep as safety.
-          if (boardIsEmpty && !placements.some((p) => p.x === 7 && p.y === 7)) continue;
+          if (boardIsEmpty && !placements.some((p) => p.x === centerX && p.y === centerY)) continue;
 
           const ok = await validateMoveOnState(state, playerId, placements, checkWord);
           if (ok) return true;
@@ -444,7 +750,7 @@ async function validateMoveOnState(
   checkWord: WordChecker
 ): Promise<boolean> {
   if (placements.length === 0) return false;
-  if (!placements.every((p) => inBounds(p.x) && inBounds(p.y))) return false;
+  if (!placements.every((p) => inBounds(state.board, p.x) && inBounds(state.board, p.y))) return false;
   if (!playerHasTiles(state.racks[playerId] ?? [], placements.map((p) => p.tile.id))) return false;
   if (!placements.every((p) => state.board[p.y][p.x].tile === null)) return false;
 
@@ -452,12 +758,20 @@ async function validateMoveOnState(
   if (!orientation) return false;
 
   const boardIsEmpty = !boardHasAnyTiles(state.board);
-  if (boardIsEmpty && !placements.some((p) => p.x === 7 && p.y === 7)) return false;
+  const [centerX, centerY] = layoutFor(state).center;
+  if (boardIsEmpty && !placements.some((p) => p.x === centerX && p.y === centerY)) return false;
   if (!boardIsEmpty && !touchesExisting(state.board, placements)) return false;
   if (!isContiguous(state.board, placements, orientation)) return false;
 
   try {
-    const result = await computeScore(state.board, placements, orientation, state.language, checkWord);
+    const result = await computeScore(
+      state.board,
+      placements,
+      orientation,
+      state.language,
+      checkWord,
+      layoutFor(state)
+    );
     return result.words.length > 0;
   } catch {
     return false;
@@ -467,16 +781,18 @@ async function validateMoveOnState(
 function recordHistory(state: GameState, entry: GameHistoryEntry) {
   // Keep bounded to avoid unbounded growth for long sessions.
   // (Easy to tweak; UI is scrollable anyway.)
+  // Hints stay: they are few, and dropping them would hand back a player's allowance.
   const MAX_HISTORY = 250;
   state.history.push(entry);
-  if (state.history.length > MAX_HISTORY) {
-    state.history.splice(0, state.history.length - MAX_HISTORY);
+  let excess = state.history.filter((e) => e.type !== 'HINT').length - MAX_HISTORY;
+  if (excess > 0) {
+    state.history = state.history.filter((e) => e.type === 'HINT' || excess-- <= 0);
   }
 }
 
-function createBoard(): BoardCell[][] {
-  return Array.from({ length: BOARD_SIZE }, () =>
-    Array.from({ length: BOARD_SIZE }, () => ({ tile: null }))
+function createBoard(size: number): BoardCell[][] {
+  return Array.from({ length: size }, () =>
+    Array.from({ length: size }, () => ({ tile: null }))
   );
 }
 
@@ -493,6 +809,27 @@ function drawTiles(bag: Tile[], count: number): Tile[] {
   return tiles;
 }
 
+/**
+ * `placements` with each tile taken from the player's rack, so letters and values can't be
+ * made up by whoever sent the move. Only a blank's letter comes from the placement, and it
+ * must be in the language's alphabet; returns null otherwise.
+ */
+function rackTilesFor(state: GameState, playerId: string, placements: Placement[]): Placement[] | null {
+  const rack = state.racks[playerId] ?? [];
+  const alphabet = languagePack(state.language).alphabet;
+  const result: Placement[] = [];
+  for (const p of placements) {
+    const tile = rack.find((t) => t.id === p.tile.id)!;
+    if (!tile.blank) {
+      result.push({ x: p.x, y: p.y, tile: { ...tile } });
+      continue;
+    }
+    if (!alphabet.includes(p.tile.letter)) return null;
+    result.push({ x: p.x, y: p.y, tile: { ...tile, letter: p.tile.letter, value: 0 } });
+  }
+  return result;
+}
+
 function playerHasTiles(rack: Tile[], tileIds: string[]): boolean {
   const counts: Record<string, number> = {};
   rack.forEach((t) => {
@@ -526,20 +863,20 @@ function shuffleInPlace<T>(arr: T[]) {
   }
 }
 
-function inBounds(v: number) {
-  return v >= 0 && v < BOARD_SIZE;
+function inBounds(board: BoardCell[][], v: number) {
+  return v >= 0 && v < board.length;
 }
 
-type Orientation = 'row' | 'col';
+export type Orientation = 'row' | 'col';
 
 function inferOrientation(board: BoardCell[][], placements: Placement[]): Orientation | null {
   if (placements.length === 1) {
     const [placement] = placements;
     const { x, y } = placement;
-    const left = inBounds(x - 1) && board[y][x - 1].tile;
-    const right = inBounds(x + 1) && board[y][x + 1].tile;
-    const up = inBounds(y - 1) && board[y - 1][x].tile;
-    const down = inBounds(y + 1) && board[y + 1][x].tile;
+    const left = inBounds(board, x - 1) && board[y][x - 1].tile;
+    const right = inBounds(board, x + 1) && board[y][x + 1].tile;
+    const up = inBounds(board, y - 1) && board[y - 1][x].tile;
+    const down = inBounds(board, y + 1) && board[y + 1][x].tile;
     const horizontalNeighbor = Boolean(left || right);
     const verticalNeighbor = Boolean(up || down);
 
@@ -564,7 +901,7 @@ function touchesExisting(board: BoardCell[][], placements: Placement[]): boolean
       [x, y + 1],
       [x, y - 1]
     ];
-    return neighbors.some(([nx, ny]) => inBounds(nx) && inBounds(ny) && board[ny][nx].tile);
+    return neighbors.some(([nx, ny]) => inBounds(board, nx) && inBounds(board, ny) && board[ny][nx].tile);
   });
 }
 
@@ -591,8 +928,60 @@ async function computeScore(
   placements: Placement[],
   orientation: Orientation,
   language: Language,
-  checkWord: WordChecker
+  checkWord: WordChecker,
+  layout: BoardLayout
 ): Promise<{ words: string[]; score: number }> {
+  const { formedWords, score } = formAndScoreWords(board, placements, orientation, premiumMapFor(layout));
+  const tokenize = createTokenizer(languagePack(language).alphabet);
+
+  for (const { word, cells } of formedWords) {
+    // C and H tiles side by side read "CH", but a language with a CH tile must use it.
+    const tiles = cells.map((c) => c.tile.letter);
+    if (!spelledByTiles(word, tiles, tokenize)) throw new Error(`Invalid word: ${word}`);
+    const valid = await checkWord(word, language);
+    if (!valid) throw new Error(`Invalid word: ${word}`);
+  }
+
+  return { words: formedWords.map((w) => w.word), score };
+}
+
+/** Words of a play already on `board` that its tiles don't spell token for token (see `computeScore`). */
+function misspelledWords(board: BoardCell[][], placements: Placement[], language: Language): Set<string> {
+  const tokenize = createTokenizer(languagePack(language).alphabet);
+  const orientation = inferOrientation(board, placements) ?? 'row';
+  const misspelled = new Set<string>();
+  for (const { word, cells } of collectFormedWords(board, placements, orientation, new Map())) {
+    if (!spelledByTiles(word, cells.map((c) => c.tile.letter), tokenize)) misspelled.add(word);
+  }
+  return misspelled;
+}
+
+/**
+ * Words formed by `placements` and the points they earn, without any dictionary check.
+ * This is the scoring half of `placeMove`, exposed so generated moves (hints, bots, analysis)
+ * score exactly like a submitted move. Placements are assumed to be geometrically legal.
+ * Pass the game's layout (`layoutFor(state)`) for premiums; the standard board is assumed otherwise.
+ */
+export function scorePlacements(
+  board: BoardCell[][],
+  placements: Placement[],
+  orientation?: Orientation,
+  layout: BoardLayout = STANDARD_LAYOUT
+): { words: string[]; score: number } {
+  const resolved = orientation ?? inferOrientation(board, placements) ?? 'row';
+  const { formedWords, score } = formAndScoreWords(board, placements, resolved, premiumMapFor(layout));
+  return { words: formedWords.map((w) => w.word), score };
+}
+
+function formAndScoreWords(
+  board: BoardCell[][],
+  placements: Placement[],
+  orientation: Orientation,
+  premiums: Map<string, Premium>
+): {
+  formedWords: Array<{ word: string; cells: Array<{ x: number; y: number; tile: Tile; premium?: Premium }> }>;
+  score: number;
+} {
   const tempBoard = board.map((row) => row.map((cell) => ({ ...cell })));
   placements.forEach((p) => {
     tempBoard[p.y][p.x].tile = p.tile;
@@ -600,12 +989,7 @@ async function computeScore(
 
   const placementKeys = new Set(placements.map((p) => `${p.x},${p.y}`));
 
-  const formedWords = collectFormedWords(tempBoard, placements, orientation);
-
-  for (const { word } of formedWords) {
-    const valid = await checkWord(word, language);
-    if (!valid) throw new Error(`Invalid word: ${word}`);
-  }
+  const formedWords = collectFormedWords(tempBoard, placements, orientation, premiums);
 
   let totalScore = 0;
   for (const { cells } of formedWords) {
@@ -615,17 +999,18 @@ async function computeScore(
   // Bingo bonus (using all 7 tiles) applies once per move, not per word.
   if (placementKeys.size === 7) totalScore += 50;
 
-  return { words: formedWords.map((w) => w.word), score: totalScore };
+  return { formedWords, score: totalScore };
 }
 
 function collectFormedWords(
   board: BoardCell[][],
   placements: Placement[],
-  orientation: Orientation
+  orientation: Orientation,
+  premiums: Map<string, Premium>
 ): Array<{ word: string; cells: Array<{ x: number; y: number; tile: Tile; premium?: Premium }> }> {
   // We keep exactly one "primary" word (same behavior as before), even if it is
   // a single-letter word (used by some harness tests / loose rules).
-  const primaryCells = selectPrimaryWordCells(board, placements, orientation);
+  const primary = selectPrimaryWord(board, placements, orientation, premiums);
 
   const wordsByKey = new Map<
     string,
@@ -639,43 +1024,46 @@ function collectFormedWords(
     wordsByKey.set(key, { word: cells.map((c) => c.tile.letter).join(''), cells });
   };
 
-  // Add the primary word (even if length 1).
-  addWord(orientation, primaryCells);
+  // Add the primary word (even if length 1). Key it by the direction it actually runs in,
+  // otherwise a single tile's vertical primary word would be added again as a cross-word.
+  addWord(primary.dir, primary.cells);
 
   // Add every other word formed by the placements in BOTH directions.
   // We include only length>1 here to avoid counting/validating the same single-letter
   // "word" twice (e.g. first move with a single tile).
   for (const p of placements) {
-    const rowCells = collectWord(board, p, 'row');
+    const rowCells = collectWord(board, p, 'row', premiums);
     if (rowCells.length > 1) addWord('row', rowCells);
 
-    const colCells = collectWord(board, p, 'col');
+    const colCells = collectWord(board, p, 'col', premiums);
     if (colCells.length > 1) addWord('col', colCells);
   }
 
   return [...wordsByKey.values()];
 }
 
-function selectPrimaryWordCells(
+function selectPrimaryWord(
   board: BoardCell[][],
   placements: Placement[],
-  orientation: Orientation
-): Array<{ x: number; y: number; tile: Tile; premium?: Premium }> {
+  orientation: Orientation,
+  premiums: Map<string, Premium>
+): { dir: Orientation; cells: Array<{ x: number; y: number; tile: Tile; premium?: Premium }> } {
   if (placements.length !== 1) {
-    return collectWord(board, placements[0], orientation);
+    return { dir: orientation, cells: collectWord(board, placements[0], orientation, premiums) };
   }
 
   // For a single tile, choose the longer word direction as primary.
-  const rowCells = collectWord(board, placements[0], 'row');
-  const colCells = collectWord(board, placements[0], 'col');
-  if (colCells.length > rowCells.length) return colCells;
-  return rowCells;
+  const rowCells = collectWord(board, placements[0], 'row', premiums);
+  const colCells = collectWord(board, placements[0], 'col', premiums);
+  if (colCells.length > rowCells.length) return { dir: 'col', cells: colCells };
+  return { dir: 'row', cells: rowCells };
 }
 
 function collectWord(
   board: BoardCell[][],
   startPlacement: Placement,
-  orientation: Orientation
+  orientation: Orientation,
+  premiums: Map<string, Premium>
 ): Array<{ x: number; y: number; tile: Tile; premium?: Premium }> {
   let x = startPlacement.x;
   let y = startPlacement.y;
@@ -683,18 +1071,18 @@ function collectWord(
   while (true) {
     const nx = orientation === 'row' ? x - 1 : x;
     const ny = orientation === 'row' ? y : y - 1;
-    if (!inBounds(nx) || !inBounds(ny) || !board[ny][nx].tile) break;
+    if (!inBounds(board, nx) || !inBounds(board, ny) || !board[ny][nx].tile) break;
     x = nx;
     y = ny;
   }
 
   const cells: Array<{ x: number; y: number; tile: Tile; premium?: Premium }> = [];
-  while (inBounds(x) && inBounds(y) && board[y][x].tile) {
+  while (inBounds(board, x) && inBounds(board, y) && board[y][x].tile) {
     cells.push({
       x,
       y,
       tile: board[y][x].tile as Tile,
-      premium: premiumMap.get(`${x},${y}`)
+      premium: premiums.get(`${x},${y}`)
     });
     if (orientation === 'row') x += 1;
     else y += 1;
@@ -716,10 +1104,12 @@ function scoreCells(
     if (isNew) {
       if (cell.premium === 'DL') total += letterValue * 2;
       else if (cell.premium === 'TL') total += letterValue * 3;
+      else if (cell.premium === 'QL') total += letterValue * 4;
       else total += letterValue;
 
       if (cell.premium === 'DW' || cell.premium === 'CENTER') wordMultiplier *= 2;
       if (cell.premium === 'TW') wordMultiplier *= 3;
+      if (cell.premium === 'QW') wordMultiplier *= 4;
     } else {
       total += letterValue;
     }
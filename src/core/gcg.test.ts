@@ -0,0 +1,120 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ScrabbleGame } from './game';
+import { exportGcg, importGcg } from './gcg';
+import type { Language, Tile } from './types';
+
+function rackText(rack: Tile[] | undefined): string {
+  return (rack ?? []).map((t) => (t.blank ? '?' : t.letter)).join('');
+}
+
+describe('GCG export/import', () => {
+  const checkWord = vi.fn(async (word: string) => word !== 'HX');
+
+  function startGame(language: Language, p1: Tile[], p2: Tile[], challengeRule: 'off' | 'double' = 'off') {
+    const game = new ScrabbleGame();
+    game.start(language, ['p1', 'p2'], { challengeRule });
+    const state = game.getState();
+    state.racks['p1'].splice(0, p1.length, ...p1);
+    state.racks['p2'].splice(0, p2.length, ...p2);
+    return game;
+  }
+
+  function place(game: ScrabbleGame, playerId: string, cells: Array<[number, number, string, string?]>) {
+    const rack = game.getState().racks[playerId];
+    return game.placeMove(
+      playerId,
+      cells.map(([x, y, id, letter]) => {
+        const tile = rack.find((t) => t.id === id)!;
+        return { x, y, tile: letter ? { ...tile, letter } : tile };
+      }),
+      checkWord
+    );
+  }
+
+  it('writes board coordinates, blanks and played-through letters', async () => {
+    const game = startGame(
+      'en',
+      [{ id: 'h', letter: 'H', value: 4 }, { id: 'i', letter: 'I', value: 1 }],
+      [{ id: 'b', letter: ' ', value: 0, blank: true }, { id: 't', letter: 'T', value: 1 }]
+    );
+    await place(game, 'p1', [[7, 7, 'h'], [8, 7, 'i']]);
+    await place(game, 'p2', [[8, 6, 'b', 'S'], [8, 8, 't']]);
+    game.passTurn('p1');
+    // Only the first tiles of each rack are fixed; the rest come from the bag.
+    const racks = game.getState().history.map((e) => rackText('rack' in e ? e.rack : undefined));
+    expect(racks[0]).toMatch(/^HI.{5}$/);
+    expect(racks[1]).toMatch(/^\?T.{5}$/);
+
+    const gcg = exportGcg(game.getState(), { labels: { p1: 'Ann Lee', p2: 'Bo' } });
+
+    expect(gcg.split('\n')).toEqual([
+      '#character-encoding UTF-8',
+      '#player1 p1 Ann Lee',
+      '#player2 p2 Bo',
+      `>p1: ${racks[0]} 8H HI +10 10`,
+      `>p2: ${racks[1]} I7 s.T +3 3`,
+      `>p1: ${racks[2]} - +0 10`,
+      ''
+    ]);
+  });
+
+  it('round-trips a Russian game with a blank Ё', async () => {
+    const game = startGame(
+      'ru',
+      [{ id: 'y', letter: 'Ё', value: 3 }, { id: 'zh', letter: 'Ж', value: 5 }],
+      [{ id: 'b', letter: ' ', value: 0, blank: true }, { id: 'sh', letter: 'Ш', value: 8 }]
+    );
+    await place(game, 'p1', [[7, 7, 'zh'], [7, 8, 'y']]);
+    await place(game, 'p2', [[8, 8, 'b', 'Ё'], [9, 8, 'sh']]);
+    const original = game.getState();
+
+    const gcg = exportGcg(original);
+    expect(gcg).toMatch(/^>p1: ЁЖ\S{5} H8 ЖЁ /mu);
+    expect(gcg).toMatch(/^>p2: \?Ш\S{5} 9H \.ёШ /mu);
+
+    const imported = importGcg(gcg);
+    expect(imported.state.language).toBe('ru');
+    expect(imported.state.board[8][8].tile).toMatchObject({ letter: 'Ё', value: 0, blank: true });
+    expect(imported.state.board[8][9].tile).toMatchObject({ letter: 'Ш', value: 8 });
+    expect(imported.state.board.map((row) => row.map((c) => c.tile?.letter ?? null))).toEqual(
+      original.board.map((row) => row.map((c) => c.tile?.letter ?? null))
+    );
+    expect(imported.finalScores).toEqual(original.scores);
+    expect(exportGcg(imported.state)).toBe(gcg);
+  });
+
+  it('round-trips withdrawn plays, exchanges and end-of-game adjustments', async () => {
+    const game = startGame(
+      'en',
+      [{ id: 'h', letter: 'H', value: 4 }, { id: 'x', letter: 'X', value: 8 }],
+      [],
+      'double'
+    );
+    await place(game, 'p1', [[7, 7, 'h'], [8, 7, 'x']]);
+    await game.challenge('p2', checkWord);
+    game.exchangeTiles('p2', [game.getState().racks['p2'][0].id]);
+
+    const state = game.getState();
+    const finalScores = { p1: -3, p2: 3 };
+    const gcg = exportGcg(state, { finalScores });
+    const rack = rackText(state.history[0].type === 'MOVE' ? state.history[0].rack : undefined);
+    expect(gcg).toContain(`>p1: ${rack} -- -24 0`);
+    expect(gcg).toMatch(/^>p2: \S{7} -1 \+0 0$/mu);
+
+    const imported = importGcg(gcg);
+    expect(imported.state.history.map((e) => e.type)).toEqual(['MOVE', 'CHALLENGE', 'EXCHANGE']);
+    expect(imported.state.board[7][7].tile).toBeNull();
+    expect(imported.finalScores).toEqual(finalScores);
+    expect(exportGcg(imported.state)).toContain(`>p1: ${rack} -- -24 0`);
+  });
+
+  it('reads records written without racks', () => {
+    const imported = importGcg('#player1 a A\n#player2 b B\n>a: 8H QI +11 11\n>b: - +0 0\n');
+    expect(imported.state.history.map((e) => ('rack' in e ? e.rack : undefined))).toEqual([undefined, undefined]);
+    expect(exportGcg(imported.state)).toContain('>a: QI 8H QI +11 11');
+  });
+
+  it('reports the line of a malformed turn', () => {
+    expect(() => importGcg('#player1 a A\n#player2 b B\n>a: QI 8H Q.I +11 11\n')).toThrow(/line 3/);
+  });
+});
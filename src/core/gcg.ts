@@ -0,0 +1,361 @@
+import { BOARD_SIZE, scorePlacements } from './game';
+import { buildReplay } from './replay';
+import { createTokenizer, languageForWords, languagePack } from './languagePacks';
+import { letterValue } from './tiles';
+import type { BoardCell, GameHistoryEntry, GameState, Language, Placement, Tile } from './types';
+
+/**
+ * GCG game records (the format used by Quackle, Macondo and cross-tables).
+ *
+ * Squares are named like on a printed board: columns A–O left to right, rows 1–15 top
+ * to bottom, so x=7,y=7 (the centre in boardLayout.ts) is 8H. Horizontal plays give the
+ * row first ("8H"), vertical plays the column first ("H8"). Blanks are written in lower
+ * case and letters already on the board as ".". Files are UTF-8 so Cyrillic tiles survive.
+ * Larger layouts continue the columns through the alphabet; GCG has no way to name a
+ * layout, so imported records are always replayed on the standard board.
+ */
+
+const COLUMNS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+type Move = Extract<GameHistoryEntry, { type: 'MOVE' }>;
+
+export interface GcgExportOptions {
+  labels?: Record<string, string>;
+  /** Scores after end-of-game rack adjustments; adds the closing rack lines when given. */
+  finalScores?: Record<string, number>;
+}
+
+export interface GcgGame {
+  /** Board and history rebuilt from the record; racks and bag are empty. */
+  state: GameState;
+  labels: Record<string, string>;
+  /** Each player's last cumulative score in the file, end-of-game adjustments included. */
+  finalScores: Record<string, number>;
+}
+
+export function exportGcg(state: GameState, options: GcgExportOptions = {}): string {
+  const nicks = Object.fromEntries(state.players.map((id) => [id, id.replace(/[\s:]+/g, '_')]));
+  const lines = ['#character-encoding UTF-8'];
+  state.players.forEach((id, i) => {
+    lines.push(`#player${i + 1} ${nicks[id]} ${options.labels?.[id] ?? id}`);
+  });
+
+  const turn = (playerId: string, fields: string[], delta: number, total: number) => {
+    lines.push(`>${nicks[playerId]}: ${[...fields.filter(Boolean), formatDelta(delta), String(total)].join(' ')}`);
+  };
+
+  const { frames } = buildReplay(state);
+  let lastMove: Move | null = null;
+  for (let i = 1; i < frames.length; i += 1) {
+    const entry = frames[i].entry!;
+    const totals = frames[i].scores;
+    switch (entry.type) {
+      case 'MOVE': {
+        lastMove = entry;
+        if (!entry.placements) {
+          lines.push(`#note ${entry.words.join(', ')} was saved without board positions`);
+          break;
+        }
+        const { position, word } = describePlay(frames[i - 1].board, entry.placements);
+        // Older snapshots didn't keep the rack; the tiles played are the best we can do.
+        const rack = rackString(entry.rack ?? entry.placements.map((p) => p.tile));
+        turn(entry.playerId, [rack, position, word], entry.scoreDelta, totals[entry.playerId]);
+        break;
+      }
+      case 'PASS':
+        turn(entry.playerId, [rackString(entry.rack ?? []), '-'], 0, totals[entry.playerId]);
+        break;
+      case 'EXCHANGE':
+        turn(entry.playerId, [rackString(entry.rack ?? []), `-${entry.exchangedTiles}`], 0, totals[entry.playerId]);
+        break;
+      case 'CHALLENGE':
+        if (entry.upheld) {
+          const withdrawn = lastMove?.scoreDelta ?? 0;
+          // The tiles go back, so the player holds the rack they played from again.
+          const rack = rackString(lastMove?.rack ?? lastMove?.placements?.map((p) => p.tile) ?? []);
+          turn(entry.challengedPlayerId, [rack, '--'], -withdrawn, totals[entry.challengedPlayerId]);
+        } else {
+          turn(entry.playerId, ['(challenge)'], -entry.penalty, totals[entry.playerId]);
+        }
+        lastMove = null;
+        break;
+      case 'TAKEBACK':
+      case 'HINT':
+        break;
+    }
+  }
+
+  if (options.finalScores) {
+    const totals = frames[frames.length - 1].scores;
+    const adjustments = state.players
+      .map((id) => ({ id, delta: (options.finalScores![id] ?? 0) - (totals[id] ?? 0) }))
+      .filter((a) => a.delta !== 0)
+      // Rack penalties first, then the bonus for going out.
+      .sort((a, b) => a.delta - b.delta);
+    for (const { id, delta } of adjustments) {
+      const total = options.finalScores[id] ?? 0;
+      if (delta < 0) {
+        const rack = rackString(state.racks[id] ?? []);
+        turn(id, [rack, `(${rack})`], delta, total);
+      } else {
+        const others = state.players.filter((p) => p !== id).flatMap((p) => state.racks[p] ?? []);
+        turn(id, [`(${rackString(others)})`], delta, total);
+      }
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/** Parses a GCG record; throws with the offending line number when the file can't be read. */
+export function importGcg(text: string): GcgGame {
+  const players: string[] = [];
+  const labels: Record<string, string> = {};
+  const turns: Array<{ line: number; playerId: string; fields: string[] }> = [];
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = raw.trim();
+    const player = /^#player(\d+)\s+(\S+)\s*(.*)$/u.exec(line);
+    if (player) {
+      const id = player[2];
+      players[Number(player[1]) - 1] = id;
+      labels[id] = player[3] || id;
+      return;
+    }
+    const play = /^>([^:]+):\s*(.*)$/u.exec(line);
+    if (!play) return;
+    const id = play[1].trim();
+    if (!players.includes(id)) players.push(id);
+    labels[id] ??= id;
+    turns.push({ line: index + 1, playerId: id, fields: play[2].split(/\s+/).filter(Boolean) });
+  });
+
+  const ids = players.filter(Boolean);
+  if (ids.length === 0) throw new Error('GCG file has no players');
+  // GCG doesn't name the tile set, so go by the letters played. Latin-only games read as English.
+  const played = turns.flatMap(({ fields }) => {
+    const at = fields.findIndex((f) => /^(\d{1,2}[A-Z]|[A-Z]\d{1,2})$/.test(f));
+    return at >= 0 && fields[at + 1] ? [fields[at + 1].replace(/[().]/g, '')] : [];
+  });
+  const language: Language = languageForWords(played) ?? 'en';
+
+  const board: BoardCell[][] = Array.from({ length: BOARD_SIZE }, () =>
+    Array.from({ length: BOARD_SIZE }, () => ({ tile: null }))
+  );
+  const history: GameHistoryEntry[] = [];
+  const finalScores: Record<string, number> = Object.fromEntries(ids.map((id) => [id, 0]));
+  let tileCount = 0;
+  const lastMove = () => [...history].reverse().find((e): e is Move => e.type === 'MOVE') ?? null;
+  const nextPlayer = (id: string) => ids[(ids.indexOf(id) + 1) % ids.length];
+
+  for (const { line, playerId, fields } of turns) {
+    const fail = (message: string): never => {
+      throw new Error(`GCG line ${line}: ${message}`);
+    };
+    const total = Number(fields[fields.length - 1]);
+    const delta = Number(fields[fields.length - 2]);
+    if (fields.length < 2 || !Number.isFinite(total) || !Number.isFinite(delta)) {
+      fail('expected a score and a running total');
+    }
+    finalScores[playerId] = total;
+    const action = fields.slice(0, -2);
+    const moveNumber = history.length + 1;
+    const base = { moveNumber, playerId, timestamp: 0 };
+    // The rack is optional in GCG; when written it is the field before the play or exchange.
+    const rackBefore = (at: number) => (at > 0 ? { rack: readRack(action[at - 1], language, () => `gcg-${tileCount++}`) } : {});
+
+    const positionIndex = action.findIndex((f) => parsePosition(board, f) !== null);
+    if (positionIndex >= 0) {
+      const start = parsePosition(board, action[positionIndex])!;
+      const word = action[positionIndex + 1] ?? fail('missing the word played');
+      const placements = readPlay(board, start, word, language, () => `gcg-${tileCount++}`, fail);
+      const { words } = scorePlacements(board, placements, start.horizontal ? 'row' : 'col');
+      for (const p of placements) board[p.y][p.x] = { tile: p.tile };
+      history.push({
+        ...base,
+        type: 'MOVE',
+        scoreDelta: delta,
+        words,
+        placedTiles: placements.length,
+        placements,
+        drawnTileIds: [],
+        ...rackBefore(positionIndex)
+      });
+      continue;
+    }
+
+    const kind = action[action.length - 1] ?? '';
+    if (kind === '-') {
+      history.push({ ...base, type: 'PASS', ...rackBefore(action.length - 1) });
+    } else if (kind === '--') {
+      const move = lastMove();
+      if (!move || move.playerId !== playerId || move.withdrawn) fail('no play to withdraw');
+      for (const p of move!.placements ?? []) board[p.y][p.x] = { tile: null };
+      move!.withdrawn = true;
+      history.push({
+        ...base,
+        type: 'CHALLENGE',
+        playerId: nextPlayer(playerId),
+        challengedPlayerId: playerId,
+        words: move!.words,
+        invalidWords: move!.words,
+        upheld: true,
+        penalty: 0
+      });
+    } else if (kind === '(challenge)') {
+      const move = lastMove() ?? fail('challenge without a play');
+      // A bonus line belongs to the player who was challenged; a penalty line to the challenger.
+      const challenged = move.playerId === playerId;
+      if (challenged) move.scoreDelta += delta;
+      history.push({
+        ...base,
+        type: 'CHALLENGE',
+        playerId: challenged ? nextPlayer(playerId) : playerId,
+        challengedPlayerId: move.playerId,
+        words: move.words,
+        invalidWords: [],
+        upheld: false,
+        penalty: challenged ? 0 : Math.max(0, -delta)
+      });
+    } else if (kind.startsWith('(')) {
+      // End-of-game rack adjustments and time penalties only change the final scores.
+    } else if (kind.startsWith('-')) {
+      const tiles = kind.slice(1);
+      const count = /^\d+$/.test(tiles) ? Number(tiles) : Array.from(tiles).length;
+      history.push({ ...base, type: 'EXCHANGE', exchangedTiles: count, ...rackBefore(action.length - 1) });
+    } else {
+      fail(`unrecognised turn "${fields.join(' ')}"`);
+    }
+  }
+
+  const state: GameState = {
+    board,
+    bag: [],
+    racks: Object.fromEntries(ids.map((id) => [id, []])),
+    scores: { ...finalScores },
+    currentPlayer: ids[0],
+    players: ids,
+    language,
+    moveNumber: history.length,
+    lastMove: null,
+    history,
+    sessionId: crypto.randomUUID(),
+    challengeRule: 'off',
+    pendingChallenge: null
+  };
+  return { state, labels, finalScores };
+}
+
+function formatDelta(delta: number): string {
+  return delta >= 0 ? `+${delta}` : String(delta);
+}
+
+function rackString(tiles: Tile[]): string {
+  return tiles.map((t) => (t.blank ? '?' : t.letter)).join('');
+}
+
+function inBounds(board: BoardCell[][], x: number, y: number): boolean {
+  return x >= 0 && y >= 0 && x < board.length && y < board.length;
+}
+
+/** Start square and spelling of the main word of a play, in GCG notation. */
+function describePlay(board: BoardCell[][], placements: Placement[]): { position: string; word: string } {
+  const placed = new Map(placements.map((p) => [`${p.x},${p.y}`, p.tile]));
+  const occupied = (x: number, y: number) => inBounds(board, x, y) && (board[y][x].tile !== null || placed.has(`${x},${y}`));
+  const first = placements.reduce((a, b) => (b.x + b.y < a.x + a.y ? b : a));
+
+  // Same rule as the game: a single tile reads across unless it only touches tiles above or below.
+  const horizontal =
+    placements.length > 1
+      ? placements.every((p) => p.y === first.y)
+      : occupied(first.x - 1, first.y) || occupied(first.x + 1, first.y) || !(occupied(first.x, first.y - 1) || occupied(first.x, first.y + 1));
+  const [dx, dy] = horizontal ? [1, 0] : [0, 1];
+
+  let { x, y } = first;
+  while (occupied(x - dx, y - dy)) {
+    x -= dx;
+    y -= dy;
+  }
+  const position = horizontal ? `${y + 1}${COLUMNS[x]}` : `${COLUMNS[x]}${y + 1}`;
+
+  let word = '';
+  while (occupied(x, y)) {
+    const tile = placed.get(`${x},${y}`);
+    word += !tile ? '.' : tile.blank ? tile.letter.toLowerCase() : tile.letter;
+    x += dx;
+    y += dy;
+  }
+  return { position, word };
+}
+
+function parsePosition(board: BoardCell[][], field: string): { x: number; y: number; horizontal: boolean } | null {
+  const across = /^(\d{1,2})([A-Z])$/.exec(field);
+  const down = /^([A-Z])(\d{1,2})$/.exec(field);
+  const match = across ?? down;
+  if (!match) return null;
+  const row = Number(across ? across[1] : down![2]) - 1;
+  const col = COLUMNS.indexOf(across ? across[2] : down![1]);
+  if (col < 0 || !inBounds(board, col, row)) return null;
+  return { x: col, y: row, horizontal: Boolean(across) };
+}
+
+/**
+ * `word` split into one entry per square plus the "(" and ")" markers. Letters are grouped
+ * into the language's tiles, so a Spanish "CH" (or blank "ch") is a single square.
+ */
+function tileTokens(word: string, language: Language): string[] {
+  const tokenize = createTokenizer(languagePack(language).alphabet);
+  return (word.match(/[().]|\p{Lu}+|\p{Ll}+|./gu) ?? []).flatMap((piece) => {
+    if (piece.length === 1) return [piece];
+    const lower = piece !== piece.toUpperCase();
+    const tiles = tokenize(piece.toUpperCase()) ?? Array.from(piece.toUpperCase());
+    return lower ? tiles.map((t) => t.toLowerCase()) : tiles;
+  });
+}
+
+/** Tiles of a rack field, with "?" for a blank. */
+function readRack(field: string, language: Language, nextId: () => string): Tile[] {
+  return tileTokens(field, language).map((ch) =>
+    ch === '?'
+      ? { id: nextId(), letter: ' ', value: 0, blank: true }
+      : { id: nextId(), letter: ch.toUpperCase(), value: letterValue(language, ch.toUpperCase()) }
+  );
+}
+
+/** Placements for the new tiles of `word`; "." or letters in parentheses are already on the board. */
+function readPlay(
+  board: BoardCell[][],
+  start: { x: number; y: number; horizontal: boolean },
+  word: string,
+  language: Language,
+  nextId: () => string,
+  fail: (message: string) => never
+): Placement[] {
+  const [dx, dy] = start.horizontal ? [1, 0] : [0, 1];
+  let { x, y } = start;
+  let through = false;
+  const placements: Placement[] = [];
+  for (const ch of tileTokens(word, language)) {
+    if (ch === '(' || ch === ')') {
+      through = ch === '(';
+      continue;
+    }
+    if (!inBounds(board, x, y)) fail(`"${word}" runs off the board`);
+    const existing = board[y][x].tile;
+    if (ch === '.' || through) {
+      if (!existing) fail(`"${word}" plays through an empty square`);
+    } else {
+      if (existing) fail(`"${word}" covers a square that is already taken`);
+      const upper = ch.toUpperCase();
+      const blank = ch !== upper;
+      const tile: Tile = blank
+        ? { id: nextId(), letter: upper, value: 0, blank: true }
+        : { id: nextId(), letter: upper, value: letterValue(language, upper) };
+      placements.push({ x, y, tile });
+    }
+    x += dx;
+    y += dy;
+  }
+  if (placements.length === 0) fail(`"${word}" places no tiles`);
+  return placements;
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { ScrabbleGame } from './game';
+import { chooseHint, hintsRemaining, hintsUsed } from './hints';
+import type { GeneratedMove } from './moveGenerator';
+
+function move(score: number, tiles: number): GeneratedMove {
+  return {
+    placements: Array.from({ length: tiles }, (_, i) => ({ x: 7 + i, y: 7, tile: { id: `t${i}`, letter: 'A', value: 1 } })),
+    words: [],
+    score,
+    orientation: 'row'
+  };
+}
+
+describe('hints', () => {
+  it('counts one hint per suggestion, not per level of detail', () => {
+    const game = new ScrabbleGame();
+    game.start('en', ['p1', 'p2']);
+    game.recordHint('p1', 1);
+    game.recordHint('p1', 2);
+    game.recordHint('p1', 3);
+    game.passTurn('p1');
+    game.recordHint('p2', 1);
+
+    const { history } = game.getState();
+    expect(hintsUsed(history, 'p1')).toBe(1);
+    expect(hintsRemaining(3, history, 'p1')).toBe(2);
+    expect(hintsRemaining(1, history, 'p2')).toBe(0);
+    expect(hintsRemaining(undefined, history, 'p2')).toBe(0);
+  });
+
+  it('suggests the highest-scoring play, using fewer tiles on a tie', () => {
+    const moves = [move(10, 3), move(12, 4), move(12, 2)];
+    expect(chooseHint(moves)).toBe(moves[2]);
+    expect(chooseHint([])).toBeNull();
+  });
+});
@@ -0,0 +1,35 @@
+import type { GeneratedMove } from './moveGenerator';
+import type { GameHistoryEntry, HintLevel } from './types';
+
+export const HINT_LEVEL_LABELS: Record<HintLevel, string> = {
+  1: 'square',
+  2: 'word',
+  3: 'full play'
+};
+
+/**
+ * Hints `playerId` has used this game. Only the first reveal of a suggestion counts;
+ * asking for more detail about the same suggestion is free.
+ */
+export function hintsUsed(history: GameHistoryEntry[], playerId: string): number {
+  return history.filter((e) => e.type === 'HINT' && e.playerId === playerId && e.level === 1).length;
+}
+
+export function hintsRemaining(allowance: number | undefined, history: GameHistoryEntry[], playerId: string): number {
+  return Math.max(0, (allowance ?? 0) - hintsUsed(history, playerId));
+}
+
+/** The play to suggest: the highest-scoring one, preferring fewer tiles on a tie. */
+export function chooseHint(moves: GeneratedMove[]): GeneratedMove | null {
+  let best: GeneratedMove | null = null;
+  for (const move of moves) {
+    if (
+      !best ||
+      move.score > best.score ||
+      (move.score === best.score && move.placements.length < best.placements.length)
+    ) {
+      best = move;
+    }
+  }
+  return best;
+}
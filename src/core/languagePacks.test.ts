@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createTokenizer,
+  foldToAlphabet,
+  languageForWords,
+  languagePack,
+  LANGUAGES,
+  spelledByTiles
+} from './languagePacks';
+
+describe('language packs', () => {
+  it('only puts tiles in the bag that a blank could also stand for', () => {
+    for (const language of LANGUAGES) {
+      const pack = languagePack(language);
+      const letters = pack.tiles.map((t) => t.letter).filter((l) => l !== ' ');
+      expect(new Set(letters).size).toBe(letters.length);
+      expect(letters.every((l) => pack.alphabet.includes(l))).toBe(true);
+      expect(Array.from(pack.vowels).every((v) => pack.alphabet.includes(v))).toBe(true);
+      expect(pack.tiles.some((t) => t.letter === ' ')).toBe(true);
+    }
+  });
+
+  it('recognises a language from the letters played', () => {
+    expect(languageForWords(['QUIZ', 'jab'])).toBe('en');
+    expect(languageForWords(['ÄPFEL', 'TÜR'])).toBe('de');
+    expect(languageForWords(['ЁЖИК'])).toBe('ru');
+    expect(languageForWords(['ЁЖИК', 'QUIZ'])).toBeNull();
+    expect(languageForWords(['CHURRO', 'AÑO'])).toBe('es');
+  });
+
+  it('splits words into digraph tiles where the alphabet has them', () => {
+    const tokenize = createTokenizer(languagePack('es').alphabet);
+    expect(tokenize('CHURRO')).toEqual(['CH', 'U', 'RR', 'O']);
+    expect(tokenize('CALLE')).toEqual(['C', 'A', 'LL', 'E']);
+    expect(tokenize('KIWI')).toBeNull();
+
+    expect(spelledByTiles('CHURRO', ['CH', 'U', 'RR', 'O'], tokenize)).toBe(true);
+    expect(spelledByTiles('CHURRO', ['C', 'H', 'U', 'RR', 'O'], tokenize)).toBe(false);
+  });
+
+  it('folds accents the alphabet has no tile for', () => {
+    expect(foldToAlphabet('CANCIÓN', 'es')).toBe('CANCION');
+    expect(foldToAlphabet('AÑO', 'es')).toBe('AÑO');
+    expect(foldToAlphabet('TÜR', 'de')).toBe('TÜR');
+    expect(foldToAlphabet('ЁЖИК', 'ru')).toBe('ЁЖИК');
+  });
+});
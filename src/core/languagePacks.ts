@@ -0,0 +1,296 @@
+import type { Language } from './types';
+
+export interface TileSpec {
+  /** One alphabet token: usually a single letter, but digraph tiles like Spanish CH carry two. */
+  letter: string;
+  count: number;
+  value: number;
+}
+
+/**
+ * Everything the game needs to know about one language. Adding a language means adding
+ * an entry to `LANGUAGE_PACKS`; tiles, blanks, the move generator, the bot and the
+ * dictionary loader all read from here.
+ */
+export interface LanguagePack {
+  /** Shown in the language picker, in the language itself. */
+  name: string;
+  /** Short tag for dictionary controls and the status pill. */
+  label: string;
+  /**
+   * Every tile letter a blank may stand for, in display order. Also the move generator's
+   * alphabet and the tokens words are split into (see `createTokenizer`).
+   */
+  alphabet: string[];
+  /** Used by the bot to judge how balanced a rack leave is. */
+  vowels: string;
+  /** The full bag; blanks are written as ' '. */
+  tiles: TileSpec[];
+  dictionary: {
+    /** Name on the dictionary host, fetched as `<asset>.json.gz` and then `<asset>.json`. */
+    asset: string;
+    /** Plain word list shipped in `public/dicts`, if there is one. */
+    bundled?: string;
+    /** Last-resort word or frequency list ("word count" per line). */
+    fallbackUrl?: string;
+  };
+}
+
+const letters = (text: string) => Array.from(text);
+
+// Lightweight, permissive frequency lists (top 50k) from hermitdave/FrequencyWords (MIT).
+const frequencyList = (code: string) =>
+  `https://raw.githubusercontent.com/hermitdave/FrequencyWords/master/content/2018/${code}/${code}_50k.txt`;
+
+export const LANGUAGE_PACKS = {
+  en: {
+    name: 'English',
+    label: 'EN',
+    alphabet: letters('ABCDEFGHIJKLMNOPQRSTUVWXYZ'),
+    vowels: 'AEIOU',
+    tiles: [
+      { letter: 'A', count: 9, value: 1 },
+      { letter: 'B', count: 2, value: 3 },
+      { letter: 'C', count: 2, value: 3 },
+      { letter: 'D', count: 4, value: 2 },
+      { letter: 'E', count: 12, value: 1 },
+      { letter: 'F', count: 2, value: 4 },
+      { letter: 'G', count: 3, value: 2 },
+      { letter: 'H', count: 2, value: 4 },
+      { letter: 'I', count: 9, value: 1 },
+      { letter: 'J', count: 1, value: 8 },
+      { letter: 'K', count: 1, value: 5 },
+      { letter: 'L', count: 4, value: 1 },
+      { letter: 'M', count: 2, value: 3 },
+      { letter: 'N', count: 6, value: 1 },
+      { letter: 'O', count: 8, value: 1 },
+      { letter: 'P', count: 2, value: 3 },
+      { letter: 'Q', count: 1, value: 10 },
+      { letter: 'R', count: 6, value: 1 },
+      { letter: 'S', count: 4, value: 1 },
+      { letter: 'T', count: 6, value: 1 },
+      { letter: 'U', count: 4, value: 1 },
+      { letter: 'V', count: 2, value: 4 },
+      { letter: 'W', count: 2, value: 4 },
+      { letter: 'X', count: 1, value: 8 },
+      { letter: 'Y', count: 2, value: 4 },
+      { letter: 'Z', count: 1, value: 10 },
+      { letter: ' ', count: 2, value: 0 }
+    ],
+    dictionary: { asset: 'en', bundled: 'en-basic.txt', fallbackUrl: frequencyList('en') }
+  },
+  // Russian (Scrabble set 104 tiles)
+  ru: {
+    name: 'Русский',
+    label: 'RU',
+    alphabet: letters('АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ'),
+    vowels: 'АЕЁИОУЫЭЮЯ',
+    tiles: [
+      { letter: 'А', count: 8, value: 1 },
+      { letter: 'Б', count: 2, value: 3 },
+      { letter: 'В', count: 4, value: 1 },
+      { letter: 'Г', count: 2, value: 3 },
+      { letter: 'Д', count: 4, value: 2 },
+      { letter: 'Е', count: 8, value: 1 },
+      { letter: 'Ё', count: 1, value: 3 },
+      { letter: 'Ж', count: 1, value: 5 },
+      { letter: 'З', count: 2, value: 5 },
+      { letter: 'И', count: 5, value: 1 },
+      { letter: 'Й', count: 1, value: 4 },
+      { letter: 'К', count: 4, value: 2 },
+      { letter: 'Л', count: 4, value: 2 },
+      { letter: 'М', count: 3, value: 2 },
+      { letter: 'Н', count: 5, value: 1 },
+      { letter: 'О', count: 10, value: 1 },
+      { letter: 'П', count: 4, value: 2 },
+      { letter: 'Р', count: 5, value: 1 },
+      { letter: 'С', count: 5, value: 1 },
+      { letter: 'Т', count: 5, value: 1 },
+      { letter: 'У', count: 4, value: 2 },
+      { letter: 'Ф', count: 1, value: 10 },
+      { letter: 'Х', count: 1, value: 5 },
+      { letter: 'Ц', count: 1, value: 5 },
+      { letter: 'Ч', count: 1, value: 5 },
+      { letter: 'Ш', count: 1, value: 8 },
+      { letter: 'Щ', count: 1, value: 10 },
+      { letter: 'Ъ', count: 1, value: 10 },
+      { letter: 'Ы', count: 2, value: 4 },
+      { letter: 'Ь', count: 2, value: 2 },
+      { letter: 'Э', count: 1, value: 8 },
+      { letter: 'Ю', count: 1, value: 8 },
+      { letter: 'Я', count: 2, value: 3 },
+      { letter: ' ', count: 2, value: 0 }
+    ],
+    dictionary: { asset: 'ru', bundled: 'ru-basic.txt', fallbackUrl: frequencyList('ru') }
+  },
+  // German (Scrabble set 102 tiles); ß is spelled SS on the board.
+  de: {
+    name: 'Deutsch',
+    label: 'DE',
+    alphabet: letters('ABCDEFGHIJKLMNOPQRSTUVWXYZÄÖÜ'),
+    vowels: 'AEIOUÄÖÜ',
+    tiles: [
+      { letter: 'A', count: 5, value: 1 },
+      { letter: 'B', count: 2, value: 3 },
+      { letter: 'C', count: 2, value: 4 },
+      { letter: 'D', count: 4, value: 1 },
+      { letter: 'E', count: 15, value: 1 },
+      { letter: 'F', count: 2, value: 4 },
+      { letter: 'G', count: 3, value: 2 },
+      { letter: 'H', count: 4, value: 2 },
+      { letter: 'I', count: 6, value: 1 },
+      { letter: 'J', count: 1, value: 6 },
+      { letter: 'K', count: 2, value: 4 },
+      { letter: 'L', count: 3, value: 2 },
+      { letter: 'M', count: 4, value: 3 },
+      { letter: 'N', count: 9, value: 1 },
+      { letter: 'O', count: 3, value: 2 },
+      { letter: 'P', count: 1, value: 4 },
+      { letter: 'Q', count: 1, value: 10 },
+      { letter: 'R', count: 6, value: 1 },
+      { letter: 'S', count: 7, value: 1 },
+      { letter: 'T', count: 6, value: 1 },
+      { letter: 'U', count: 6, value: 1 },
+      { letter: 'V', count: 1, value: 6 },
+      { letter: 'W', count: 1, value: 3 },
+      { letter: 'X', count: 1, value: 8 },
+      { letter: 'Y', count: 1, value: 10 },
+      { letter: 'Z', count: 1, value: 3 },
+      { letter: 'Ä', count: 1, value: 6 },
+      { letter: 'Ö', count: 1, value: 8 },
+      { letter: 'Ü', count: 1, value: 6 },
+      { letter: ' ', count: 2, value: 0 }
+    ],
+    dictionary: { asset: 'de', fallbackUrl: frequencyList('de') }
+  },
+  // Spanish (Scrabble set 100 tiles). CH, LL and RR are single tiles and the only way to
+  // spell those pairs; there is no K or W.
+  es: {
+    name: 'Español',
+    label: 'ES',
+    alphabet: [
+      'A', 'B', 'C', 'CH', 'D', 'E', 'F', 'G', 'H', 'I', 'J', 'L', 'LL', 'M',
+      'N', 'Ñ', 'O', 'P', 'Q', 'R', 'RR', 'S', 'T', 'U', 'V', 'X', 'Y', 'Z'
+    ],
+    vowels: 'AEIOU',
+    tiles: [
+      { letter: 'A', count: 12, value: 1 },
+      { letter: 'B', count: 2, value: 3 },
+      { letter: 'C', count: 4, value: 3 },
+      { letter: 'CH', count: 1, value: 5 },
+      { letter: 'D', count: 5, value: 2 },
+      { letter: 'E', count: 12, value: 1 },
+      { letter: 'F', count: 1, value: 4 },
+      { letter: 'G', count: 2, value: 2 },
+      { letter: 'H', count: 2, value: 4 },
+      { letter: 'I', count: 6, value: 1 },
+      { letter: 'J', count: 1, value: 8 },
+      { letter: 'L', count: 4, value: 1 },
+      { letter: 'LL', count: 1, value: 8 },
+      { letter: 'M', count: 2, value: 3 },
+      { letter: 'N', count: 5, value: 1 },
+      { letter: 'Ñ', count: 1, value: 8 },
+      { letter: 'O', count: 9, value: 1 },
+      { letter: 'P', count: 2, value: 3 },
+      { letter: 'Q', count: 1, value: 5 },
+      { letter: 'R', count: 5, value: 1 },
+      { letter: 'RR', count: 1, value: 8 },
+      { letter: 'S', count: 6, value: 1 },
+      { letter: 'T', count: 4, value: 1 },
+      { letter: 'U', count: 5, value: 1 },
+      { letter: 'V', count: 1, value: 4 },
+      { letter: 'X', count: 1, value: 8 },
+      { letter: 'Y', count: 1, value: 4 },
+      { letter: 'Z', count: 1, value: 10 },
+      { letter: ' ', count: 2, value: 0 }
+    ],
+    dictionary: { asset: 'es', fallbackUrl: frequencyList('es') }
+  }
+} satisfies Record<string, LanguagePack>;
+
+export const LANGUAGES = Object.keys(LANGUAGE_PACKS) as Language[];
+
+export function languagePack(language: Language): LanguagePack {
+  return LANGUAGE_PACKS[language];
+}
+
+/**
+ * The first language whose alphabet can spell every word in `words` (case-insensitive),
+ * or null if none can. Packs are checked in registry order, so plain Latin text is English.
+ */
+export function languageForWords(words: string[]): Language | null {
+  const upper = words.map((w) => w.toUpperCase());
+  return (
+    LANGUAGES.find((language) => {
+      const tokenize = createTokenizer(languagePack(language).alphabet);
+      return upper.every((w) => tokenize(w) !== null);
+    }) ?? null
+  );
+}
+
+/**
+ * Splits words into alphabet tokens, taking the longest token at each position, so with
+ * Spanish tiles "CHURRO" reads CH·U·RR·O. Returns null for words the alphabet can't spell.
+ * Words are expected in upper case, as the dictionary stores them.
+ */
+export function createTokenizer(alphabet: ArrayLike<string>): (word: string) => string[] | null {
+  const tokens = new Set(Array.from(alphabet));
+  const longest = Math.max(1, ...[...tokens].map((t) => t.length));
+  if (longest === 1) {
+    return (word) => {
+      const chars = Array.from(word);
+      return chars.every((ch) => tokens.has(ch)) ? chars : null;
+    };
+  }
+  return (word) => {
+    const out: string[] = [];
+    let i = 0;
+    outer: while (i < word.length) {
+      for (let len = Math.min(longest, word.length - i); len > 0; len -= 1) {
+        const token = word.slice(i, i + len);
+        if (tokens.has(token)) {
+          out.push(token);
+          i += len;
+          continue outer;
+        }
+      }
+      return null;
+    }
+    return out;
+  };
+}
+
+/**
+ * Whether `tiles` (letters in board order) spell `word` tile for tile. Joining C and H tiles
+ * gives the string "CH", but the word needs the CH tile, so string equality isn't enough.
+ */
+export function spelledByTiles(word: string, tiles: string[], tokenize: (word: string) => string[] | null): boolean {
+  const tokens = tokenize(word);
+  return !!tokens && tokens.length === tiles.length && tokens.every((t, i) => t === tiles[i]);
+}
+
+/**
+ * Dictionary spelling of `word` for `language`: letters the alphabet lacks lose their
+ * accents when the plain letter is in it (Spanish CANCIÓN → CANCION), while letters the
+ * alphabet has, like Ñ, Ä or Ё, are kept.
+ */
+export function foldToAlphabet(word: string, language: Language): string {
+  let letters = alphabetLetters.get(language);
+  if (!letters) {
+    letters = new Set(languagePack(language).alphabet.flatMap((t) => Array.from(t)));
+    alphabetLetters.set(language, letters);
+  }
+  let out = '';
+  for (const ch of word) {
+    if (letters.has(ch)) {
+      out += ch;
+      continue;
+    }
+    const plain = ch.normalize('NFD').replace(/\p{M}/gu, '');
+    out += letters.has(plain) ? plain : ch;
+  }
+  return out;
+}
+
+// Dictionaries are folded word by word, so keep each alphabet's letters in a set.
+const alphabetLetters = new Map<Language, Set<string>>();
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { BOARD_SIZE, ScrabbleGame, type WordChecker } from './game';
+import { alphabetFor, buildMoveLexicon, generateMoves, hasAnyMove } from './moveGenerator';
+import type { BoardCell, GameState, Language, Tile } from './types';
+
+function emptyBoard(): BoardCell[][] {
+  return Array.from({ length: BOARD_SIZE }, () => Array.from({ length: BOARD_SIZE }, () => ({ tile: null })));
+}
+
+function makeTileFactory() {
+  let n = 0;
+  return (letter: string, value: number, blank = false): Tile => {
+    n += 1;
+    return blank ? { id: `t${n}`, letter: ' ', value: 0, blank: true } : { id: `t${n}`, letter, value };
+  };
+}
+
+function makeState(board: BoardCell[][], rack: Tile[]): GameState {
+  return {
+    board,
+    bag: [],
+    racks: { p1: rack, p2: [] },
+    scores: { p1: 0, p2: 0 },
+    currentPlayer: 'p1',
+    players: ['p1', 'p2'],
+    language: 'en',
+    moveNumber: 0,
+    history: [],
+    sessionId: 'test'
+  };
+}
+
+function checkerFor(words: Set<string>): WordChecker {
+  return Object.assign(async (word: string, _language: Language) => words.has(word), {});
+}
+
+describe('generateMoves', () => {
+  it('lists every opening placement through the center', () => {
+    const t = makeTileFactory();
+    const state = makeState(emptyBoard(), [t('H', 4), t('I', 1)]);
+    const lexicon = buildMoveLexicon(new Set(['HI']), alphabetFor('en'));
+
+    const moves = generateMoves(state, 'p1', lexicon);
+
+    // HI across or down, with either H or I on the center square.
+    expect(moves).toHaveLength(4);
+    expect(moves.every((m) => m.words.join() === 'HI' && m.score === 10)).toBe(true);
+    expect(moves.every((m) => m.placements.some((p) => p.x === 7 && p.y === 7))).toBe(true);
+  });
+
+  it('respects minimum word length', () => {
+    const t = makeTileFactory();
+    const state = makeState(emptyBoard(), [t('A', 1)]);
+    const lexicon = buildMoveLexicon(new Set(['A']), alphabetFor('en'));
+
+    expect(generateMoves(state, 'p1', lexicon, { minLength: 2 })).toEqual([]);
+    expect(generateMoves(state, 'p1', lexicon, { minLength: 1 }).length).toBeGreaterThan(0);
+  });
+
+  it('rejects placements whose cross-words are not in the dictionary', () => {
+    const t = makeTileFactory();
+    const board = emptyBoard();
+    board[7][6].tile = t('H', 4);
+    board[6][7].tile = t('A', 1);
+    board[8][7].tile = t('T', 1);
+    const state = makeState(board, [t('I', 1)]);
+
+    const without = buildMoveLexicon(new Set(['HI']), alphabetFor('en'));
+    expect(generateMoves(state, 'p1', without).some((m) => m.placements[0].x === 7 && m.placements[0].y === 7)).toBe(
+      false
+    );
+
+    const withCross = buildMoveLexicon(new Set(['HI', 'AIT']), alphabetFor('en'));
+    const move = generateMoves(state, 'p1', withCross).find((m) => m.placements[0].x === 7 && m.placements[0].y === 7);
+    expect(move?.words.sort()).toEqual(['AIT', 'HI']);
+  });
+
+  it('assigns letters to blanks and scores them as zero', () => {
+    const t = makeTileFactory();
+    const board = emptyBoard();
+    board[7][7].tile = t('H', 4);
+    const state = makeState(board, [t(' ', 0, true)]);
+    const lexicon = buildMoveLexicon(new Set(['HI']), alphabetFor('en'));
+
+    const moves = generateMoves(state, 'p1', lexicon);
+    const across = moves.find((m) => m.placements[0].x === 8 && m.placements[0].y === 7);
+    expect(across?.placements[0].tile).toMatchObject({ id: 't2', letter: 'I', value: 0, blank: true });
+    expect(across?.score).toBe(4);
+  });
+
+  it('walks digraph tiles as single squares', () => {
+    const t = makeTileFactory();
+    const state = { ...makeState(emptyBoard(), [t('C', 3), t('H', 4), t('CH', 5), t('E', 1)]), language: 'es' as const };
+    const lexicon = buildMoveLexicon(new Set(['CHE']), alphabetFor('es'));
+
+    const moves = generateMoves(state, 'p1', lexicon);
+    expect(moves.length).toBeGreaterThan(0);
+    expect(moves.every((m) => m.placements.map((p) => p.tile.letter).join('·') === 'CH·E')).toBe(true);
+  });
+
+  it('produces moves that placeMove accepts with the same words and score', async () => {
+    const t = makeTileFactory();
+    const board = emptyBoard();
+    // Existing "CAT" across the center and "TO" hanging down from the T.
+    board[7][6].tile = t('C', 3);
+    board[7][7].tile = t('A', 1);
+    board[7][8].tile = t('T', 1);
+    board[8][8].tile = t('O', 1);
+    const words = new Set(['CAT', 'CATS', 'TO', 'TOE', 'TOES', 'AT', 'AS', 'SO', 'ES', 'SEA', 'TEA', 'EAT', 'EATS', 'SAT', 'SET', 'OE']);
+    const rack = [t('S', 1), t('E', 1), t('A', 1), t('T', 1)];
+    const state = makeState(board, rack);
+    const lexicon = buildMoveLexicon(words, alphabetFor('en'));
+
+    const moves = generateMoves(state, 'p1', lexicon);
+    expect(moves.length).toBeGreaterThan(5);
+    for (let i = 1; i < moves.length; i += 1) {
+      expect(moves[i - 1].score).toBeGreaterThanOrEqual(moves[i].score);
+    }
+
+    for (const move of moves) {
+      const game = new ScrabbleGame();
+      game.resume(state);
+      const result = await game.placeMove('p1', move.placements, checkerFor(words));
+      expect(result.success, JSON.stringify(move.placements)).toBe(true);
+      expect(result.scoreDelta).toBe(move.score);
+      expect(result.words).toEqual(move.words);
+    }
+  });
+});
+
+describe('hasAnyMove', () => {
+  it('agrees with generateMoves on whether a rack can play', () => {
+    const t = makeTileFactory();
+    const board = emptyBoard();
+    board[7][7].tile = t('H', 4);
+    const lexicon = buildMoveLexicon(new Set(['HI']), alphabetFor('en'));
+
+    const stuck = makeState(board, [t('Q', 10)]);
+    expect(generateMoves(stuck, 'p1', lexicon)).toEqual([]);
+    expect(hasAnyMove(stuck, 'p1', lexicon)).toBe(false);
+
+    const playable = makeState(board, [t('Q', 10), t('I', 1)]);
+    expect(generateMoves(playable, 'p1', lexicon).length).toBeGreaterThan(0);
+    expect(hasAnyMove(playable, 'p1', lexicon)).toBe(true);
+  });
+});
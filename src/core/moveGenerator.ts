@@ -0,0 +1,456 @@
+import { layoutFor, MAX_BOARD_SIZE } from './boardLayout';
+import { DawgWordSet } from './dawg';
+import { createTokenizer, languagePack, spelledByTiles } from './languagePacks';
+import { scorePlacements, type Orientation } from './game';
+import type { GameState, Language, Placement, Tile, WordSet } from './types';
+
+export interface GeneratedMove {
+  placements: Placement[];
+  words: string[];
+  score: number;
+  orientation: Orientation;
+}
+
+export type TrieNode = {
+  children: Map<number, TrieNode>;
+  end: boolean;
+};
+
+/**
+ * Everything the generator needs to know about a dictionary. Building the trie is the
+ * expensive part, so callers should build a lexicon once per word set and reuse it.
+ */
+export interface MoveLexicon {
+  alphabet: string[];
+  letterToIndex: Map<string, number>;
+  root: TrieNode;
+  words: WordSet;
+}
+
+export type CrossMasks = {
+  // Masks for placing a tile at [y][x] when primary direction is row/col.
+  row: bigint[][];
+  col: bigint[][];
+};
+
+export type Anchor = { x: number; y: number };
+
+/**
+ * How far to search. The board analysis is the same for every rack, so callers checking
+ * several players on one position can compute it once and pass it in.
+ */
+export interface MoveSearchOptions {
+  minLength?: number;
+  /** From `computeCrossMasks` for this board and `minLength`; computed when omitted. */
+  crossMasks?: CrossMasks;
+  /** From `computeAnchors` for this board; computed when omitted. */
+  anchors?: Anchor[];
+}
+
+export function alphabetFor(language: Language): string[] {
+  return languagePack(language).alphabet;
+}
+
+export function buildLetterToIndex(alphabet: ArrayLike<string>): Map<string, number> {
+  const map = new Map<string, number>();
+  for (let i = 0; i < alphabet.length; i += 1) {
+    map.set(alphabet[i], i);
+  }
+  return map;
+}
+
+export function bitForIndex(i: number): bigint {
+  return 1n << BigInt(i);
+}
+
+function allLettersMask(alphabetLen: number): bigint {
+  // (1<<n)-1, but in BigInt.
+  return (1n << BigInt(alphabetLen)) - 1n;
+}
+
+function newTrieNode(): TrieNode {
+  return { children: new Map<number, TrieNode>(), end: false };
+}
+
+export function buildTrie(wordSet: Iterable<string>, letterToIndex: Map<string, number>): TrieNode {
+  const root = newTrieNode();
+  // Trie edges are tiles, not characters: "CHAL" is CH·A·L when CH is a tile.
+  const tokenize = createTokenizer([...letterToIndex.keys()]);
+
+  for (const raw of wordSet) {
+    const w = raw.trim().toUpperCase();
+    if (!w) continue;
+    const tokens = tokenize(w);
+    if (!tokens) continue;
+    // Words longer than the largest board cannot be placed; skipping reduces trie size.
+    if (tokens.length > MAX_BOARD_SIZE) continue;
+
+    let node = root;
+    for (const token of tokens) {
+      const idx = letterToIndex.get(token)!;
+      const next = node.children.get(idx) ?? newTrieNode();
+      node.children.set(idx, next);
+      node = next;
+    }
+    node.end = true;
+  }
+
+  return root;
+}
+
+/**
+ * The trie for a word set. A dictionary loaded as a DAWG already is one, so its graph is
+ * used as is; any other word set has a trie built from its words.
+ */
+export function trieFor(words: Iterable<string>, letterToIndex: Map<string, number>): TrieNode {
+  if (words instanceof DawgWordSet) {
+    const order = [...letterToIndex.keys()];
+    if (words.alphabet.length === order.length && words.alphabet.every((t, i) => t === order[i])) {
+      return words.trieRoot();
+    }
+  }
+  return buildTrie(words, letterToIndex);
+}
+
+/**
+ * `root` with words added and then removed (so removals win), leaving `root` untouched.
+ * Only the nodes on changed paths are copied; everything else, such as a DAWG's shared
+ * graph, is reused, which keeps house-rule lists cheap on top of a full dictionary.
+ */
+export function overlayTrie(
+  root: TrieNode,
+  add: Iterable<string>,
+  remove: Iterable<string>,
+  letterToIndex: Map<string, number>
+): TrieNode {
+  const tokenize = createTokenizer([...letterToIndex.keys()]);
+  const copies = new Set<TrieNode>();
+  const copy = (node: TrieNode): TrieNode => {
+    const next = { children: new Map(node.children), end: node.end };
+    copies.add(next);
+    return next;
+  };
+  const nextRoot = copy(root);
+
+  const mark = (word: string, end: boolean) => {
+    const tokens = tokenize(word.trim().toUpperCase());
+    if (!tokens?.length || tokens.length > MAX_BOARD_SIZE) return;
+    let node = nextRoot;
+    for (const token of tokens) {
+      const idx = letterToIndex.get(token)!;
+      const child = node.children.get(idx);
+      // Nothing to remove below a missing edge.
+      if (!child && !end) return;
+      const next = !child ? copy(newTrieNode()) : copies.has(child) ? child : copy(child);
+      node.children.set(idx, next);
+      node = next;
+    }
+    node.end = end;
+  };
+  for (const word of add) mark(word, true);
+  for (const word of remove) mark(word, false);
+  return nextRoot;
+}
+
+export function buildMoveLexicon(words: WordSet, alphabet: string[]): MoveLexicon {
+  const letterToIndex = buildLetterToIndex(alphabet);
+  return { alphabet, letterToIndex, root: trieFor(words, letterToIndex), words };
+}
+
+function inBounds(board: GameState['board'], v: number) {
+  return v >= 0 && v < board.length;
+}
+
+export function boardHasAnyTiles(board: GameState['board']): boolean {
+  return board.some((row) => row.some((cell) => cell.tile !== null));
+}
+
+export function computeAnchors(board: GameState['board'], center: [number, number]): Anchor[] {
+  if (!boardHasAnyTiles(board)) return [{ x: center[0], y: center[1] }];
+
+  const anchors: Anchor[] = [];
+  for (let y = 0; y < board.length; y += 1) {
+    for (let x = 0; x < board.length; x += 1) {
+      if (board[y][x].tile) continue;
+      const touches =
+        (inBounds(board, x + 1) && board[y][x + 1].tile) ||
+        (inBounds(board, x - 1) && board[y][x - 1].tile) ||
+        (inBounds(board, y + 1) && board[y + 1][x].tile) ||
+        (inBounds(board, y - 1) && board[y - 1][x].tile);
+      if (touches) anchors.push({ x, y });
+    }
+  }
+  return anchors;
+}
+
+export function computeCrossMasks(
+  board: GameState['board'],
+  alphabet: ArrayLike<string>,
+  wordSet: WordSet,
+  minLength: number
+): CrossMasks {
+  const alphaLen = alphabet.length;
+  const all = allLettersMask(alphaLen);
+  // With digraph tiles a dictionary hit isn't enough: the tiles must spell the word token for token.
+  const tokenize = Array.from(alphabet).some((t) => t.length > 1) ? createTokenizer(alphabet) : null;
+
+  const size = board.length;
+  const row: bigint[][] = Array.from({ length: size }, () => Array.from({ length: size }, () => 0n));
+  const col: bigint[][] = Array.from({ length: size }, () => Array.from({ length: size }, () => 0n));
+
+  const computeMaskAt = (x: number, y: number, primary: Orientation): bigint => {
+    if (board[y][x].tile) return 0n;
+
+    // primary=row => cross is vertical; primary=col => cross is horizontal.
+    const dx = primary === 'row' ? 0 : 1;
+    const dy = primary === 'row' ? 1 : 0;
+
+    const up: string[] = [];
+    let cx = x - dx;
+    let cy = y - dy;
+    while (inBounds(board, cx) && inBounds(board, cy) && board[cy][cx].tile) {
+      up.push(board[cy][cx].tile!.letter);
+      cx -= dx;
+      cy -= dy;
+    }
+    up.reverse();
+
+    const down: string[] = [];
+    cx = x + dx;
+    cy = y + dy;
+    while (inBounds(board, cx) && inBounds(board, cy) && board[cy][cx].tile) {
+      down.push(board[cy][cx].tile!.letter);
+      cx += dx;
+      cy += dy;
+    }
+
+    // No perpendicular neighbors => cross-word is length 1 and is not validated (same as collectFormedWords()).
+    if (up.length === 0 && down.length === 0) return all;
+
+    const prefix = up.join('');
+    const suffix = down.join('');
+    const totalLen = prefix.length + 1 + suffix.length;
+    if (totalLen < minLength) return 0n;
+
+    let mask = 0n;
+    for (let i = 0; i < alphaLen; i += 1) {
+      const letter = alphabet[i];
+      const cross = `${prefix}${letter}${suffix}`;
+      if (!wordSet.has(cross)) continue;
+      if (tokenize && !spelledByTiles(cross, [...up, letter, ...down], tokenize)) continue;
+      mask |= bitForIndex(i);
+    }
+    return mask;
+  };
+
+  for (let y = 0; y < size; y += 1) {
+    for (let x = 0; x < size; x += 1) {
+      if (board[y][x].tile) continue;
+      row[y][x] = computeMaskAt(x, y, 'row');
+      col[y][x] = computeMaskAt(x, y, 'col');
+    }
+  }
+
+  return { row, col };
+}
+
+/**
+ * Lists every legal placement `playerId` can make with their current rack.
+ *
+ * Each move is scored with `scorePlacements`, so `score` and `words` match what
+ * `ScrabbleGame.placeMove` would report. Results are sorted by score (highest first).
+ */
+export function generateMoves(
+  state: GameState,
+  playerId: string,
+  lexicon: MoveLexicon,
+  options: MoveSearchOptions = {}
+): GeneratedMove[] {
+  const layout = layoutFor(state);
+  const found = new Map<string, GeneratedMove>();
+  searchMoves(state, playerId, lexicon, options, (placed, orientation) => {
+    const sorted = [...placed].sort((a, b) => a.y - b.y || a.x - b.x);
+    const key = sorted.map((p) => `${p.x},${p.y},${p.tile.letter},${p.tile.blank ? 1 : 0}`).join('|');
+    if (found.has(key)) return false;
+    const { words: formed, score } = scorePlacements(state.board, sorted, undefined, layout);
+    found.set(key, { placements: sorted, words: formed, score, orientation });
+    return false;
+  });
+  return [...found.values()].sort((a, b) => b.score - a.score);
+}
+
+/** Whether `playerId` has any legal placement at all; stops at the first one found. */
+export function hasAnyMove(
+  state: GameState,
+  playerId: string,
+  lexicon: MoveLexicon,
+  options: MoveSearchOptions = {}
+): boolean {
+  return searchMoves(state, playerId, lexicon, options, () => true);
+}
+
+/**
+ * The anchor / cross-check backtracking behind `generateMoves` and `hasAnyMove`. Calls
+ * `visit` with the tiles of each legal placement and stops as soon as it returns true.
+ */
+function searchMoves(
+  state: GameState,
+  playerId: string,
+  lexicon: MoveLexicon,
+  options: MoveSearchOptions,
+  visit: (placed: Placement[], orientation: Orientation) => boolean
+): boolean {
+  const rack = state.racks[playerId] ?? [];
+  if (rack.length === 0) return false;
+
+  const minLength = Math.max(1, options.minLength ?? 2);
+  const { alphabet, letterToIndex, root, words } = lexicon;
+  const board = state.board;
+
+  const crossMasks = options.crossMasks ?? computeCrossMasks(board, alphabet, words, minLength);
+  const anchors = options.anchors ?? computeAnchors(board, layoutFor(state).center);
+
+  // Rack pools: concrete tiles per letter index, plus blanks. Tiles are popped while
+  // recursing and pushed back on the way out, so every visited move uses real tile ids.
+  const pools = new Map<number, Tile[]>();
+  const blanks: Tile[] = [];
+  for (const t of rack) {
+    if (t.blank) {
+      blanks.push(t);
+      continue;
+    }
+    const idx = letterToIndex.get(t.letter);
+    if (idx === undefined) continue;
+    const pool = pools.get(idx) ?? [];
+    pool.push(t);
+    pools.set(idx, pool);
+  }
+
+  for (const orientation of ['row', 'col'] as const) {
+    const masks = crossMasks[orientation];
+    // Map a (line, position) pair to board coordinates for the current orientation.
+    const cellAt = (line: number, pos: number) => (orientation === 'row' ? { x: pos, y: line } : { x: line, y: pos });
+    const tileAt = (line: number, pos: number) => {
+      const { x, y } = cellAt(line, pos);
+      return board[y][x].tile;
+    };
+    const maskAt = (line: number, pos: number) => {
+      const { x, y } = cellAt(line, pos);
+      return masks[y][x];
+    };
+
+    const placed: Placement[] = [];
+
+    // Try every way to put a rack tile on the empty square at `pos`, then continue with `next`.
+    const placeRackTile = (
+      line: number,
+      pos: number,
+      node: TrieNode,
+      next: (child: TrieNode) => boolean
+    ): boolean => {
+      const mask = maskAt(line, pos);
+      const { x, y } = cellAt(line, pos);
+      for (const [idx, child] of node.children) {
+        if ((mask & bitForIndex(idx)) === 0n) continue;
+        const pool = pools.get(idx);
+        if (pool && pool.length > 0) {
+          const tile = pool.pop()!;
+          placed.push({ x, y, tile });
+          const done = next(child);
+          placed.pop();
+          pool.push(tile);
+          if (done) return true;
+        }
+        if (blanks.length > 0) {
+          const blank = blanks.pop()!;
+          placed.push({ x, y, tile: { ...blank, letter: alphabet[idx], value: 0 } });
+          const done = next(child);
+          placed.pop();
+          blanks.push(blank);
+          if (done) return true;
+        }
+      }
+      return false;
+    };
+
+    const extend = (line: number, pos: number, node: TrieNode, wordLen: number, anchorPos: number): boolean => {
+      if (pos >= board.length) {
+        return placed.length > 0 && node.end && wordLen >= minLength && visit(placed, orientation);
+      }
+      const existing = tileAt(line, pos);
+      if (existing) {
+        const idx = letterToIndex.get(existing.letter);
+        if (idx === undefined) return false;
+        const child = node.children.get(idx);
+        if (!child) return false;
+        return extend(line, pos + 1, child, wordLen + 1, anchorPos);
+      }
+      // An empty square past the anchor ends the word here (the anchor itself must be filled).
+      if (pos !== anchorPos && placed.length > 0 && node.end && wordLen >= minLength && visit(placed, orientation)) {
+        return true;
+      }
+      return placeRackTile(line, pos, node, (child) => extend(line, pos + 1, child, wordLen + 1, anchorPos));
+    };
+
+    const fillLeft = (
+      line: number,
+      pos: number,
+      endExclusive: number,
+      node: TrieNode,
+      fixed: number[],
+      anchorPos: number,
+      lenSoFar: number
+    ): boolean => {
+      if (pos === endExclusive) {
+        let after: TrieNode | undefined = node;
+        for (const idx of fixed) {
+          after = after.children.get(idx);
+          if (!after) return false;
+        }
+        return extend(line, anchorPos, after, lenSoFar + fixed.length, anchorPos);
+      }
+      return placeRackTile(line, pos, node, (child) =>
+        fillLeft(line, pos + 1, endExclusive, child, fixed, anchorPos, lenSoFar + 1)
+      );
+    };
+
+    for (const anchor of anchors) {
+      const line = orientation === 'row' ? anchor.y : anchor.x;
+      const anchorPos = orientation === 'row' ? anchor.x : anchor.y;
+
+      // Fixed run of existing tiles immediately before the anchor must be part of the word.
+      const fixed: number[] = [];
+      let pos = anchorPos - 1;
+      let unknownLetter = false;
+      while (inBounds(board, pos) && tileAt(line, pos)) {
+        const idx = letterToIndex.get(tileAt(line, pos)!.letter);
+        if (idx === undefined) {
+          unknownLetter = true;
+          break;
+        }
+        fixed.push(idx);
+        pos -= 1;
+      }
+      if (unknownLetter) continue;
+      fixed.reverse();
+      const fixedStart = pos + 1;
+
+      // Empty squares before the fixed run can hold the left part of the word.
+      let leftLimit = 0;
+      pos = fixedStart - 1;
+      while (inBounds(board, pos) && !tileAt(line, pos)) {
+        leftLimit += 1;
+        pos -= 1;
+      }
+
+      for (let usedLeft = 0; usedLeft <= leftLimit; usedLeft += 1) {
+        const start = fixedStart - usedLeft;
+        // A tile right before `start` would extend the word further; that start is covered elsewhere.
+        if (inBounds(board, start - 1) && tileAt(line, start - 1)) continue;
+        if (fillLeft(line, start, fixedStart, root, fixed, anchorPos, 0)) return true;
+      }
+    }
+  }
+
+  return false;
+}
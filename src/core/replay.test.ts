@@ -0,0 +1,80 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ScrabbleGame } from './game';
+import { buildReplay } from './replay';
+
+describe('buildReplay', () => {
+  const checkWord = vi.fn(async (word: string) => word !== 'HX');
+
+  function startGame(challengeRule: 'off' | 'double' = 'off') {
+    const game = new ScrabbleGame();
+    game.start('en', ['p1', 'p2'], { challengeRule });
+    const state = game.getState();
+    state.racks['p1'][0] = { id: 'h', letter: 'H', value: 4 };
+    state.racks['p1'][1] = { id: 'i', letter: 'I', value: 1 };
+    state.racks['p1'][2] = { id: 'x', letter: 'X', value: 8 };
+    state.racks['p2'][0] = { id: 'b', letter: ' ', value: 0, blank: true };
+    return game;
+  }
+
+  function play(game: ScrabbleGame, first: string, second: string) {
+    const rack = game.getState().racks['p1'];
+    return game.placeMove('p1', [
+      { x: 7, y: 7, tile: rack.find((t) => t.id === first)! },
+      { x: 8, y: 7, tile: rack.find((t) => t.id === second)! }
+    ], checkWord);
+  }
+
+  it('steps through every turn and ends on the current board', async () => {
+    const game = startGame();
+    await play(game, 'h', 'i');
+    const blank = game.getState().racks['p2'].find((t) => t.id === 'b')!;
+    await game.placeMove('p2', [{ x: 7, y: 8, tile: { ...blank, letter: 'O' } }], checkWord);
+    game.passTurn('p1');
+
+    const { frames, complete } = buildReplay(game.getState());
+
+    expect(complete).toBe(true);
+    expect(frames.map((f) => f.entry?.type ?? null)).toEqual([null, 'MOVE', 'MOVE', 'PASS']);
+    expect(frames[0].board[7][7].tile).toBeNull();
+    expect(frames[1].board[7][8].tile?.letter).toBe('I');
+    expect(frames[1].board[8][7].tile).toBeNull();
+    expect(frames[1].placed).toEqual([{ x: 7, y: 7 }, { x: 8, y: 7 }]);
+    expect(frames[2].board[8][7].tile).toMatchObject({ letter: 'O', value: 0, blank: true });
+    expect(frames[3].placed).toEqual([]);
+    expect(frames[3].scores).toEqual(game.getState().scores);
+  });
+
+  it('lifts a successfully challenged play off the board again', async () => {
+    const game = startGame('double');
+    await play(game, 'h', 'x');
+    await game.challenge('p2', checkWord);
+
+    const { frames, complete } = buildReplay(game.getState());
+
+    expect(complete).toBe(true);
+    expect(frames[1].board[7][7].tile?.letter).toBe('H');
+    expect(frames[2].entry?.type).toBe('CHALLENGE');
+    expect(frames[2].board[7][7].tile).toBeNull();
+    expect(frames[2].scores).toEqual({ p1: 0, p2: 0 });
+  });
+
+  it('skips taken-back turns', async () => {
+    const game = startGame();
+    await play(game, 'h', 'i');
+    game.takeBack('p1');
+
+    const { frames } = buildReplay(game.getState());
+
+    expect(frames).toHaveLength(1);
+  });
+
+  it('reports histories that cannot rebuild the board', async () => {
+    const game = startGame();
+    await play(game, 'h', 'i');
+    const state = game.getState();
+    const move = state.history[0];
+    if (move.type === 'MOVE') delete move.placements;
+
+    expect(buildReplay(state).complete).toBe(false);
+  });
+});
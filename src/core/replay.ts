@@ -0,0 +1,87 @@
+import type { BoardCell, GameHistoryEntry, GameState, Placement } from './types';
+
+export interface ReplayFrame {
+  /** 0 is the empty board before the first turn. */
+  ply: number;
+  /** The turn that produced this frame (null for the opening frame). */
+  entry: GameHistoryEntry | null;
+  board: BoardCell[][];
+  scores: Record<string, number>;
+  /** Squares filled on this ply, for highlighting. */
+  placed: Array<{ x: number; y: number }>;
+}
+
+export interface Replay {
+  frames: ReplayFrame[];
+  /**
+   * False when the history can't rebuild the final board: moves saved before
+   * placements were recorded, or a long session whose oldest entries were trimmed.
+   */
+  complete: boolean;
+}
+
+/**
+ * Rebuilds the board and scores after every turn of a game from its history.
+ *
+ * Taken-back turns are already gone from the history and are not replayed; hints are skipped.
+ * A play that was successfully challenged appears on its own ply and is
+ * lifted off the board again on the challenge ply.
+ */
+export function buildReplay(state: GameState): Replay {
+  const size = state.board.length;
+  const board: BoardCell[][] = Array.from({ length: size }, () =>
+    Array.from({ length: size }, () => ({ tile: null }))
+  );
+  const scores: Record<string, number> = Object.fromEntries(state.players.map((id) => [id, 0]));
+  const frames: ReplayFrame[] = [
+    { ply: 0, entry: null, board: structuredClone(board), scores: { ...scores }, placed: [] }
+  ];
+  let complete = true;
+  let lastPlay: { playerId: string; placements: Placement[]; scoreDelta: number } | null = null;
+
+  for (const entry of state.history) {
+    if (entry.type === 'TAKEBACK' || entry.type === 'HINT') continue;
+    let placed: Array<{ x: number; y: number }> = [];
+
+    if (entry.type === 'MOVE') {
+      if (!entry.placements) complete = false;
+      const moves = entry.placements ?? [];
+      for (const p of moves) {
+        board[p.y][p.x] = { tile: structuredClone(p.tile) };
+      }
+      placed = moves.map((p) => ({ x: p.x, y: p.y }));
+      scores[entry.playerId] = (scores[entry.playerId] ?? 0) + entry.scoreDelta;
+      lastPlay = { playerId: entry.playerId, placements: moves, scoreDelta: entry.scoreDelta };
+    } else if (entry.type === 'CHALLENGE') {
+      // A challenge always answers the play immediately before it.
+      if (entry.upheld && lastPlay && lastPlay.playerId === entry.challengedPlayerId) {
+        for (const p of lastPlay.placements) {
+          board[p.y][p.x] = { tile: null };
+        }
+        scores[lastPlay.playerId] = (scores[lastPlay.playerId] ?? 0) - lastPlay.scoreDelta;
+      }
+      scores[entry.playerId] = (scores[entry.playerId] ?? 0) - entry.penalty;
+      lastPlay = null;
+    }
+
+    frames.push({
+      ply: frames.length,
+      entry,
+      board: structuredClone(board),
+      scores: { ...scores },
+      placed
+    });
+  }
+
+  if (complete) complete = sameLetters(board, state.board);
+  return { frames, complete };
+}
+
+function sameLetters(a: BoardCell[][], b: BoardCell[][]): boolean {
+  for (let y = 0; y < b.length; y += 1) {
+    for (let x = 0; x < b.length; x += 1) {
+      if ((a[y]?.[x]?.tile?.letter ?? null) !== (b[y]?.[x]?.tile?.letter ?? null)) return false;
+    }
+  }
+  return true;
+}
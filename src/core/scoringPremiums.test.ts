@@ -1,4 +1,5 @@
 import { describe, expect, it } from 'vitest';
+import { SUPER_LAYOUT, WWF_LAYOUT } from './boardLayout';
 import { BOARD_SIZE, ScrabbleGame, type WordChecker } from './game';
 import type { BoardCell, GameState, Language, Tile } from './types';
 
@@ -239,6 +240,59 @@ describe('scoring: premiums (DL/TL/DW/TW)', () => {
         expect(result.scoreDelta).toBe(126);
         expect((result.words ?? []).slice().sort()).toEqual(['HELLOWOR', 'AHA', 'ALE', 'EWE', 'ERD'].sort());
     });
+
+    it('counts a single tile\'s longer vertical word once when it also forms a shorter horizontal word', async () => {
+        const t = makeTileFactory();
+        const board = emptyBoard();
+
+        // "H" to the left of (10,10) and "A"/"T" above/below it: placing "I" forms "HI" and "AIT".
+        board[10][9].tile = t('H', 4);
+        board[9][10].tile = t('A', 1);
+        board[11][10].tile = t('T', 1);
+
+        const game = new ScrabbleGame();
+        const i = t('I', 1);
+        game.resume(baseState(board, { p1: [i], p2: [] }));
+
+        const result = await game.placeMove('p1', [{ x: 10, y: 10, tile: i }], acceptAllWords);
+        expect(result.success).toBe(true);
+        // (10,10) is a DW square: AIT = 3*2 = 6, HI = 5*2 = 10.
+        expect((result.words ?? []).slice().sort()).toEqual(['AIT', 'HI']);
+        expect(result.scoreDelta).toBe(16);
+    });
 });
 
+describe('scoring: board layouts', () => {
+    it('sizes the board from the layout and requires its own start square', async () => {
+        const game = new ScrabbleGame();
+        const state = game.start('en', ['p1', 'p2'], { layout: SUPER_LAYOUT });
+        expect(state.board).toHaveLength(21);
+        expect(state.layout?.id).toBe('super');
+
+        const [a, b] = state.racks.p1;
+        const offCenter = await game.placeMove('p1', [{ x: 7, y: 7, tile: a }, { x: 8, y: 7, tile: b }], acceptAllWords);
+        expect(offCenter).toMatchObject({ success: false, message: 'First move must cover center' });
 
+        const onCenter = await game.placeMove('p1', [{ x: 10, y: 10, tile: a }, { x: 11, y: 10, tile: b }], acceptAllWords);
+        expect(onCenter.success).toBe(true);
+        expect(onCenter.scoreDelta).toBe((a.value + b.value) * 2);
+    });
+
+    it('applies quadruple letter squares and skips the bonus on a plain start square', async () => {
+        const t = makeTileFactory();
+        const board = Array.from({ length: 21 }, () => Array.from({ length: 21 }, () => ({ tile: null as Tile | null })));
+        board[3][4].tile = t('A', 1);
+        const h = t('H', 4);
+        const game = new ScrabbleGame();
+        game.resume({ ...baseState(board, { p1: [h], p2: [] }), layout: SUPER_LAYOUT });
+        const result = await game.placeMove('p1', [{ x: 3, y: 3, tile: h }], acceptAllWords);
+        expect(result.scoreDelta).toBe(4 * 4 + 1); // H on QL (3,3)
+
+        const friends = new ScrabbleGame();
+        const c = t('C', 3);
+        const d = t('D', 2);
+        friends.resume({ ...baseState(emptyBoard(), { p1: [c, d], p2: [] }), layout: WWF_LAYOUT });
+        const opening = await friends.placeMove('p1', [{ x: 7, y: 7, tile: c }, { x: 8, y: 7, tile: d }], acceptAllWords);
+        expect(opening.scoreDelta).toBe(5);
+    });
+});
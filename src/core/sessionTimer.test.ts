@@ -18,6 +18,12 @@ describe('canStartInitialTurnTimer', () => {
     ).toBe(true);
   });
 
+  it('starts immediately in pass-and-play mode when enabled', () => {
+    expect(
+      canStartInitialTurnTimer({ mode: 'local', timerEnabled: true, timerDurationSec: 300, turnDeadline: null }, false)
+    ).toBe(true);
+  });
+
   it('never starts on the client (host is authoritative)', () => {
     expect(
       canStartInitialTurnTimer({ mode: 'client', timerEnabled: true, timerDurationSec: 300, turnDeadline: null }, true)
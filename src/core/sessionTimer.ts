@@ -1,4 +1,4 @@
-export type SessionMode = 'solo' | 'host' | 'client';
+export type SessionMode = 'solo' | 'local' | 'host' | 'client';
 
 export interface SessionTimerMeta {
   mode: SessionMode;
@@ -13,14 +13,14 @@ export interface SessionTimerMeta {
  *
  * - In P2P host mode we wait until the data channel is open (both users connected),
  *   but only for the initial start (when there is no existing deadline yet).
- * - In solo mode we can start immediately.
+ * - In solo and pass-and-play (local) mode we can start immediately.
  * - In client mode we never authoritatively start the timer; we wait for host sync.
  */
 export function canStartInitialTurnTimer(meta: SessionTimerMeta | null, connectionReady: boolean): boolean {
   if (!meta) return false;
   if (!meta.timerEnabled || !meta.timerDurationSec) return false;
 
-  if (meta.mode === 'solo') return true;
+  if (meta.mode === 'solo' || meta.mode === 'local') return true;
   if (meta.mode === 'client') return false;
 
   // Host: if this is a P2P session (has a remote player) and we have no deadline yet,
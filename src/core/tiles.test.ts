@@ -40,6 +40,37 @@ describe('buildBag', () => {
         expect(valueOf('Ф')).toBe(10);
     });
 
+    it('builds German bag with umlaut tiles', () => {
+        const bag = buildBag('de');
+
+        // 102 tiles for DE standard
+        expect(bag).toHaveLength(102);
+
+        const count = (char: string) => bag.filter(t => t.letter === char).length;
+        expect(count('E')).toBe(15);
+        expect(count('Ä')).toBe(1);
+
+        const valueOf = (char: string) => bag.find(t => t.letter === char)?.value;
+        expect(valueOf('Ö')).toBe(8);
+        expect(valueOf('D')).toBe(1);
+    });
+
+    it('builds Spanish bag with digraph tiles', () => {
+        const bag = buildBag('es');
+
+        // 100 tiles for ES standard; CH, LL and RR are one tile each
+        expect(bag).toHaveLength(100);
+
+        const count = (char: string) => bag.filter(t => t.letter === char).length;
+        expect(count('CH')).toBe(1);
+        expect(count('RR')).toBe(1);
+        expect(count('K')).toBe(0);
+
+        const valueOf = (char: string) => bag.find(t => t.letter === char)?.value;
+        expect(valueOf('LL')).toBe(8);
+        expect(valueOf('Ñ')).toBe(8);
+    });
+
     it('assigns unique IDs to tiles', () => {
         const bag = buildBag('en');
         const ids = new Set(bag.map(t => t.id));
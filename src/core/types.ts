@@ -1,9 +1,15 @@
-export type Language = 'en' | 'ru';
+import type { BoardLayout } from './boardLayout';
+import type { LANGUAGE_PACKS } from './languagePacks';
+
+/** Languages with a pack in `languagePacks.ts`. */
+export type Language = keyof typeof LANGUAGE_PACKS;
 
 export type Premium =
+  | 'QW'
   | 'TW'
   | 'DW'
   | 'TL'
+  | 'QL'
   | 'DL'
   | 'CENTER';
 
@@ -20,6 +26,29 @@ export interface Placement {
   tile: Tile;
 }
 
+/**
+ * How dictionary validity is enforced:
+ * - 'off': invalid words are rejected before they land (default)
+ * - 'double': plays land provisionally; a failed challenge costs the challenger their turn
+ * - 'single': like 'double', but a failed challenge costs points instead of the turn
+ */
+export type ChallengeRule = 'off' | 'double' | 'single';
+
+/** A provisionally accepted play that the next player may still challenge. */
+export interface PendingChallenge {
+  playerId: string;
+  moveNumber: number;
+  placements: Placement[];
+  words: string[];
+  scoreDelta: number;
+  /** Tiles drawn after the play; they go back to the bag if the play is withdrawn. */
+  drawnTileIds: string[];
+  previousLastMove: GameState['lastMove'];
+}
+
+/** How much of a suggested play a hint reveals: 1 = a square, 2 = the word, 3 = the full placement. */
+export type HintLevel = 1 | 2 | 3;
+
 export interface BoardCell {
   tile: Tile | null;
 }
@@ -46,13 +75,34 @@ export interface GameState {
   | null;
   history: GameHistoryEntry[];
   sessionId: string;
+  /** Absent in older snapshots, which behave as 'off'. */
+  challengeRule?: ChallengeRule;
+  /**
+   * The board the game is played on, carried in full so peers agree on custom layouts too.
+   * Absent in older snapshots, which use the standard board (see `layoutFor`).
+   */
+  layout?: BoardLayout;
+  pendingChallenge?: PendingChallenge | null;
+  /**
+   * Present only on a peer's copy of a host state (see network/redact.ts):
+   * `bag` is empty and other players' racks are hidden, so counts come from here.
+   */
+  redacted?: {
+    bagCount: number;
+    rackSizes: Record<string, number>;
+  };
 }
 
-export type GameEndReason = 'four_passes' | 'no_moves_bag_empty';
+export type GameEndReason = 'four_passes' | 'no_moves_bag_empty' | 'player_out';
 
 export interface GameEndedInfo {
   reason: GameEndReason;
   finalScores: Record<string, number>;
+  /**
+   * Set when reason is 'player_out': who emptied their rack and the
+   * sum of the other racks' tile values credited to them.
+   */
+  wentOut?: { playerId: string; bonus: number };
 }
 
 export type GameHistoryEntry =
@@ -64,12 +114,23 @@ export type GameHistoryEntry =
     words: string[];
     placedTiles: number;
     timestamp: number;
+    /** Set when the play was taken off the board after a successful challenge. */
+    withdrawn?: boolean;
+    /**
+     * Exact tiles placed (with blank letters as played) and drawn, so the move can be
+     * taken back or replayed (absent in older snapshots).
+     */
+    placements?: Placement[];
+    drawnTileIds?: string[];
+    /** Rack before the turn, for post-game analysis (see network/redact.ts for who sees it). */
+    rack?: Tile[];
   }
   | {
     type: 'PASS';
     moveNumber: number;
     playerId: string;
     timestamp: number;
+    rack?: Tile[];
   }
   | {
     type: 'EXCHANGE';
@@ -77,6 +138,41 @@ export type GameHistoryEntry =
     playerId: string;
     exchangedTiles: number;
     timestamp: number;
+    /** Tile ids returned to / drawn from the bag, for takebacks (absent in older snapshots). */
+    exchangedTileIds?: string[];
+    drawnTileIds?: string[];
+    rack?: Tile[];
+  }
+  | {
+    type: 'CHALLENGE';
+    moveNumber: number;
+    /** The challenger. */
+    playerId: string;
+    challengedPlayerId: string;
+    words: string[];
+    invalidWords: string[];
+    upheld: boolean;
+    /** Points the challenger lost (single challenge only). */
+    penalty: number;
+    timestamp: number;
+  }
+  | {
+    type: 'TAKEBACK';
+    moveNumber: number;
+    playerId: string;
+    /** The turn that was undone (its entry is removed from history). */
+    undoneMoveNumber: number;
+    undoneType: 'MOVE' | 'PASS' | 'EXCHANGE';
+    words?: string[];
+    timestamp: number;
+  }
+  | {
+    /** A hint was shown; not a turn (moveNumber is the turn it was shown on). */
+    type: 'HINT';
+    moveNumber: number;
+    playerId: string;
+    level: HintLevel;
+    timestamp: number;
   };
 
 export interface MoveResult {
@@ -85,5 +181,12 @@ export interface MoveResult {
   scoreDelta?: number;
   words?: string[];
   gameEnded?: GameEndedInfo;
+  challenge?: { upheld: boolean; invalidWords: string[]; penalty: number };
 }
 
+
+/** A dictionary's words: a plain `Set`, or a packed graph like `DawgWordSet` with the same lookups. */
+export interface WordSet extends Iterable<string> {
+  has(word: string): boolean;
+  readonly size: number;
+}
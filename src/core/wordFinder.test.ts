@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { alphabetFor, buildMoveLexicon } from './moveGenerator';
+import { findWords, sortFoundWords } from './wordFinder';
+
+const WORDS = new Set(['AT', 'TA', 'CAT', 'ACT', 'CATS', 'SCAT', 'CAST', 'TACO', 'COAT', 'OAT', 'OATS', 'ZA']);
+const lexicon = buildMoveLexicon(WORDS, alphabetFor('en'));
+const words = (result: { words: Array<{ word: string }> }) => result.words.map((w) => w.word).sort();
+
+describe('findWords', () => {
+  it('finds anagrams of a rack, scoring blanks as zero', () => {
+    expect(words(findWords(lexicon, 'en', { kind: 'anagram', rack: 'TAC' }))).toEqual(['ACT', 'AT', 'CAT', 'TA']);
+
+    const withBlank = findWords(lexicon, 'en', { kind: 'anagram', rack: 'CAT?' });
+    expect(words(withBlank)).toContain('CATS');
+    expect(words(withBlank)).toContain('TACO');
+    // C·A·T from the rack plus a blank S: 3 + 1 + 1 + 0.
+    expect(withBlank.words.find((w) => w.word === 'CATS')?.score).toBe(5);
+  });
+
+  it('matches ? and * patterns and regular expressions', () => {
+    expect(words(findWords(lexicon, 'en', { kind: 'pattern', pattern: '?A?S' }))).toEqual(['CATS', 'OATS']);
+    expect(words(findWords(lexicon, 'en', { kind: 'pattern', pattern: 'C*' }))).toEqual(['CAST', 'CAT', 'CATS', 'COAT']);
+    expect(words(findWords(lexicon, 'en', { kind: 'regex', source: '[CT]A.' }))).toEqual(['CAT']);
+    expect(() => findWords(lexicon, 'en', { kind: 'regex', source: '(' })).toThrow();
+  });
+
+  it('finds words containing every given tile', () => {
+    expect(words(findWords(lexicon, 'en', { kind: 'contains', letters: 'SO' }))).toEqual(['OATS']);
+  });
+
+  it('lists front and back hooks', () => {
+    const result = findWords(lexicon, 'en', { kind: 'hooks', word: 'cat' });
+    expect(result.hooks).toEqual({ word: 'CAT', valid: true, front: ['S'], back: ['S'] });
+    expect(words(result)).toEqual(['CATS', 'SCAT']);
+    expect(findWords(lexicon, 'en', { kind: 'hooks', word: 'OAT' }).hooks).toMatchObject({ front: ['C'], back: ['S'] });
+  });
+
+  it('sorts by length or score and caps the list', () => {
+    const found = [
+      { word: 'ZA', length: 2, score: 11 },
+      { word: 'CATS', length: 4, score: 6 },
+      { word: 'CAT', length: 3, score: 5 }
+    ];
+    expect(sortFoundWords(found, 'length').map((w) => w.word)).toEqual(['CATS', 'CAT', 'ZA']);
+    expect(sortFoundWords(found, 'score').map((w) => w.word)).toEqual(['ZA', 'CATS', 'CAT']);
+
+    const capped = findWords(lexicon, 'en', { kind: 'pattern', pattern: '*' }, { limit: 3 });
+    expect(capped.words).toHaveLength(3);
+    expect(capped.truncated).toBe(true);
+  });
+});
@@ -0,0 +1,218 @@
+import { createTokenizer, languagePack } from './languagePacks';
+import type { MoveLexicon, TrieNode } from './moveGenerator';
+import type { Language } from './types';
+
+export type WordFinderQuery =
+  /** Words the rack can spell; `?` or a space is a blank. */
+  | { kind: 'anagram'; rack: string }
+  /** `?` is any one tile and `*` any run of tiles, e.g. `?A??S` or `CH*`. */
+  | { kind: 'pattern'; pattern: string }
+  | { kind: 'regex'; source: string }
+  /** Words holding every given tile, in any order. */
+  | { kind: 'contains'; letters: string }
+  | { kind: 'hooks'; word: string };
+
+export type WordFinderSort = 'length' | 'score';
+
+export interface FoundWord {
+  word: string;
+  /** Length in tiles, so a Spanish CH counts once. */
+  length: number;
+  /** Face value of the tiles, with blanks counting zero. */
+  score: number;
+}
+
+export interface WordHooks {
+  word: string;
+  /** Whether the word itself is in the dictionary. */
+  valid: boolean;
+  /** Tiles that make a word when put in front of `word`. */
+  front: string[];
+  /** Tiles that make a word when put after `word`. */
+  back: string[];
+}
+
+export interface WordFinderResult {
+  words: FoundWord[];
+  hooks?: WordHooks;
+  /** True when more words matched than `limit` allowed through. */
+  truncated: boolean;
+}
+
+export interface WordFinderOptions {
+  minLength?: number;
+  sort?: WordFinderSort;
+  limit?: number;
+}
+
+const BLANKS = new Set(['?', ' ']);
+
+/**
+ * Runs a study query against a move lexicon. Anagram and pattern searches walk the trie;
+ * regex and "contains" searches scan the word list. Throws on an invalid regex.
+ */
+export function findWords(
+  lexicon: MoveLexicon,
+  language: Language,
+  query: WordFinderQuery,
+  options: WordFinderOptions = {}
+): WordFinderResult {
+  const minLength = Math.max(1, options.minLength ?? 2);
+  const values = tileValues(language);
+  const tokenize = createTokenizer(lexicon.alphabet);
+  const found = new Map<string, FoundWord>();
+  let hooks: WordHooks | undefined;
+
+  const add = (tiles: string[], score: number) => {
+    if (tiles.length < minLength) return;
+    const word = tiles.join('');
+    const prev = found.get(word);
+    if (!prev || prev.score < score) found.set(word, { word, length: tiles.length, score });
+  };
+  const faceValue = (tiles: string[]) => tiles.reduce((sum, t) => sum + (values.get(t) ?? 0), 0);
+
+  if (query.kind === 'anagram') {
+    const rack = splitQuery(query.rack, lexicon.alphabet);
+    const counts = new Map<string, number>();
+    let blanks = 0;
+    for (const t of rack) {
+      if (BLANKS.has(t)) blanks += 1;
+      else counts.set(t, (counts.get(t) ?? 0) + 1);
+    }
+    walkAnagrams(lexicon, lexicon.root, counts, blanks, [], 0, values, add);
+  } else if (query.kind === 'pattern') {
+    const pattern = splitQuery(query.pattern, lexicon.alphabet, ['*']).filter((t) => t !== ' ');
+    walkPattern(lexicon, lexicon.root, pattern, 0, [], (tiles) => add(tiles, faceValue(tiles)));
+  } else if (query.kind === 'regex') {
+    const re = new RegExp(`^(?:${query.source})$`, 'iu');
+    for (const word of lexicon.words) {
+      if (!re.test(word)) continue;
+      const tiles = tokenize(word);
+      if (tiles) add(tiles, faceValue(tiles));
+    }
+  } else if (query.kind === 'contains') {
+    const wanted = countTiles(splitQuery(query.letters, lexicon.alphabet).filter((t) => !BLANKS.has(t)));
+    for (const word of lexicon.words) {
+      const tiles = tokenize(word);
+      if (!tiles) continue;
+      const have = countTiles(tiles);
+      if ([...wanted].every(([t, n]) => (have.get(t) ?? 0) >= n)) add(tiles, faceValue(tiles));
+    }
+  } else {
+    const stem = tokenize(query.word.trim().toUpperCase()) ?? [];
+    hooks = findHooks(lexicon, stem);
+    for (const t of hooks.front) add([t, ...stem], faceValue([t, ...stem]));
+    for (const t of hooks.back) add([...stem, t], faceValue([...stem, t]));
+  }
+
+  const words = sortFoundWords([...found.values()], options.sort ?? 'length');
+  const limit = options.limit ?? Infinity;
+  return { words: words.slice(0, limit), hooks, truncated: words.length > limit };
+}
+
+/** Longest words first (ties by score), or highest score first (ties by length); then A–Z. */
+export function sortFoundWords(words: FoundWord[], by: WordFinderSort): FoundWord[] {
+  const primary = by === 'score' ? (w: FoundWord) => w.score : (w: FoundWord) => w.length;
+  const secondary = by === 'score' ? (w: FoundWord) => w.length : (w: FoundWord) => w.score;
+  return [...words].sort(
+    (a, b) => primary(b) - primary(a) || secondary(b) - secondary(a) || a.word.localeCompare(b.word)
+  );
+}
+
+function tileValues(language: Language): Map<string, number> {
+  return new Map(languagePack(language).tiles.map((t) => [t.letter, t.value]));
+}
+
+function countTiles(tiles: string[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (const t of tiles) counts.set(t, (counts.get(t) ?? 0) + 1);
+  return counts;
+}
+
+/** Splits typed input into tiles, keeping `?`, spaces and any `extra` wildcards as their own tokens. */
+function splitQuery(text: string, alphabet: string[], extra: string[] = []): string[] {
+  const tokenize = createTokenizer([...alphabet, ...BLANKS, ...extra]);
+  return tokenize(text.toUpperCase()) ?? [];
+}
+
+function walkAnagrams(
+  lexicon: MoveLexicon,
+  node: TrieNode,
+  counts: Map<string, number>,
+  blanks: number,
+  tiles: string[],
+  score: number,
+  values: Map<string, number>,
+  add: (tiles: string[], score: number) => void
+) {
+  if (node.end) add(tiles, score);
+  for (const [idx, child] of node.children) {
+    const letter = lexicon.alphabet[idx];
+    const left = counts.get(letter) ?? 0;
+    if (left > 0) {
+      counts.set(letter, left - 1);
+      tiles.push(letter);
+      walkAnagrams(lexicon, child, counts, blanks, tiles, score + (values.get(letter) ?? 0), values, add);
+      tiles.pop();
+      counts.set(letter, left);
+    }
+    if (blanks > 0) {
+      tiles.push(letter);
+      walkAnagrams(lexicon, child, counts, blanks - 1, tiles, score, values, add);
+      tiles.pop();
+    }
+  }
+}
+
+function walkPattern(
+  lexicon: MoveLexicon,
+  node: TrieNode,
+  pattern: string[],
+  at: number,
+  tiles: string[],
+  onMatch: (tiles: string[]) => void
+) {
+  if (at === pattern.length) {
+    if (node.end) onMatch([...tiles]);
+    return;
+  }
+  const token = pattern[at];
+  if (token === '*') {
+    // Zero tiles, or one more tile with the star still open.
+    walkPattern(lexicon, node, pattern, at + 1, tiles, onMatch);
+    for (const [idx, child] of node.children) {
+      tiles.push(lexicon.alphabet[idx]);
+      walkPattern(lexicon, child, pattern, at, tiles, onMatch);
+      tiles.pop();
+    }
+    return;
+  }
+  if (token === '?') {
+    for (const [idx, child] of node.children) {
+      tiles.push(lexicon.alphabet[idx]);
+      walkPattern(lexicon, child, pattern, at + 1, tiles, onMatch);
+      tiles.pop();
+    }
+    return;
+  }
+  const idx = lexicon.letterToIndex.get(token);
+  const child = idx === undefined ? undefined : node.children.get(idx);
+  if (!child) return;
+  tiles.push(token);
+  walkPattern(lexicon, child, pattern, at + 1, tiles, onMatch);
+  tiles.pop();
+}
+
+function findHooks(lexicon: MoveLexicon, stem: string[]): WordHooks {
+  const word = stem.join('');
+  let node: TrieNode | undefined = stem.length ? lexicon.root : undefined;
+  for (const t of stem) {
+    const idx = lexicon.letterToIndex.get(t);
+    node = idx === undefined ? undefined : node?.children.get(idx);
+  }
+  const back = node
+    ? [...node.children].filter(([, child]) => child.end).map(([idx]) => lexicon.alphabet[idx])
+    : [];
+  const front = stem.length ? lexicon.alphabet.filter((t) => lexicon.words.has(t + word)) : [];
+  return { word, valid: node?.end ?? false, front, back };
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { adjudicate, parseJudgeInput } from './adjudicator';
+
+describe('word judge', () => {
+  it('splits typed words on spaces, commas and new lines', () => {
+    expect(parseJudgeInput(' qi, za\nQI;  jo ')).toEqual(['QI', 'ZA', 'JO']);
+    expect(parseJudgeInput('  ')).toEqual([]);
+  });
+
+  it('rules a play invalid if any one word is', async () => {
+    const words = new Set(['QI', 'ZA']);
+    const check = async (w: string) => words.has(w);
+
+    expect(await adjudicate(['QI', 'ZA'], check)).toEqual({
+      valid: true,
+      words: [
+        { word: 'QI', valid: true },
+        { word: 'ZA', valid: true }
+      ]
+    });
+    const mixed = await adjudicate(['QI', 'XYZ'], check);
+    expect(mixed.valid).toBe(false);
+    expect(mixed.words.map((w) => w.valid)).toEqual([true, false]);
+    expect((await adjudicate([], check)).valid).toBe(false);
+  });
+});
@@ -0,0 +1,28 @@
+export interface WordVerdict {
+  word: string;
+  valid: boolean;
+}
+
+export interface Adjudication {
+  /** True only when every word is valid, as in tournament adjudication. */
+  valid: boolean;
+  words: WordVerdict[];
+}
+
+/** Words typed into the judge, split on spaces, commas or new lines, upper-cased and de-duplicated. */
+export function parseJudgeInput(text: string): string[] {
+  const words = text
+    .split(/[\s,;]+/u)
+    .map((w) => w.trim().toUpperCase())
+    .filter(Boolean);
+  return Array.from(new Set(words));
+}
+
+/** Checks every word of a play; the play stands only if all of them do. */
+export async function adjudicate(
+  words: string[],
+  isValid: (word: string) => Promise<boolean>
+): Promise<Adjudication> {
+  const verdicts = await Promise.all(words.map(async (word) => ({ word, valid: await isValid(word) })));
+  return { valid: verdicts.length > 0 && verdicts.every((v) => v.valid), words: verdicts };
+}
@@ -1,5 +1,17 @@
-import type { Language } from '../core/types';
-import { loadDictionary, saveDictionary, type DictionaryEntry, type DictionaryData } from '../storage/indexedDb';
+import { DawgWordSet, encodeDawg } from '../core/dawg';
+import { foldToAlphabet, languagePack, LANGUAGES } from '../core/languagePacks';
+import type { Language, WordSet } from '../core/types';
+import {
+  deleteDictionary,
+  loadDawg,
+  loadDictionary,
+  loadDictionaryEntries,
+  saveDawg,
+  saveDictionaryEntries,
+  type DictionaryEntry,
+  type DictionaryData
+} from '../storage/indexedDb';
+import { explainStrictMatch, findEntry, type WordMatch } from './wordInfo';
 
 type StatusSource = 'memory' | 'indexeddb' | 'fetched';
 
@@ -16,11 +28,17 @@ export interface WordInfo {
   plural?: string;
   base?: string;
   forms?: string[];
+  /** The word list that accepted the word. */
+  source?: DictionaryKey;
+  /** How the looked-up word relates to `word`, the entry it was found under. */
+  matchedAs?: WordMatch;
+  /** Why the strict Russian list accepts this form. */
+  note?: string;
 }
 
-// Cache for word sets (for fast lookup) and full entries (for metadata)
-// Using string keys to support both Language ('en', 'ru') and variants ('ru-strict')
-const memoryCache: Partial<Record<string, Set<string>>> = {};
+// Cache for word sets (for fast lookup) and full entries (for metadata, loaded on first use)
+// Using string keys to support both Language ('en', 'ru', ...) and variants ('ru-strict')
+const memoryCache: Partial<Record<string, WordSet>> = {};
 const entryCache: Partial<Record<string, Map<string, DictionaryEntry>>> = {};
 
 const BASE = import.meta.env.BASE_URL ?? '/';
@@ -44,35 +62,23 @@ const DICT_BASE = useMockDicts && envMockDictBase ? envMockDictBase : envDictBas
 const STRICT_DICT_BASE =
   useMockDicts && envMockDictBase ? envMockDictBase : envStrictDictBase ?? DICT_BASE;
 
-// Primary source: compressed dictionaries
-const COMPRESSED_FILE_MAP: Record<Language, string> = {
-  en: `${DICT_BASE}/en.json.gz`,
-  ru: `${DICT_BASE}/ru.json.gz`
-};
-
-// Fallback: uncompressed dictionaries
-const FILE_MAP: Record<Language, string> = {
-  en: `${DICT_BASE}/en.json`,
-  ru: `${DICT_BASE}/ru.json`
-};
+/**
+ * Where to find a language's dictionary, in the order to try: compressed JSON (smallest
+ * download), uncompressed JSON, then plain word lists (bundled, then the pack's remote list).
+ */
+function dictionarySources(language: Language) {
+  const { asset, bundled, fallbackUrl } = languagePack(language).dictionary;
+  return {
+    compressed: `${DICT_BASE}/${asset}.json.gz`,
+    json: `${DICT_BASE}/${asset}.json`,
+    wordLists: [bundled ? `${BASE}dicts/${bundled}` : null, fallbackUrl ?? null].filter((url): url is string => !!url)
+  };
+}
 
 // Strict Russian dictionary (nominative+plural only for nouns, base forms for others)
 const RU_STRICT_COMPRESSED = `${STRICT_DICT_BASE}/ru-strict.json.gz`;
 const RU_STRICT_FILE = `${STRICT_DICT_BASE}/ru-strict.json`;
 
-// Legacy fallback: local bundled files
-const LEGACY_FILE_MAP: Record<Language, string> = {
-  en: `${BASE}dicts/en-basic.txt`,
-  ru: `${BASE}dicts/ru-basic.txt`
-};
-
-// Lightweight, permissive frequency lists (top 50k) from hermitdave/FrequencyWords (MIT).
-// These are fetched on-demand and cached locally for offline validation.
-const REMOTE_MAP: Record<Language, string> = {
-  en: 'https://raw.githubusercontent.com/hermitdave/FrequencyWords/master/content/2018/en/en_50k.txt',
-  ru: 'https://raw.githubusercontent.com/hermitdave/FrequencyWords/master/content/2018/ru/ru_50k.txt'
-};
-
 // Minimal word length (inclusive); users can adjust via UI.
 const DEFAULT_MIN_LENGTH = 2;
 let minLength = DEFAULT_MIN_LENGTH;
@@ -86,6 +92,11 @@ function normalize(word: string) {
   return word.trim().toUpperCase();
 }
 
+// Word lists spell with accents the tile set may not have (CANCIÓN); store them as they are played.
+function normalizeFor(word: string, language: Language) {
+  return foldToAlphabet(normalize(word), language);
+}
+
 export function setMinWordLength(length: number) {
   minLength = Math.max(1, Math.floor(length));
 }
@@ -102,41 +113,80 @@ export async function ensureDictionary(language: Language): Promise<DictionarySt
     return { language, available: true, source: 'memory', words: memoryCache[language]!.size };
   }
 
-  const stored = await loadDictionary(language);
-  if (stored) {
-    if (Array.isArray(stored)) {
-      // New structured format
-      const entries = stored as DictionaryEntry[];
-      const wordSet = new Set<string>();
-      const entryMap = new Map<string, DictionaryEntry>();
-
-      for (const entry of entries) {
-        const word = normalize(entry.word);
-        wordSet.add(word);
-        entryMap.set(word, entry);
-
-        // Also add plural and base forms to the word set for lookup
-        if (entry.plural) {
-          wordSet.add(normalize(entry.plural));
-        }
-        if (entry.base) {
-          wordSet.add(normalize(entry.base));
-        }
-        if (entry.forms) {
-          entry.forms.forEach(form => wordSet.add(normalize(form)));
-        }
-      }
+  const words = await loadStoredDictionary(language);
+  if (words) {
+    return { language, available: true, source: 'indexeddb', words: words.size };
+  }
 
-      memoryCache[language] = wordSet;
-      entryCache[language] = entryMap;
-    } else {
-      // Legacy string format
-      memoryCache[language] = toSet(stored as string);
+  return { language, available: false };
+}
+
+function languageOf(key: DictionaryKey): Language {
+  return key === 'ru-strict' ? 'ru' : key;
+}
+
+/** Every playable spelling in a structured dictionary: headwords plus their plurals, bases and forms. */
+function wordsFromEntries(entries: DictionaryEntry[], language: Language): Set<string> {
+  const wordSet = new Set<string>();
+  for (const entry of entries) {
+    wordSet.add(normalizeFor(entry.word, language));
+    if (entry.plural) wordSet.add(normalizeFor(entry.plural, language));
+    if (entry.base) wordSet.add(normalizeFor(entry.base, language));
+    if (entry.forms) {
+      entry.forms.forEach(form => wordSet.add(normalizeFor(form, language)));
     }
-    return { language, available: true, source: 'indexeddb', words: memoryCache[language]!.size };
   }
+  return wordSet;
+}
 
-  return { language, available: false };
+/**
+ * Packs dictionary data into a DAWG and stores it, with any structured entries split off
+ * into their own store so a cold start only has to read the graph.
+ */
+async function storeDictionary(key: DictionaryKey, data: DictionaryData): Promise<WordSet> {
+  const language = languageOf(key);
+  const words = Array.isArray(data) ? wordsFromEntries(data, language) : toSet(data, language);
+  const dawg = encodeDawg(words, languagePack(language).alphabet);
+  await saveDawg(key, dawg);
+  if (Array.isArray(data)) await saveDictionaryEntries(key, data);
+  delete entryCache[key];
+  return (memoryCache[key] = new DawgWordSet(dawg));
+}
+
+/**
+ * Loads a stored dictionary's DAWG. Dictionaries saved by older versions (JSON or plain text)
+ * are converted once and the old copy dropped; a graph packed for a different tile alphabet
+ * is re-packed from its own words.
+ */
+async function loadStoredDictionary(key: DictionaryKey): Promise<WordSet | null> {
+  const dawg = await loadDawg(key);
+  if (dawg) {
+    const words = new DawgWordSet(dawg);
+    const alphabet = languagePack(languageOf(key)).alphabet;
+    if (dawg.alphabet.join() === alphabet.join()) return (memoryCache[key] = words);
+    const repacked = encodeDawg(words, alphabet);
+    await saveDawg(key, repacked);
+    return (memoryCache[key] = new DawgWordSet(repacked));
+  }
+
+  const legacy = await loadDictionary(key);
+  if (!legacy) return null;
+  const words = await storeDictionary(key, legacy);
+  await deleteDictionary(key);
+  return words;
+}
+
+/** Entry metadata (part of speech, forms) for a dictionary, read from storage the first time it is needed. */
+async function entriesFor(key: DictionaryKey): Promise<Map<string, DictionaryEntry> | null> {
+  const cached = entryCache[key];
+  if (cached) return cached;
+  const entries = await loadDictionaryEntries(key);
+  if (!entries) return null;
+  const language = languageOf(key);
+  const entryMap = new Map<string, DictionaryEntry>();
+  for (const entry of entries) entryMap.set(normalizeFor(entry.word, language), entry);
+  entryCache[key] = entryMap;
+  return entryMap;
 }
 
 /**
@@ -204,38 +254,13 @@ export async function downloadDictionaryStrict(): Promise<DictionaryStatus> {
     return { language: 'ru', available: false };
   }
 
-  // Process and cache
-  if (Array.isArray(data)) {
-    const entries = data as DictionaryEntry[];
-    const wordSet = new Set<string>();
-    const entryMap = new Map<string, DictionaryEntry>();
-
-    for (const entry of entries) {
-      const word = normalize(entry.word);
-      wordSet.add(word);
-      entryMap.set(word, entry);
-
-      if (entry.plural) wordSet.add(normalize(entry.plural));
-      if (entry.base) wordSet.add(normalize(entry.base));
-      if (entry.forms) {
-        entry.forms.forEach(form => wordSet.add(normalize(form)));
-      }
-    }
-
-    memoryCache['ru-strict'] = wordSet;
-    entryCache['ru-strict'] = entryMap;
-  }
-
-  await saveDictionary('ru-strict', data);
-  return { language: 'ru', available: true, source: 'fetched', words: memoryCache['ru-strict']!.size };
+  const words = await storeDictionary('ru-strict', data);
+  return { language: 'ru', available: true, source: 'fetched', words: words.size };
 }
 
 export async function downloadDictionary(language: Language): Promise<DictionaryStatus> {
   // Try sources in order: compressed -> uncompressed -> legacy -> remote
-  const compressedUrl = COMPRESSED_FILE_MAP[language];
-  const jsonUrl = FILE_MAP[language];
-  const legacyUrl = LEGACY_FILE_MAP[language];
-  const remote = REMOTE_MAP[language];
+  const { compressed: compressedUrl, json: jsonUrl, wordLists } = dictionarySources(language);
 
   // Try compressed JSON first (smallest download)
   let data: DictionaryData | null = null;
@@ -258,7 +283,7 @@ export async function downloadDictionary(language: Language): Promise<Dictionary
 
   // Fall back to legacy text format
   if (!data) {
-    const text = await fetchFirstAvailable([legacyUrl, remote]);
+    const text = await fetchFirstAvailable(wordLists);
     if (text) {
       data = text;
     }
@@ -268,39 +293,13 @@ export async function downloadDictionary(language: Language): Promise<Dictionary
     return { language, available: false };
   }
 
-  // Process and cache
-  if (Array.isArray(data)) {
-    // New structured format
-    const entries = data as DictionaryEntry[];
-    const wordSet = new Set<string>();
-    const entryMap = new Map<string, DictionaryEntry>();
-
-    for (const entry of entries) {
-      const word = normalize(entry.word);
-      wordSet.add(word);
-      entryMap.set(word, entry);
-
-      if (entry.plural) wordSet.add(normalize(entry.plural));
-      if (entry.base) wordSet.add(normalize(entry.base));
-      if (entry.forms) {
-        entry.forms.forEach(form => wordSet.add(normalize(form)));
-      }
-    }
-
-    memoryCache[language] = wordSet;
-    entryCache[language] = entryMap;
-  } else {
-    // Legacy format
-    memoryCache[language] = toSet(data as string);
-  }
-
-  await saveDictionary(language, data);
-  return { language, available: true, source: 'fetched', words: memoryCache[language]!.size };
+  const words = await storeDictionary(language, data);
+  return { language, available: true, source: 'fetched', words: words.size };
 }
 
 export async function hasWord(word: string, language: Language): Promise<boolean> {
   const status = await ensureDictionary(language);
-  const norm = normalize(word);
+  const norm = normalizeFor(word, language);
   if (norm.length < minLength) return false;
 
   if (!status.available) {
@@ -333,7 +332,7 @@ export async function hasWord(word: string, language: Language): Promise<boolean
  *
  * Note: The returned Set is the internal cache. Treat it as read-only.
  */
-export async function getDictionaryWordSet(language: DictionaryKey): Promise<Set<string> | null> {
+export async function getDictionaryWordSet(language: DictionaryKey): Promise<WordSet | null> {
   const status = await ensureDictionaryByKey(language);
   if (!status.available) return null;
   return memoryCache[language] ?? null;
@@ -341,35 +340,51 @@ export async function getDictionaryWordSet(language: DictionaryKey): Promise<Set
 
 /**
  * Get detailed information about a word (POS, plural forms, etc.)
+ *
+ * Inflected forms are reported under the entry that lists them. For Russian, `variant`
+ * picks the word list the same way the game checks words; without it the full list is
+ * tried first and the strict list second.
  */
-export async function getWordInfo(word: string, language: Language): Promise<WordInfo | null> {
-  await ensureDictionary(language);
-  const norm = normalize(word);
-
-  if (!memoryCache[language]?.has(norm)) {
-    return null;
+export async function getWordInfo(
+  word: string,
+  language: Language,
+  variant?: 'full' | 'strict'
+): Promise<WordInfo | null> {
+  const norm = normalizeFor(word, language);
+  let keys: DictionaryKey[] = [language];
+  if (language === 'ru') {
+    keys = variant === 'strict' ? ['ru-strict'] : variant === 'full' ? ['ru'] : ['ru', 'ru-strict'];
   }
 
-  const entryMap = entryCache[language];
-  if (entryMap) {
-    const entry = entryMap.get(norm);
-    if (entry) {
+  for (const key of keys) {
+    await ensureDictionaryByKey(key);
+    if (!memoryCache[key]?.has(norm)) continue;
+
+    const entryMap = await entriesFor(key);
+    const match = entryMap ? findEntry(entryMap, norm, (w) => normalizeFor(w, language)) : null;
+    const note = key === 'ru-strict' ? explainStrictMatch(norm, match) : undefined;
+    if (match) {
+      const { entry, matchedAs } = match;
       return {
         word: entry.word,
         pos: entry.pos,
         plural: entry.plural,
         base: entry.base,
         forms: entry.forms,
+        source: key,
+        matchedAs,
+        note,
       };
     }
-  }
 
-  // Fallback: return basic info if structured data not available
-  return { word: norm };
+    // Fallback: return basic info if structured data not available
+    return { word: norm, source: key, note };
+  }
+  return null;
 }
 
 export function clearMemoryCache() {
-  (['en', 'ru'] as Language[]).forEach((lang) => {
+  LANGUAGES.forEach((lang) => {
     delete memoryCache[lang];
     delete entryCache[lang];
   });
@@ -386,43 +401,21 @@ export async function ensureDictionaryStrict(): Promise<DictionaryStatus> {
     return { language: 'ru', available: true, source: 'memory', words: memoryCache['ru-strict']!.size };
   }
 
-  const stored = await loadDictionary('ru-strict');
-  if (stored) {
-    if (Array.isArray(stored)) {
-      const entries = stored as DictionaryEntry[];
-      const wordSet = new Set<string>();
-      const entryMap = new Map<string, DictionaryEntry>();
-
-      for (const entry of entries) {
-        const word = normalize(entry.word);
-        wordSet.add(word);
-        entryMap.set(word, entry);
-
-        if (entry.plural) wordSet.add(normalize(entry.plural));
-        if (entry.base) wordSet.add(normalize(entry.base));
-        if (entry.forms) {
-          entry.forms.forEach(form => wordSet.add(normalize(form)));
-        }
-      }
-
-      memoryCache['ru-strict'] = wordSet;
-      entryCache['ru-strict'] = entryMap;
-    } else {
-      memoryCache['ru-strict'] = toSet(stored as string);
-    }
-    return { language: 'ru', available: true, source: 'indexeddb', words: memoryCache['ru-strict']!.size };
+  const words = await loadStoredDictionary('ru-strict');
+  if (words) {
+    return { language: 'ru', available: true, source: 'indexeddb', words: words.size };
   }
 
   return { language: 'ru', available: false };
 }
 
-function toSet(data: string) {
+function toSet(data: string, language?: Language) {
   const set = new Set<string>();
   data
     .split('\n')
     .map(extractWord)
     .filter(Boolean)
-    .forEach((w) => set.add(w as string));
+    .forEach((w) => set.add(language ? foldToAlphabet(w as string, language) : (w as string)));
   return set;
 }
 
@@ -444,8 +437,8 @@ function extractWord(line: string): string | null {
   // frequency files look like: "word 12345"
   const raw = line.trim().split(/\s+/)[0];
   if (!raw) return null;
-  // keep letters (Latin/Cyrillic); drop punctuation/numbers.
-  const cleaned = raw.replace(/[^A-Za-zА-Яа-яЁё]/g, '');
+  // keep letters (any script, so umlauts survive); drop punctuation/numbers.
+  const cleaned = raw.replace(/[^\p{L}]/gu, '');
   if (!cleaned) return null;
   return cleaned.toUpperCase();
 }
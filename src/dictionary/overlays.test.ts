@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyOverlays,
+  overlayRef,
+  parseOverlayWords,
+  parseSharedOverlay,
+  serializeOverlay,
+  withOverlays,
+  type WordOverlay
+} from './overlays';
+
+function overlay(allow: string[], block: string[], id = 'house'): WordOverlay {
+  return { id, name: 'House rules', language: 'en', allow, block, updatedAt: 0 };
+}
+
+describe('word overlays', () => {
+  it('parses typed lists into unique dictionary spellings', () => {
+    expect(parseOverlayWords('yeet, vibe\nYEET;  ok ', 'en')).toEqual(['OK', 'VIBE', 'YEET']);
+    expect(parseOverlayWords('canción', 'es')).toEqual(['CANCION']);
+  });
+
+  it('lets blocks win over allows and the dictionary', () => {
+    const lists = [overlay(['YEET', 'QI'], []), overlay([], ['QI', 'CAT'], 'strict')];
+    expect(applyOverlays('yeet', false, lists)).toBe(true);
+    expect(applyOverlays('QI', true, lists)).toBe(false);
+    expect(applyOverlays('CAT', true, lists)).toBe(false);
+    expect(applyOverlays('DOG', true, lists)).toBe(true);
+    expect(applyOverlays('DOG', false, [])).toBe(false);
+  });
+
+  it('lays lists over a word set', () => {
+    const words = withOverlays(new Set(['CAT', 'DOG', 'QI']), [overlay(['YEET', 'CAT'], ['QI'])]);
+    expect(words.has('YEET')).toBe(true);
+    expect(words.has('QI')).toBe(false);
+    expect(words.size).toBe(3);
+    expect([...words].sort()).toEqual(['CAT', 'DOG', 'YEET']);
+  });
+
+  it('fingerprints list contents, not order or name', () => {
+    const a = overlayRef(overlay(['A', 'B'], ['C']));
+    expect(overlayRef({ ...overlay(['B', 'A'], ['C']), name: 'Renamed' }).hash).toBe(a.hash);
+    expect(overlayRef(overlay(['A'], ['C'])).hash).not.toBe(a.hash);
+  });
+
+  it('shares a list as text and reads it back', () => {
+    const list = { ...overlay(['YEET'], ['QI'], '0b7f3c1e-5d2a-4c8e-9f41-2a6b8d0e7c35'), enabled: false };
+    expect(parseSharedOverlay(serializeOverlay(list), 42)).toEqual({ ...list, enabled: true, updatedAt: 42 });
+    expect(() => parseSharedOverlay('{"kind":"other"}')).toThrow(/not a word list/);
+    expect(() => parseSharedOverlay('S1:ABC')).toThrow(/not a word list/);
+    const foreign = JSON.stringify({ kind: 'scrabble-word-list', version: 1, list: { language: 'xx' } });
+    expect(() => parseSharedOverlay(foreign)).toThrow(/Unknown word list language/);
+  });
+
+  it('replaces shared ids that are not UUIDs', () => {
+    const hostile = { ...overlay(['YEET'], [], '"><img src=x onerror=alert(1)>'), enabled: true };
+    const parsed = parseSharedOverlay(serializeOverlay(hostile));
+    expect(parsed.id).not.toBe(hostile.id);
+    expect(parsed.id).toMatch(/^[0-9a-f-]{36}$/);
+  });
+});
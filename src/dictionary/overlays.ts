@@ -0,0 +1,104 @@
+import { foldToAlphabet, LANGUAGES } from '../core/languagePacks';
+import type { Language, WordSet } from '../core/types';
+
+/**
+ * A house-rule word list laid over a dictionary: `allow` adds words (slang the group
+ * accepts), `block` removes them. Blocking wins when lists disagree.
+ */
+export interface WordOverlay {
+  id: string;
+  name: string;
+  language: Language;
+  allow: string[];
+  block: string[];
+  /** Offered as on when starting the next session. */
+  enabled?: boolean;
+  updatedAt: number;
+}
+
+/** What a session records about a list: enough to tell whether both peers hold the same one. */
+export interface WordOverlayRef {
+  id: string;
+  name: string;
+  hash: string;
+}
+
+/** Words typed into a list, one per line or separated by commas, in dictionary spelling. */
+export function parseOverlayWords(text: string, language: Language): string[] {
+  const words = text
+    .split(/[\s,;]+/u)
+    .map((w) => foldToAlphabet(w.trim().toUpperCase(), language))
+    .filter(Boolean);
+  return Array.from(new Set(words)).sort();
+}
+
+export function overlayRef(overlay: WordOverlay): WordOverlayRef {
+  const content = [overlay.language, [...overlay.allow].sort().join(','), [...overlay.block].sort().join(',')].join('|');
+  // FNV-1a: not for security, just a cheap fingerprint of the list contents.
+  let h = 0x811c9dc5;
+  for (let i = 0; i < content.length; i += 1) {
+    h ^= content.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return { id: overlay.id, name: overlay.name, hash: (h >>> 0).toString(16).padStart(8, '0') };
+}
+
+/** The verdict for `word` once house rules are applied to the dictionary's answer. */
+export function applyOverlays(word: string, accepted: boolean, overlays: WordOverlay[]): boolean {
+  if (!overlays.length) return accepted;
+  const w = word.trim().toUpperCase();
+  if (overlays.some((o) => o.block.includes(w))) return false;
+  if (overlays.some((o) => o.allow.includes(w))) return true;
+  return accepted;
+}
+
+/** A dictionary's word set with house-rule lists applied; the original set when there are none. */
+export function withOverlays(words: WordSet, overlays: WordOverlay[]): WordSet {
+  if (!overlays.length) return words;
+  const blocked = new Set(overlays.flatMap((o) => o.block));
+  const added = new Set(overlays.flatMap((o) => o.allow).filter((w) => !blocked.has(w) && !words.has(w)));
+  const removed = [...blocked].filter((w) => words.has(w)).length;
+  return {
+    size: words.size - removed + added.size,
+    has: (word) => !blocked.has(word) && (added.has(word) || words.has(word)),
+    *[Symbol.iterator]() {
+      for (const word of words) if (!blocked.has(word)) yield word;
+      yield* added;
+    }
+  };
+}
+
+const SHARE_KIND = 'scrabble-word-list';
+// Shared ids end up in the DOM and in storage keys, so anything but a UUID is replaced.
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/** A list as text for sending to another device (by QR); `parseSharedOverlay` reads it back. */
+export function serializeOverlay(overlay: WordOverlay): string {
+  const { id, name, language, allow, block } = overlay;
+  return JSON.stringify({ kind: SHARE_KIND, version: 1, list: { id, name, language, allow, block } });
+}
+
+/** Reads a shared list, re-checking every word; throws with a readable message on anything else. */
+export function parseSharedOverlay(text: string, now = Date.now()): WordOverlay {
+  let data: { kind?: unknown; version?: unknown; list?: Partial<Record<keyof WordOverlay, unknown>> };
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('That code is not a word list.');
+  }
+  const list = data?.kind === SHARE_KIND ? data.list : undefined;
+  if (!list) throw new Error('That code is not a word list.');
+  if (data.version !== 1) throw new Error('That word list comes from a newer version of the app.');
+  const language = list.language as Language;
+  if (!LANGUAGES.includes(language)) throw new Error(`Unknown word list language "${String(list.language)}".`);
+  const words = (value: unknown) => parseOverlayWords(Array.isArray(value) ? value.join('\n') : '', language);
+  return {
+    id: typeof list.id === 'string' && UUID_PATTERN.test(list.id) ? list.id : crypto.randomUUID(),
+    name: typeof list.name === 'string' && list.name.trim() ? list.name.trim() : 'Shared list',
+    language,
+    allow: words(list.allow),
+    block: words(list.block),
+    enabled: true,
+    updatedAt: now
+  };
+}
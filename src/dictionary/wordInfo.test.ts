@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import type { DictionaryEntry } from '../storage/indexedDb';
+import { explainStrictMatch, findEntry } from './wordInfo';
+
+const upper = (w: string) => w.toUpperCase();
+
+function entries(list: DictionaryEntry[]): Map<string, DictionaryEntry> {
+  return new Map(list.map((e) => [e.word, e]));
+}
+
+describe('word info', () => {
+  const map = entries([
+    { word: 'КОТ', pos: ['noun'], plural: 'коты' },
+    { word: 'БЕЖАТЬ', pos: ['verb'], forms: ['бегу', 'бежит'] },
+    { word: 'БЕГУН', pos: ['noun'], plural: 'бегуны', base: 'бежать' }
+  ]);
+
+  it('finds the entry that lists an inflected form', () => {
+    expect(findEntry(map, 'КОТ', upper)).toMatchObject({ entry: { word: 'КОТ' }, matchedAs: 'word' });
+    expect(findEntry(map, 'КОТЫ', upper)).toMatchObject({ entry: { word: 'КОТ' }, matchedAs: 'plural' });
+    expect(findEntry(map, 'БЕГУ', upper)).toMatchObject({ entry: { word: 'БЕЖАТЬ' }, matchedAs: 'form' });
+    // A headword always wins over another entry naming it as its base.
+    expect(findEntry(map, 'БЕЖАТЬ', upper)?.matchedAs).toBe('word');
+    expect(findEntry(map, 'СОБАКА', upper)).toBeNull();
+  });
+
+  it('explains why the strict list accepts a form', () => {
+    expect(explainStrictMatch('КОТЫ', findEntry(map, 'КОТЫ', upper))).toContain('nominative plural of КОТ');
+    expect(explainStrictMatch('КОТ', findEntry(map, 'КОТ', upper))).toContain('nominative singular');
+    expect(explainStrictMatch('БЕЖАТЬ', findEntry(map, 'БЕЖАТЬ', upper))).toContain('dictionary form');
+    expect(explainStrictMatch('ДОМ', null)).toContain('no grammar notes');
+  });
+});
@@ -0,0 +1,64 @@
+import type { DictionaryEntry } from '../storage/indexedDb';
+
+/** How a looked-up word relates to the dictionary entry it was found under. */
+export type WordMatch = 'word' | 'plural' | 'base' | 'form';
+
+export interface EntryMatch {
+  entry: DictionaryEntry;
+  matchedAs: WordMatch;
+}
+
+// Entries are keyed by headword; plurals, bases and other forms point back to theirs.
+const formIndexes = new WeakMap<Map<string, DictionaryEntry>, Map<string, EntryMatch>>();
+
+/**
+ * Finds the entry that makes `word` (already normalized) valid: its own entry when it is a
+ * headword, otherwise the entry that lists it as a plural, base or other form.
+ */
+export function findEntry(
+  entries: Map<string, DictionaryEntry>,
+  word: string,
+  normalize: (word: string) => string
+): EntryMatch | null {
+  const own = entries.get(word);
+  if (own) return { entry: own, matchedAs: 'word' };
+
+  let index = formIndexes.get(entries);
+  if (!index) {
+    index = new Map();
+    for (const entry of entries.values()) {
+      const add = (form: string | undefined, matchedAs: WordMatch) => {
+        if (!form) return;
+        const key = normalize(form);
+        if (!entries.has(key) && !index!.has(key)) index!.set(key, { entry, matchedAs });
+      };
+      add(entry.plural, 'plural');
+      add(entry.base, 'base');
+      entry.forms?.forEach((form) => add(form, 'form'));
+    }
+    formIndexes.set(entries, index);
+  }
+  return index.get(word) ?? null;
+}
+
+/**
+ * Why the strict Russian list accepts a word. It keeps nouns in the nominative singular
+ * and plural and every other part of speech in its dictionary form only.
+ */
+export function explainStrictMatch(word: string, match: EntryMatch | null): string {
+  if (!match) return `${word} is in the strict list, which has no grammar notes for it.`;
+  const { entry, matchedAs } = match;
+  const isNoun = entry.pos?.includes('noun') ?? false;
+  if (matchedAs === 'plural') {
+    return `${word} is the nominative plural of ${entry.word}. The strict list accepts nouns in the nominative singular and plural.`;
+  }
+  if (matchedAs === 'base') {
+    return `${word} is the dictionary form behind ${entry.word}. The strict list accepts dictionary forms.`;
+  }
+  if (matchedAs === 'form') {
+    return `${word} is listed as a form of ${entry.word}.`;
+  }
+  return isNoun
+    ? `${word} is a noun in the nominative singular, which the strict list accepts.`
+    : `${word} is a dictionary form, which the strict list accepts for every part of speech.`;
+}
@@ -1,6 +1,17 @@
 import './style.css';
-import { BOARD_SIZE, ScrabbleGame, type WordChecker } from './core/game';
-import type { GameEndReason, GameState, Language, Placement, Tile } from './core/types';
+import { ScrabbleGame, type WordChecker } from './core/game';
+import type {
+  ChallengeRule,
+  GameEndReason,
+  GameEndedInfo,
+  GameHistoryEntry,
+  GameState,
+  HintLevel,
+  Language,
+  MoveResult,
+  Placement,
+  Tile
+} from './core/types';
 import { getInitialBagSize } from './core/tiles';
 import { reconcileOrder, shuffleCopy } from './ui/rackOrder';
 import {
@@ -9,25 +20,68 @@ import {
   ensureDictionary,
   ensureDictionaryStrict,
   getDictionaryWordSet,
+  getWordInfo,
   hasWord,
-  setMinWordLength
+  setMinWordLength,
+  type WordInfo
 } from './dictionary/dictionaryService';
-import { createClient, createHost, type P2PCallbacks, type P2PConnection } from './network/p2p';
-import { toQrDataUrl } from './network/qr';
+import { createBroadcastClient, createBroadcastHost } from './network/broadcast';
+import { connectViaRelay, createClient, createHost, type P2PCallbacks } from './network/p2p';
+import { looksLikeHandshakeCode } from './network/sdpCodec';
+import { createRoomCode, normalizeRoomCode } from './network/signaling';
+import type { Transport } from './network/transport';
+import { FountainDecoder, isFountainFrame } from './network/fountain';
+import { showQrCode, stopQrCode, unpackQrText } from './network/qr';
 import { allPlayersReady, maybeComputeGameStartAt } from './network/readySync';
-import { clearSnapshot, loadSnapshot, saveSnapshot } from './storage/indexedDb';
+import {
+  clearSnapshot,
+  deleteWordOverlay,
+  listWordOverlays,
+  loadSnapshot,
+  saveSnapshot,
+  saveWordOverlay
+} from './storage/indexedDb';
 import jsQR from 'jsqr';
 import { canStartInitialTurnTimer } from './core/sessionTimer';
 import { applyActionButtonsStateToDom } from './ui/actionButtonsState';
+import { redactStateFor, visibleBagCount, visibleRackSize } from './network/redact';
+import { adjudicate, parseJudgeInput } from './dictionary/adjudicator';
+import {
+  applyOverlays,
+  overlayRef,
+  parseOverlayWords,
+  parseSharedOverlay,
+  serializeOverlay,
+  withOverlays,
+  type WordOverlay,
+  type WordOverlayRef
+} from './dictionary/overlays';
+import { sortFoundWords, type FoundWord, type WordFinderQuery, type WordFinderSort, type WordHooks } from './core/wordFinder';
+import type { WordFinderResponse } from './workers/wordFinder.worker';
+import { buildReplay, type Replay, type ReplayFrame } from './core/replay';
+import { exportGcg, importGcg, type GcgGame } from './core/gcg';
+import { BOT_DIFFICULTY_LABELS, effectiveChallengeRule, type BotAction, type BotDifficulty } from './core/bot';
+import type { BotMoveResponse } from './workers/bot.worker';
+import type { GameAnalysis } from './core/analysis';
+import { HINT_LEVEL_LABELS, hintsRemaining } from './core/hints';
+import type { GeneratedMove } from './core/moveGenerator';
+import { languagePack, LANGUAGES } from './core/languagePacks';
+import { BOARD_LAYOUTS, layoutFor, parseBoardLayout, premiumMapFor, STANDARD_LAYOUT, type BoardLayout } from './core/boardLayout';
+import type { HintResponse } from './workers/hint.worker';
+import type { AnalysisResponse } from './workers/analysis.worker';
 
 declare const __APP_VERSION__: string;
 
-type Mode = 'solo' | 'host' | 'client';
+type Mode = 'solo' | 'local' | 'host' | 'client';
 
 interface SessionMeta {
   mode: Mode;
   language: Language;
   isHost: boolean;
+  /**
+   * In pass-and-play ('local') sessions this follows the player on turn,
+   * since everyone shares the device.
+   */
   localPlayerId: string;
   remotePlayerId?: string;
   sessionId: string;
@@ -42,6 +96,12 @@ interface SessionMeta {
    * Only applies when language is 'ru'
    */
   russianDictionaryVariant?: 'full' | 'strict';
+  /**
+   * Solo only: the computer opponent's player id and strength.
+   * Absent for sandbox solo games (single player) and all P2P sessions.
+   */
+  botPlayerId?: string;
+  botDifficulty?: BotDifficulty;
   /**
    * Pre-game sync (P2P only): both users must click "Ready".
    *
@@ -52,12 +112,25 @@ interface SessionMeta {
   readyState?: Record<string, boolean>;
   gameStartAt?: number | null;
   rematch?: { requestedBy: Record<string, boolean>; at: number };
+  /**
+   * Outstanding takeback request (host is authoritative).
+   * Only valid while `moveNumber` still matches the game state.
+   */
+  takeback?: { requestedBy: string; moveNumber: number; at: number };
+  /** Hints each player may use per game (0 or absent: hints off). Usage is counted from history. */
+  hintAllowance?: number;
+  /**
+   * House-rule word lists in force (allow/block overlays on the dictionary).
+   * The lists themselves travel with SYNC_STATE so both peers judge words the same way.
+   */
+  wordOverlays?: WordOverlayRef[];
 }
 
 interface SnapshotPayload {
   state: GameState;
   meta: SessionMeta;
   labels: Record<string, string>;
+  overlays?: WordOverlay[];
 }
 
 type TurnEventType = 'timeout';
@@ -74,22 +147,38 @@ interface GameOverEvent {
   at: number;
   moveNumber: number;
   finalScores: Record<string, number>;
+  wentOut?: GameEndedInfo['wentOut'];
 }
 
 type ActionMessage =
   | { type: 'ACTION_MOVE'; placements: Placement[]; playerId: string }
   | { type: 'ACTION_PASS'; playerId: string }
   | { type: 'ACTION_EXCHANGE'; playerId: string; tileIds: string[] }
+  | { type: 'ACTION_CHALLENGE'; playerId: string }
+  | { type: 'ACTION_ACCEPT_PLAY'; playerId: string }
+  | { type: 'ACTION_TAKEBACK_REQUEST'; playerId: string; moveNumber: number }
+  | { type: 'ACTION_TAKEBACK_RESPONSE'; playerId: string; moveNumber: number; accepted: boolean }
+  | { type: 'ACTION_HINT'; playerId: string; level: HintLevel }
   | { type: 'ACTION_REMATCH_REQUEST'; playerId: string; at: number }
   | { type: 'DRAFT_PLACEMENTS'; placements: Placement[]; playerId: string; moveNumber: number }
   | { type: 'PLAYER_READY'; playerId: string; ready: boolean }
   | { type: 'REQUEST_SYNC' }
-  | { type: 'SYNC_STATE'; state: GameState; meta: SessionMeta; labels: Record<string, string> };
+  | {
+    type: 'SYNC_STATE';
+    state: GameState;
+    meta: SessionMeta;
+    labels: Record<string, string>;
+    overlays?: WordOverlay[];
+  };
 
 const BASE_PATH = import.meta.env.BASE_URL ?? '/';
+const RELAY_URL_KEY = 'scrabble.relayUrl';
 const game = new ScrabbleGame();
 const READY_GRACE_MS = 3000;
 const READY_TICK_MS = 200;
+const BOT_PLAYER_ID = 'bot';
+// Keep the computer's reply from landing instantly so the human can follow the turn change.
+const BOT_MIN_THINK_MS = 700;
 
 const app = document.querySelector<HTMLDivElement>('#app')!;
 app.innerHTML = `
@@ -108,6 +197,8 @@ app.innerHTML = `
         </div>
         <div class="row gap wrap">
           <button id="force-reload" class="ghost">Update Game</button>
+          <button id="open-word-judge" class="ghost">Word judge</button>
+          <button id="open-study" class="ghost">Study</button>
           <button id="toggle-setup" class="ghost">Hide setup</button>
         </div>
       </div>
@@ -118,12 +209,12 @@ app.innerHTML = `
         <div class="row wrap gap">
           <span class="label">Dictionaries</span>
           <button class="ghost" id="refresh-dicts">Re-check</button>
-          <button id="download-en" class="ghost">
-            EN pack <span id="dict-en-icon" aria-label="English dictionary status">…</span>
-          </button>
-          <button id="download-ru" class="ghost">
-            RU pack <span id="dict-ru-icon" aria-label="Russian dictionary status">…</span>
-          </button>
+          ${LANGUAGES.map((language) => {
+            const pack = languagePack(language);
+            return `<button class="ghost" data-download-language="${language}">
+            ${pack.label} pack <span data-dict-icon="${language}" aria-label="${pack.name} dictionary status">…</span>
+          </button>`;
+          }).join('')}
           <button id="download-ru-strict" class="ghost">
             RU strict <span id="dict-ru-strict-icon" aria-label="Russian strict dictionary status">…</span>
           </button>
@@ -133,11 +224,12 @@ app.innerHTML = `
       <div class="card">
         <div class="card-head">
           <h3>Session</h3>
-          <span class="hint">Solo, Host (offer), or Join (answer)</span>
+          <span class="hint">Solo, Pass &amp; play, Host (offer), or Join (answer)</span>
         </div>
         <div class="row wrap gap">
           <div class="segmented" id="mode-tabs">
             <button data-mode="solo" class="active">Solo</button>
+            <button data-mode="local">Pass &amp; play</button>
             <button data-mode="host">Host</button>
             <button data-mode="client">Join</button>
           </div>
@@ -149,11 +241,28 @@ app.innerHTML = `
             <span class="label">Partner name</span>
             <input id="peer-name" value="Player 2" />
           </label>
+          <div class="stack flex1" id="local-players" style="display: none;">
+            <span class="label">Players (2–4, in turn order)</span>
+            <div class="row gap wrap">
+              <input class="local-player-name" value="Player 1" />
+              <input class="local-player-name" value="Player 2" />
+              <input class="local-player-name" placeholder="Player 3 (optional)" />
+              <input class="local-player-name" placeholder="Player 4 (optional)" />
+            </div>
+          </div>
+          <label class="stack" id="bot-opponent">
+            <span class="label">Opponent</span>
+            <select id="bot-difficulty">
+              <option value="">None (sandbox)</option>
+              <option value="easy">Computer — Easy</option>
+              <option value="medium" selected>Computer — Medium</option>
+              <option value="hard">Computer — Hard</option>
+            </select>
+          </label>
           <label class="stack" id="session-language">
             <span class="label">Session language</span>
             <select id="language">
-              <option value="en">English</option>
-              <option value="ru">Русский</option>
+              ${LANGUAGES.map((language) => `<option value="${language}">${languagePack(language).name}</option>`).join('')}
             </select>
           </label>
           <label class="stack" id="russian-variant" style="display: none;">
@@ -164,6 +273,57 @@ app.innerHTML = `
             </select>
             <p class="hint">Full: all inflected forms. Strict: nouns nominative+plural only, others base forms.</p>
           </label>
+          <label class="stack" id="challenge-rule-wrapper">
+            <span class="label">Word check</span>
+            <select id="challenge-rule">
+              <option value="off">Instant (reject invalid words)</option>
+              <option value="double">Double challenge</option>
+              <option value="single">Single challenge</option>
+            </select>
+            <p class="hint">Challenge: plays land unchecked; the next player may challenge them.</p>
+          </label>
+          <label class="stack" id="hint-allowance-wrapper">
+            <span class="label">Hints per player</span>
+            <select id="hint-allowance">
+              <option value="0">Off</option>
+              <option value="1">1</option>
+              <option value="3" selected>3</option>
+              <option value="5">5</option>
+              <option value="10">10</option>
+            </select>
+            <p class="hint">Each hint reveals a square, then the word, then the tiles. Opponents see when one is used.</p>
+          </label>
+          <div class="stack" id="board-layout-wrapper">
+            <label class="stack">
+              <span class="label">Board</span>
+              <select id="board-layout">
+                ${BOARD_LAYOUTS.map((layout) => `<option value="${layout.id}">${layout.name}</option>`).join('')}
+                <option value="custom">Custom (JSON file)…</option>
+              </select>
+            </label>
+            <input id="board-layout-file" type="file" accept=".json,application/json" hidden />
+            <p class="hint" id="board-layout-hint">Custom boards are read from a JSON file with size, center and premium squares.</p>
+          </div>
+          <div class="stack" id="word-lists-wrapper">
+            <span class="label">House-rule word lists</span>
+            <div id="word-lists" class="word-lists"></div>
+            <div class="row gap">
+              <button id="word-list-scan" class="ghost">Scan a shared list</button>
+            </div>
+            <details id="word-list-editor" class="word-list-editor">
+              <summary id="word-list-editor-title">New list</summary>
+              <div class="stack gap">
+                <input id="word-list-name" placeholder="List name" />
+                <textarea id="word-list-allow" rows="2" placeholder="Words to allow (slang the group accepts)"></textarea>
+                <textarea id="word-list-block" rows="2" placeholder="Words to block"></textarea>
+                <div class="row gap">
+                  <button id="word-list-save" class="ghost">Save list</button>
+                  <button id="word-list-cancel" class="ghost">Cancel</button>
+                </div>
+              </div>
+            </details>
+            <p class="hint">Checked lists for the game language apply to the next game and are sent to your opponent. Blocking wins over allowing.</p>
+          </div>
           <label class="stack">
             <span class="label">Minimum word length</span>
             <input id="min-length" type="number" min="1" value="2" />
@@ -204,6 +364,7 @@ app.innerHTML = `
             <textarea id="offer-text" rows="3" readonly></textarea>
             <div class="row gap wrap">
               <button id="copy-offer" class="ghost">Copy</button>
+              <button id="host-tab" class="ghost">Play with another tab</button>
             </div>
           </div>
           <div class="stack flex1">
@@ -231,6 +392,7 @@ app.innerHTML = `
             <textarea id="host-offer-input" rows="3" placeholder="Scan/paste host offer"></textarea>
             <div class="row gap wrap">
               <button id="scan-offer" class="ghost">Scan QR</button>
+              <button id="join-tab" class="ghost">Join a host tab</button>
             </div>
           </div>
           <div class="stack flex1">
@@ -246,6 +408,27 @@ app.innerHTML = `
           </div>
         </div>
       </div>
+
+      <div class="card" id="relay-handshake">
+        <div class="card-head">
+          <h3>Room Code</h3>
+          <span class="hint">Optional: exchange offer and answer through a signaling relay</span>
+        </div>
+        <div class="row wrap gap">
+          <div class="stack flex1">
+            <span class="label">Relay address</span>
+            <input id="relay-url" placeholder="wss://relay.example.org" />
+          </div>
+          <div class="stack flex1">
+            <span class="label">Room code</span>
+            <div class="row gap">
+              <input id="room-code" placeholder="K7QM-X2PD" autocapitalize="characters" spellcheck="false" />
+              <button id="room-connect" class="ghost">Open room</button>
+            </div>
+          </div>
+        </div>
+        <p class="hint">Host your own relay with <code>npm run signal</code>. Copy/paste and QR work without one.</p>
+      </div>
     </section>
 
     <section class="cards">
@@ -261,6 +444,19 @@ app.innerHTML = `
             <span id="endgame-scan-status" class="pill" style="display: none"></span>
           </div>
         </div>
+        <div id="replay-bar" class="replay-bar" style="display: none;">
+          <div class="row gap">
+            <button id="replay-first" class="ghost" aria-label="First turn">⏮</button>
+            <button id="replay-prev" class="ghost" aria-label="Previous turn">◀</button>
+            <button id="replay-next" class="ghost" aria-label="Next turn">▶</button>
+            <button id="replay-last" class="ghost" aria-label="Last turn">⏭</button>
+          </div>
+          <div class="replay-text">
+            <strong id="replay-label"></strong>
+            <span id="replay-scores" class="hint"></span>
+          </div>
+          <button id="replay-exit" class="ghost">Exit replay</button>
+        </div>
         <div id="toast" class="toast" role="status" aria-live="polite" style="display: none"></div>
         <div id="gameover-banner" class="gameover-banner" style="display: none;" aria-live="polite">
           <div class="gameover-banner-inner">
@@ -272,6 +468,7 @@ app.innerHTML = `
             <div class="row gap wrap">
               <button id="rematch-btn-banner" class="primary">Rematch</button>
               <button id="show-results-btn" class="ghost">Results</button>
+              <button id="replay-btn-banner" class="ghost">Replay</button>
             </div>
           </div>
         </div>
@@ -298,10 +495,13 @@ app.innerHTML = `
             <p id="gameover-reason" class="hint"></p>
             <div id="gameover-scores" class="gameover-scores"></div>
             <div id="gameover-stats" class="gameover-stats"></div>
+            <div id="gameover-analysis" class="gameover-analysis" style="display: none;"></div>
             <p id="rematch-status" class="hint" style="margin: 0.75rem 0 0;"></p>
             <div class="row gap wrap" style="justify-content: center; margin-top: 1rem;">
               <button id="rematch-btn-overlay" class="primary">Rematch</button>
               <button id="view-board-btn" class="ghost">View board</button>
+              <button id="replay-btn-overlay" class="ghost">Replay</button>
+              <button id="analyze-btn" class="ghost" title="Find the best move available on every turn">Analyze</button>
             </div>
           </div>
         </div>
@@ -316,10 +516,20 @@ app.innerHTML = `
         <div id="rack" class="rack"></div>
         <div class="row wrap gap">
           <button id="confirm-move" class="primary">Confirm move</button>
+          <button id="hint-btn" class="ghost" style="display: none;">Hint</button>
           <button id="clear-placements" class="ghost">Clear placements</button>
           <button id="mix-rack" class="ghost" title="Shuffle your rack tiles">Mix</button>
           <button id="pass-btn" class="ghost">Pass</button>
           <button id="exchange-btn" class="ghost">Replace & pass</button>
+          <button id="challenge-btn" class="ghost danger" style="display: none;">Challenge</button>
+          <button id="accept-play-btn" class="ghost" style="display: none;">Accept play</button>
+          <button id="takeback-btn" class="ghost" title="Undo your last turn (needs your opponent's OK)">Take back</button>
+        </div>
+        <p id="hint-status" class="hint" style="display: none;"></p>
+        <div id="takeback-prompt" class="row gap wrap" style="display: none;">
+          <span id="takeback-prompt-text" class="hint"></span>
+          <button id="takeback-accept" class="primary">Allow</button>
+          <button id="takeback-decline" class="ghost">Decline</button>
         </div>
       </div>
 
@@ -348,10 +558,85 @@ app.innerHTML = `
             <span class="label">Letters left in bag</span>
             <strong id="bag-count" class="bag-count"></strong>
           </div>
+          <div class="stats-row">
+            <span class="label">Step through the game so far</span>
+            <button id="replay-btn" class="ghost">Replay</button>
+          </div>
+          <div class="stats-row">
+            <span class="label">Game record (.gcg)</span>
+            <div class="row gap">
+              <button id="export-gcg" class="ghost">Export</button>
+              <button id="import-gcg-btn" class="ghost">Import</button>
+              <input id="import-gcg" type="file" accept=".gcg,text/plain" hidden />
+            </div>
+          </div>
           <div id="move-history" class="move-history"></div>
         </details>
       </div>
     </section>
+    <div id="handoff-overlay" class="handoff-overlay" style="display: none;" aria-hidden="true">
+      <div class="ready-content">
+        <h3 id="handoff-title">Pass the device</h3>
+        <p class="hint">Tiles stay hidden until the next player is holding the device.</p>
+        <button id="handoff-btn" class="primary">Show my tiles</button>
+      </div>
+    </div>
+    <div id="qr-share-overlay" class="word-info-overlay" style="display: none;" aria-hidden="true">
+      <div class="word-info-content" role="dialog" aria-labelledby="qr-share-title">
+        <h3 id="qr-share-title">Share</h3>
+        <p class="hint">Scan this with the other device. Large items play as a looping animation; keep the camera on it until the progress reaches the end.</p>
+        <div class="qr-stack">
+          <img id="qr-share-img" alt="Share QR" />
+        </div>
+        <button id="qr-share-close" class="ghost">Close</button>
+      </div>
+    </div>
+    <div id="word-info-overlay" class="word-info-overlay" style="display: none;" aria-hidden="true">
+      <div class="word-info-content" role="dialog" aria-labelledby="word-info-title">
+        <h3 id="word-info-title">Words</h3>
+        <div id="word-info-body"></div>
+        <button id="word-info-close" class="ghost">Close</button>
+      </div>
+    </div>
+    <div id="word-judge-overlay" class="word-info-overlay" style="display: none;" aria-hidden="true">
+      <div class="word-info-content" role="dialog" aria-labelledby="word-judge-title">
+        <h3 id="word-judge-title">Word judge</h3>
+        <p id="word-judge-dict" class="hint"></p>
+        <form id="word-judge-form" class="row gap">
+          <input id="word-judge-input" class="flex1" autocomplete="off" autocapitalize="characters" spellcheck="false" placeholder="One or more words" />
+          <button type="submit" class="primary">Judge</button>
+        </form>
+        <div id="word-judge-result"></div>
+        <button id="word-judge-close" class="ghost">Close</button>
+      </div>
+    </div>
+    <div id="study-overlay" class="word-info-overlay" style="display: none;" aria-hidden="true">
+      <div class="word-info-content" role="dialog" aria-labelledby="study-title">
+        <h3 id="study-title">Study</h3>
+        <p id="study-dict" class="hint"></p>
+        <form id="study-form" class="stack gap">
+          <div class="row gap">
+            <select id="study-kind" class="flex1" aria-label="Search">
+              <option value="anagram">Anagrams of a rack</option>
+              <option value="pattern">Pattern</option>
+              <option value="regex">Regular expression</option>
+              <option value="contains">Words containing</option>
+              <option value="hooks">Hooks</option>
+            </select>
+            <select id="study-sort" aria-label="Sort">
+              <option value="length">Longest first</option>
+              <option value="score">Highest score</option>
+            </select>
+          </div>
+          <div class="row gap">
+            <input id="study-input" class="flex1" autocomplete="off" autocapitalize="characters" spellcheck="false" />
+            <button type="submit" class="primary">Find</button>
+          </div>
+        </form>
+        <div id="study-results"></div>
+        <button id="study-close" class="ghost">Close</button>
+      </div>
+    </div>
   </div>
 `;
 
@@ -373,6 +658,36 @@ const timerInput = document.querySelector<HTMLInputElement>('#turn-timer')!;
 const modeTabs = document.querySelector<HTMLDivElement>('#mode-tabs')!;
 const meInput = document.querySelector<HTMLInputElement>('#me-name')!;
 const peerInput = document.querySelector<HTMLInputElement>('#peer-name')!;
+const botDifficultySelect = document.querySelector<HTMLSelectElement>('#bot-difficulty')!;
+const localPlayersWrapper = document.querySelector<HTMLElement>('#local-players')!;
+const localPlayerInputs = Array.from(document.querySelectorAll<HTMLInputElement>('.local-player-name'));
+const handoffOverlay = document.querySelector<HTMLDivElement>('#handoff-overlay')!;
+const handoffTitleEl = document.querySelector<HTMLHeadingElement>('#handoff-title')!;
+const handoffBtn = document.querySelector<HTMLButtonElement>('#handoff-btn')!;
+const qrShareOverlay = document.querySelector<HTMLDivElement>('#qr-share-overlay')!;
+const qrShareTitle = document.querySelector<HTMLHeadingElement>('#qr-share-title')!;
+const qrShareImg = document.querySelector<HTMLImageElement>('#qr-share-img')!;
+const qrShareCloseBtn = document.querySelector<HTMLButtonElement>('#qr-share-close')!;
+const wordInfoOverlay = document.querySelector<HTMLDivElement>('#word-info-overlay')!;
+const wordInfoTitleEl = document.querySelector<HTMLHeadingElement>('#word-info-title')!;
+const wordInfoBody = document.querySelector<HTMLDivElement>('#word-info-body')!;
+const wordInfoCloseBtn = document.querySelector<HTMLButtonElement>('#word-info-close')!;
+const openWordJudgeBtn = document.querySelector<HTMLButtonElement>('#open-word-judge')!;
+const wordJudgeOverlay = document.querySelector<HTMLDivElement>('#word-judge-overlay')!;
+const wordJudgeDictEl = document.querySelector<HTMLParagraphElement>('#word-judge-dict')!;
+const wordJudgeForm = document.querySelector<HTMLFormElement>('#word-judge-form')!;
+const wordJudgeInput = document.querySelector<HTMLInputElement>('#word-judge-input')!;
+const wordJudgeResult = document.querySelector<HTMLDivElement>('#word-judge-result')!;
+const wordJudgeCloseBtn = document.querySelector<HTMLButtonElement>('#word-judge-close')!;
+const openStudyBtn = document.querySelector<HTMLButtonElement>('#open-study')!;
+const studyOverlay = document.querySelector<HTMLDivElement>('#study-overlay')!;
+const studyDictEl = document.querySelector<HTMLParagraphElement>('#study-dict')!;
+const studyForm = document.querySelector<HTMLFormElement>('#study-form')!;
+const studyKindSelect = document.querySelector<HTMLSelectElement>('#study-kind')!;
+const studySortSelect = document.querySelector<HTMLSelectElement>('#study-sort')!;
+const studyInput = document.querySelector<HTMLInputElement>('#study-input')!;
+const studyResultsEl = document.querySelector<HTMLDivElement>('#study-results')!;
+const studyCloseBtn = document.querySelector<HTMLButtonElement>('#study-close')!;
 const boardEl = document.querySelector<HTMLDivElement>('#board')!;
 const rackEl = document.querySelector<HTMLDivElement>('#rack')!;
 const rackOwnerEl = document.querySelector<HTMLSpanElement>('#rack-owner')!;
@@ -388,12 +703,38 @@ const bagCountEl = document.querySelector<HTMLElement>('#bag-count')!;
 const moveHistoryEl = document.querySelector<HTMLDivElement>('#move-history')!;
 const settingsSection = document.querySelector<HTMLElement>('#settings-section')!;
 const confirmMoveBtn = document.querySelector<HTMLButtonElement>('#confirm-move')!;
+const hintBtn = document.querySelector<HTMLButtonElement>('#hint-btn')!;
+const hintStatusEl = document.querySelector<HTMLParagraphElement>('#hint-status')!;
 const clearPlacementsBtn = document.querySelector<HTMLButtonElement>('#clear-placements')!;
 const mixRackBtn = document.querySelector<HTMLButtonElement>('#mix-rack')!;
 const passBtn = document.querySelector<HTMLButtonElement>('#pass-btn')!;
 const exchangeBtn = document.querySelector<HTMLButtonElement>('#exchange-btn')!;
+const challengeBtn = document.querySelector<HTMLButtonElement>('#challenge-btn')!;
+const acceptPlayBtn = document.querySelector<HTMLButtonElement>('#accept-play-btn')!;
+const challengeRuleSelect = document.querySelector<HTMLSelectElement>('#challenge-rule')!;
+const hintAllowanceSelect = document.querySelector<HTMLSelectElement>('#hint-allowance')!;
+const boardLayoutSelect = document.querySelector<HTMLSelectElement>('#board-layout')!;
+const boardLayoutFileInput = document.querySelector<HTMLInputElement>('#board-layout-file')!;
+const boardLayoutHintEl = document.querySelector<HTMLParagraphElement>('#board-layout-hint')!;
+const boardLayoutWrapper = document.querySelector<HTMLDivElement>('#board-layout-wrapper')!;
+const wordListsWrapper = document.querySelector<HTMLDivElement>('#word-lists-wrapper')!;
+const wordListsEl = document.querySelector<HTMLDivElement>('#word-lists')!;
+const wordListEditor = document.querySelector<HTMLDetailsElement>('#word-list-editor')!;
+const wordListEditorTitle = document.querySelector<HTMLElement>('#word-list-editor-title')!;
+const wordListNameInput = document.querySelector<HTMLInputElement>('#word-list-name')!;
+const wordListAllowInput = document.querySelector<HTMLTextAreaElement>('#word-list-allow')!;
+const wordListBlockInput = document.querySelector<HTMLTextAreaElement>('#word-list-block')!;
+const wordListSaveBtn = document.querySelector<HTMLButtonElement>('#word-list-save')!;
+const wordListCancelBtn = document.querySelector<HTMLButtonElement>('#word-list-cancel')!;
+const wordListScanBtn = document.querySelector<HTMLButtonElement>('#word-list-scan')!;
+const takebackBtn = document.querySelector<HTMLButtonElement>('#takeback-btn')!;
+const takebackPrompt = document.querySelector<HTMLDivElement>('#takeback-prompt')!;
+const takebackPromptText = document.querySelector<HTMLSpanElement>('#takeback-prompt-text')!;
+const takebackAcceptBtn = document.querySelector<HTMLButtonElement>('#takeback-accept')!;
+const takebackDeclineBtn = document.querySelector<HTMLButtonElement>('#takeback-decline')!;
 
 const copyOfferBtn = document.querySelector<HTMLButtonElement>('#copy-offer')!;
+const hostTabBtn = document.querySelector<HTMLButtonElement>('#host-tab')!;
 const offerText = document.querySelector<HTMLTextAreaElement>('#offer-text')!;
 const offerQr = document.querySelector<HTMLImageElement>('#offer-qr')!;
 const answerText = document.querySelector<HTMLTextAreaElement>('#answer-text')!;
@@ -401,16 +742,18 @@ const scanAnswerBtn = document.querySelector<HTMLButtonElement>('#scan-answer')!
 
 const hostOfferInput = document.querySelector<HTMLTextAreaElement>('#host-offer-input')!;
 const scanOfferBtn = document.querySelector<HTMLButtonElement>('#scan-offer')!;
+const joinTabBtn = document.querySelector<HTMLButtonElement>('#join-tab')!;
+const relayUrlInput = document.querySelector<HTMLInputElement>('#relay-url')!;
+const roomCodeInput = document.querySelector<HTMLInputElement>('#room-code')!;
+const roomConnectBtn = document.querySelector<HTMLButtonElement>('#room-connect')!;
 const clientAnswer = document.querySelector<HTMLTextAreaElement>('#client-answer')!;
 const copyClientAnswerBtn = document.querySelector<HTMLButtonElement>('#copy-client-answer')!;
 const answerQr = document.querySelector<HTMLImageElement>('#answer-qr')!;
 
 const refreshDictsBtn = document.querySelector<HTMLButtonElement>('#refresh-dicts')!;
-const downloadEnBtn = document.querySelector<HTMLButtonElement>('#download-en')!;
-const downloadRuBtn = document.querySelector<HTMLButtonElement>('#download-ru')!;
+const downloadLanguageBtns = [...document.querySelectorAll<HTMLButtonElement>('[data-download-language]')];
 const downloadRuStrictBtn = document.querySelector<HTMLButtonElement>('#download-ru-strict')!;
-const dictEnIcon = document.querySelector<HTMLSpanElement>('#dict-en-icon')!;
-const dictRuIcon = document.querySelector<HTMLSpanElement>('#dict-ru-icon')!;
+const dictLanguageIcons = [...document.querySelectorAll<HTMLSpanElement>('[data-dict-icon]')];
 const dictRuStrictIcon = document.querySelector<HTMLSpanElement>('#dict-ru-strict-icon')!;
 const requestSyncBtn = document.querySelector<HTMLButtonElement>('#request-sync')!;
 const toggleSetupBtn = document.querySelector<HTMLButtonElement>('#toggle-setup')!;
@@ -426,6 +769,8 @@ const gameOverOverlay = document.querySelector<HTMLDivElement>('#gameover-overla
 const gameOverReasonEl = document.querySelector<HTMLParagraphElement>('#gameover-reason')!;
 const gameOverScoresEl = document.querySelector<HTMLDivElement>('#gameover-scores')!;
 const gameOverStatsEl = document.querySelector<HTMLDivElement>('#gameover-stats')!;
+const gameOverAnalysisEl = document.querySelector<HTMLDivElement>('#gameover-analysis')!;
+const analyzeBtn = document.querySelector<HTMLButtonElement>('#analyze-btn')!;
 const rematchStatusEl = document.querySelector<HTMLParagraphElement>('#rematch-status')!;
 const rematchBtnOverlay = document.querySelector<HTMLButtonElement>('#rematch-btn-overlay')!;
 const viewBoardBtn = document.querySelector<HTMLButtonElement>('#view-board-btn')!;
@@ -434,6 +779,20 @@ const gameOverBannerScoresEl = document.querySelector<HTMLSpanElement>('#gameove
 const rematchBannerStatusEl = document.querySelector<HTMLSpanElement>('#rematch-banner-status')!;
 const rematchBtnBanner = document.querySelector<HTMLButtonElement>('#rematch-btn-banner')!;
 const showResultsBtn = document.querySelector<HTMLButtonElement>('#show-results-btn')!;
+const replayBar = document.querySelector<HTMLDivElement>('#replay-bar')!;
+const replayLabelEl = document.querySelector<HTMLElement>('#replay-label')!;
+const replayScoresEl = document.querySelector<HTMLSpanElement>('#replay-scores')!;
+const replayFirstBtn = document.querySelector<HTMLButtonElement>('#replay-first')!;
+const replayPrevBtn = document.querySelector<HTMLButtonElement>('#replay-prev')!;
+const replayNextBtn = document.querySelector<HTMLButtonElement>('#replay-next')!;
+const replayLastBtn = document.querySelector<HTMLButtonElement>('#replay-last')!;
+const replayExitBtn = document.querySelector<HTMLButtonElement>('#replay-exit')!;
+const replayBtn = document.querySelector<HTMLButtonElement>('#replay-btn')!;
+const replayBtnOverlay = document.querySelector<HTMLButtonElement>('#replay-btn-overlay')!;
+const replayBtnBanner = document.querySelector<HTMLButtonElement>('#replay-btn-banner')!;
+const exportGcgBtn = document.querySelector<HTMLButtonElement>('#export-gcg')!;
+const importGcgBtn = document.querySelector<HTMLButtonElement>('#import-gcg-btn')!;
+const importGcgInput = document.querySelector<HTMLInputElement>('#import-gcg')!;
 
 let mode: Mode = 'solo';
 let meta: SessionMeta | null = null;
@@ -441,8 +800,11 @@ let labels: Record<string, string> = {};
 let currentState: GameState | null = null;
 let placements: Placement[] = [];
 let selectedTileId: string | null = null;
-let connection: P2PConnection | null = null;
+let connection: Transport | null = null;
 let hostApplyAnswer: ((answer: string) => Promise<void>) | null = null;
+/** How the current peer link was set up, so a dropped link is rebuilt the same way. */
+let linkRoute: 'code' | 'tab' | 'relay' = 'code';
+let recoveringConnection = false;
 let pendingSnapshot: SnapshotPayload | null = null;
 let settingsHidden = false;
 let logsHidden = false;
@@ -453,6 +815,7 @@ let remoteDraft: { playerId: string; placements: Placement[]; moveNumber: number
 let toastTimer: number | null = null;
 let toastOutTimer: number | null = null;
 let lastShownTurnEventToken: string | null = null;
+let lastShownChallengeToken: string | null = null;
 let lastHandledGameOverUiToken: string | null = null;
 let gameOverOverlayDismissed = false;
 let lastAutoPassToken: string | null = null;
@@ -461,6 +824,19 @@ let disconnectTimerState: { deadline: number; remaining: number } | null = null;
 let lastHandshakeOffer = '';
 let lastHandshakeAnswer = '';
 let readyTicker: number | null = null;
+// Pass-and-play: rack stays hidden until the player on turn confirms they hold the device.
+let handoffPending = false;
+// Last layout read from a JSON file in setup; used when "Custom" is selected.
+let customBoardLayout: BoardLayout | null = null;
+// Step-through viewer; rebuilt from history whenever the game moves on underneath it.
+// `imported` is set when viewing a game loaded from a .gcg file instead of the live one.
+let replayView: {
+  replay: Replay;
+  index: number;
+  sessionId: string;
+  historyLength: number;
+  imported?: GcgGame;
+} | null = null;
 
 // Endgame scanning (background worker) state
 type EndgameScanUiState = 'idle' | 'running' | 'error';
@@ -469,6 +845,45 @@ let endgameScanLastToken: string | null = null;
 let endgameScanInFlight: { requestId: string; token: string; startedAt: number; debug: boolean } | null = null;
 let endgameWorker: Worker | null = null;
 
+// Computer opponent (solo): move search runs in its own worker so the board stays responsive.
+let botTurnInFlight: { requestId: string; token: string; startedAt: number } | null = null;
+let botWorker: Worker | null = null;
+
+// Post-game analysis (best move per turn), computed on request in its own worker.
+let analysisView: {
+  sessionId: string;
+  requestId: string;
+  status: 'running' | 'done' | 'failed';
+  analysis: GameAnalysis | null;
+  message?: string;
+} | null = null;
+let analysisWorker: Worker | null = null;
+
+// Hints: one suggestion per turn, revealed a level at a time. `key` ties it to the turn it was
+// asked on; `draftPending` re-applies a full-placement hint after the host's sync clears drafts.
+let hintView: {
+  key: string;
+  requestId: string;
+  level: HintLevel | 0;
+  move: GeneratedMove | null;
+  message?: string;
+  draftPending?: boolean;
+} | null = null;
+let hintWorker: Worker | null = null;
+let lastShownHintToken: string | null = null;
+
+// Study tools (anagrams, patterns, hooks) run in their own worker against the cached lexicon.
+let studyView: {
+  requestId: string;
+  status: 'running' | 'done' | 'failed';
+  words: FoundWord[];
+  hooks?: WordHooks;
+  truncated?: boolean;
+  message?: string;
+} | null = null;
+let wordFinderWorker: Worker | null = null;
+const STUDY_RESULT_LIMIT = 500;
+
 if (typeof Worker !== 'undefined') {
   try {
     endgameWorker = new Worker(new URL('./workers/endgameScan.worker.ts', import.meta.url), { type: 'module' });
@@ -479,6 +894,39 @@ if (typeof Worker !== 'undefined') {
     // If workers aren't available for some reason, we simply won't auto-finish on \"no moves\".
     endgameWorker = null;
   }
+  try {
+    botWorker = new Worker(new URL('./workers/bot.worker.ts', import.meta.url), { type: 'module' });
+    botWorker.addEventListener('message', (ev: MessageEvent) => {
+      handleBotWorkerMessage(ev.data as BotMoveResponse);
+    });
+  } catch {
+    // Without a worker the computer opponent just passes (see requestBotTurnIfNeeded).
+    botWorker = null;
+  }
+  try {
+    analysisWorker = new Worker(new URL('./workers/analysis.worker.ts', import.meta.url), { type: 'module' });
+    analysisWorker.addEventListener('message', (ev: MessageEvent) => {
+      handleAnalysisWorkerMessage(ev.data as AnalysisResponse);
+    });
+  } catch {
+    analysisWorker = null;
+  }
+  try {
+    hintWorker = new Worker(new URL('./workers/hint.worker.ts', import.meta.url), { type: 'module' });
+    hintWorker.addEventListener('message', (ev: MessageEvent) => {
+      handleHintWorkerMessage(ev.data as HintResponse);
+    });
+  } catch {
+    hintWorker = null;
+  }
+  try {
+    wordFinderWorker = new Worker(new URL('./workers/wordFinder.worker.ts', import.meta.url), { type: 'module' });
+    wordFinderWorker.addEventListener('message', (ev: MessageEvent) => {
+      handleWordFinderMessage(ev.data as WordFinderResponse);
+    });
+  } catch {
+    wordFinderWorker = null;
+  }
 }
 
 // Local-only rack ordering (UX): keep a stable user-defined order (e.g. after Mix)
@@ -486,6 +934,12 @@ if (typeof Worker !== 'undefined') {
 let rackOrder: string[] = [];
 let rackOrderSessionId: string | null = null;
 
+// House-rule word lists: the saved library, and the lists in force for the current session
+// (the host's choice, received with every sync on the client).
+let savedOverlays: WordOverlay[] = [];
+let sessionOverlays: WordOverlay[] = [];
+let editingOverlayId: string | null = null;
+
 setupEvents();
 // Initialize Russian variant selector visibility
 russianVariantWrapper.style.display = languageSelect.value === 'ru' ? 'flex' : 'none';
@@ -496,6 +950,7 @@ renderVisibility();
 refreshDictStatus();
 startDictionaryAutoCheck();
 checkSavedSnapshot();
+void loadWordOverlays();
 registerServiceWorker();
 
 function setupEvents() {
@@ -534,7 +989,24 @@ function setupEvents() {
     }
     // Show/hide Russian variant selector
     russianVariantWrapper.style.display = language === 'ru' ? 'flex' : 'none';
+    renderWordOverlays();
   });
+  wordListsEl.addEventListener('change', (ev) => {
+    const input = ev.target as HTMLInputElement;
+    const overlay = savedOverlays.find((o) => o.id === input.dataset.overlayToggle);
+    if (overlay) void storeWordOverlay({ ...overlay, enabled: input.checked });
+  });
+  wordListsEl.addEventListener('click', (ev) => {
+    const btn = (ev.target as HTMLElement).closest<HTMLButtonElement>('button');
+    if (btn?.dataset.overlayEdit) editWordOverlay(btn.dataset.overlayEdit);
+    if (btn?.dataset.overlayDelete) void removeWordOverlay(btn.dataset.overlayDelete);
+    if (btn?.dataset.overlayShare) void shareWordOverlay(btn.dataset.overlayShare);
+  });
+  wordListScanBtn.addEventListener('click', () =>
+    scanInto(document.createElement('textarea'), (text) => importWordOverlay(text))
+  );
+  wordListSaveBtn.addEventListener('click', () => void saveEditedWordOverlay());
+  wordListCancelBtn.addEventListener('click', () => resetWordOverlayEditor());
 
   russianVariantSelect.addEventListener('change', () => {
     if (meta) {
@@ -569,9 +1041,23 @@ function setupEvents() {
   });
   passBtn.addEventListener('click', () => submitPass());
   exchangeBtn.addEventListener('click', () => submitExchange());
+  challengeBtn.addEventListener('click', () => submitChallengeAction('challenge'));
+  acceptPlayBtn.addEventListener('click', () => submitChallengeAction('accept'));
+  takebackBtn.addEventListener('click', () => requestTakeback());
+  hintBtn.addEventListener('click', () => requestHint());
+  takebackAcceptBtn.addEventListener('click', () => respondToTakeback(true));
+  takebackDeclineBtn.addEventListener('click', () => respondToTakeback(false));
 
   copyOfferBtn.addEventListener('click', () => copyToClipboard(offerText.value));
   copyClientAnswerBtn.addEventListener('click', () => copyToClipboard(clientAnswer.value));
+  hostTabBtn.addEventListener('click', () => void openTabLink());
+  joinTabBtn.addEventListener('click', () => void openTabLink());
+  relayUrlInput.value = localStorage.getItem(RELAY_URL_KEY) ?? import.meta.env.VITE_SIGNALING_URL ?? '';
+  roomConnectBtn.addEventListener('click', () => void openRelayLink());
+  // Tell the other tab right away; unlike WebRTC there is no connection state to notice a closed tab.
+  window.addEventListener('pagehide', () => {
+    if (connection?.kind === 'broadcast') connection.close();
+  });
   scanOfferBtn.addEventListener('click', () =>
     scanInto(hostOfferInput, async () => {
       await buildClientAnswer();
@@ -597,23 +1083,22 @@ function setupEvents() {
 
   refreshDictsBtn.addEventListener('click', async () => {
     // Give immediate visual feedback so status never looks "missing"
-    dictEnIcon.textContent = '⏳';
-    dictRuIcon.textContent = '⏳';
+    dictLanguageIcons.forEach((icon) => (icon.textContent = '⏳'));
     dictRuStrictIcon.textContent = '⏳';
     dictStatus.textContent = 'Dictionaries: checking...';
     try {
       await refreshDictStatus();
     } catch (err) {
-      dictEnIcon.textContent = '❌';
-      dictRuIcon.textContent = '❌';
+      dictLanguageIcons.forEach((icon) => (icon.textContent = '❌'));
       dictRuStrictIcon.textContent = '❌';
       dictStatus.textContent = 'Dictionaries: check failed';
       dictStatus.classList.add('danger');
       appendLog(`Dictionary status check failed: ${String(err)}`);
     }
   });
-  downloadEnBtn.addEventListener('click', () => downloadLanguage('en'));
-  downloadRuBtn.addEventListener('click', () => downloadLanguage('ru'));
+  downloadLanguageBtns.forEach((btn) => {
+    btn.addEventListener('click', () => downloadLanguage(btn.dataset.downloadLanguage as Language));
+  });
   downloadRuStrictBtn.addEventListener('click', async () => {
     const result = await downloadDictionaryStrict();
     if (result.available) {
@@ -635,6 +1120,7 @@ function setupEvents() {
     logsHidden = !logsHidden;
     renderVisibility();
   });
+  botDifficultySelect.addEventListener('change', () => renderModeControls());
   minLengthInput.addEventListener('change', () => {
     const val = Number(minLengthInput.value) || 2;
     setMinWordLength(val);
@@ -648,7 +1134,7 @@ function setupEvents() {
   timerEnabledToggle.addEventListener('change', () => {
     updateTimerSettingsUI();
     // Only host/solo can change session meta.
-    if (!meta || (!meta.isHost && meta.mode !== 'solo')) return;
+    if (!meta || (!meta.isHost && !isOfflineMode(meta.mode))) return;
     meta.timerEnabled = timerEnabledToggle.checked;
     // Preserve the chosen duration even when disabled (handy when re-enabling).
     meta.timerDurationSec = resolveTimerDurationSeconds();
@@ -660,7 +1146,7 @@ function setupEvents() {
 
   timerInput.addEventListener('change', () => {
     updateTimerSettingsUI();
-    if (!meta || (!meta.isHost && meta.mode !== 'solo')) return;
+    if (!meta || (!meta.isHost && !isOfflineMode(meta.mode))) return;
     meta.timerDurationSec = resolveTimerDurationSeconds();
     if (meta.timerEnabled) {
       resetTurnTimer();
@@ -684,11 +1170,117 @@ function setupEvents() {
   });
   rematchBtnOverlay.addEventListener('click', () => void requestRematch());
   rematchBtnBanner.addEventListener('click', () => void requestRematch());
+  replayBtn.addEventListener('click', () => openReplay());
+  replayBtnOverlay.addEventListener('click', () => openReplay());
+  analyzeBtn.addEventListener('click', () => requestAnalysis());
+  replayBtnBanner.addEventListener('click', () => openReplay());
+  replayFirstBtn.addEventListener('click', () => stepReplay(-Infinity));
+  replayPrevBtn.addEventListener('click', () => stepReplay(-1));
+  replayNextBtn.addEventListener('click', () => stepReplay(1));
+  replayLastBtn.addEventListener('click', () => stepReplay(Infinity));
+  replayExitBtn.addEventListener('click', () => closeReplay());
+  exportGcgBtn.addEventListener('click', () => exportCurrentGame());
+  importGcgBtn.addEventListener('click', () => importGcgInput.click());
+  importGcgInput.addEventListener('change', () => {
+    const file = importGcgInput.files?.[0];
+    importGcgInput.value = '';
+    if (file) void importGcgFile(file);
+  });
+  boardLayoutSelect.addEventListener('change', () => {
+    if (boardLayoutSelect.value === 'custom') boardLayoutFileInput.click();
+  });
+  boardLayoutFileInput.addEventListener('change', () => {
+    const file = boardLayoutFileInput.files?.[0];
+    boardLayoutFileInput.value = '';
+    if (file) void loadCustomBoardLayout(file);
+  });
+  moveHistoryEl.addEventListener('click', (ev) => {
+    const btn = (ev.target as HTMLElement).closest<HTMLButtonElement>('[data-history-index]');
+    const entry = btn ? currentState?.history[Number(btn.dataset.historyIndex)] : undefined;
+    if (entry?.type === 'MOVE') void openWordInfo(entry.moveNumber, entry.words);
+  });
+  wordInfoCloseBtn.addEventListener('click', () => closeWordInfo());
+  qrShareCloseBtn.addEventListener('click', () => closeQrShare());
+  qrShareOverlay.addEventListener('click', (ev) => {
+    if (ev.target === qrShareOverlay) closeQrShare();
+  });
+  wordInfoOverlay.addEventListener('click', (ev) => {
+    if (ev.target === wordInfoOverlay) closeWordInfo();
+  });
+  openWordJudgeBtn.addEventListener('click', () => openWordJudge());
+  wordJudgeCloseBtn.addEventListener('click', () => closeWordJudge());
+  wordJudgeOverlay.addEventListener('click', (ev) => {
+    if (ev.target === wordJudgeOverlay) closeWordJudge();
+  });
+  wordJudgeForm.addEventListener('submit', (ev) => {
+    ev.preventDefault();
+    void runWordJudge();
+  });
+  openStudyBtn.addEventListener('click', () => openStudy());
+  studyCloseBtn.addEventListener('click', () => closeStudy());
+  studyOverlay.addEventListener('click', (ev) => {
+    if (ev.target === studyOverlay) closeStudy();
+  });
+  studyKindSelect.addEventListener('change', () => renderStudyPlaceholder());
+  studySortSelect.addEventListener('change', () => renderStudyResults());
+  studyForm.addEventListener('submit', (ev) => {
+    ev.preventDefault();
+    runStudyQuery();
+  });
+  document.addEventListener('keydown', (ev) => {
+    if (ev.key !== 'Escape') return;
+    if (wordInfoOverlay.style.display !== 'none') closeWordInfo();
+    if (wordJudgeOverlay.style.display !== 'none') closeWordJudge();
+    if (studyOverlay.style.display !== 'none') closeStudy();
+    if (qrShareOverlay.style.display !== 'none') closeQrShare();
+  });
+  document.addEventListener('keydown', (ev) => {
+    if (!replayView || ev.target instanceof HTMLInputElement || ev.target instanceof HTMLTextAreaElement) return;
+    if (ev.key === 'ArrowLeft') stepReplay(-1);
+    else if (ev.key === 'ArrowRight') stepReplay(1);
+    else if (ev.key === 'Escape') closeReplay();
+  });
+  handoffBtn.addEventListener('click', () => {
+    handoffPending = false;
+    renderAll();
+  });
+}
+
+/** Sessions played entirely on this device (no peer connection to sync with). */
+function isOfflineMode(m: Mode): boolean {
+  return m === 'solo' || m === 'local';
+}
+
+/**
+ * Pass-and-play: the device always acts as the player on turn. When the turn moves on,
+ * drop the previous player's draft and hide the rack until the next player takes over.
+ */
+function syncHotSeatTurn() {
+  if (!meta || !currentState || meta.mode !== 'local') return;
+  if (meta.localPlayerId === currentState.currentPlayer) return;
+  meta.localPlayerId = currentState.currentPlayer;
+  placements = [];
+  selectedTileId = null;
+  handoffPending = true;
+}
+
+function isHandoffActive(): boolean {
+  return Boolean(handoffPending && meta?.mode === 'local' && currentState && !meta.gameOver);
+}
+
+function renderHandoffOverlay() {
+  const active = isHandoffActive();
+  handoffOverlay.style.display = active ? '' : 'none';
+  handoffOverlay.setAttribute('aria-hidden', active ? 'false' : 'true');
+  if (!active || !meta) return;
+  const name = labels[meta.localPlayerId] ?? meta.localPlayerId;
+  handoffTitleEl.textContent = `Pass the device to ${name}`;
+  handoffBtn.textContent = `I'm ${name} — show my tiles`;
 }
 
 function isReadyGateEnabled(m: SessionMeta | null): boolean {
   // Only for new P2P sessions where host explicitly initializes the field.
-  return Boolean(m && m.mode !== 'solo' && m.gameStartAt !== undefined);
+  return Boolean(m && !isOfflineMode(m.mode) && m.gameStartAt !== undefined);
 }
 
 function isPreGameLocked(): boolean {
@@ -874,7 +1466,7 @@ function resetTurnTimer() {
   }
 
   // Gate the initial start so host doesn't start the clock before the peer connects.
-  if (!meta.turnDeadline && !canStartInitialTurnTimer(meta, Boolean(connection?.dataChannelReady))) {
+  if (!meta.turnDeadline && !canStartInitialTurnTimer(meta, Boolean(connection?.ready))) {
     meta.turnDeadline = null;
     stopTimerTicker();
     renderTimer();
@@ -911,10 +1503,20 @@ function showToast(message: string, variant: 'info' | 'danger' = 'info', ms = 45
 }
 
 function formatGameOverReason(reason: GameEndReason): string {
-  if (reason === 'four_passes') return 'Both players passed twice in a row.';
+  if (reason === 'four_passes') return 'Every player passed twice in a row.';
+  if (reason === 'player_out') return 'A player used their last tile with the bag empty.';
   return 'No tiles left in the bag and no valid moves available.';
 }
 
+/** Overlay text: like `formatGameOverReason`, but names who went out and what they collected. */
+function describeGameOver(ev: GameOverEvent): string {
+  if (ev.reason === 'player_out' && ev.wentOut) {
+    const name = labels[ev.wentOut.playerId] ?? ev.wentOut.playerId;
+    return `${name} used their last tile with the bag empty and collects ${ev.wentOut.bonus} points from the tiles left on the other racks.`;
+  }
+  return formatGameOverReason(ev.reason);
+}
+
 function stopTimerForGameOver(incoming: SessionMeta) {
   if (!incoming.timerEnabled) return;
   incoming.turnDeadline = null;
@@ -939,7 +1541,7 @@ function computeEndgameStats(state: GameState | null): {
   let longestWord: { word: string; playerId: string; scoreDelta: number } | undefined;
 
   for (const entry of state.history) {
-    if (entry.type === 'MOVE') {
+    if (entry.type === 'MOVE' && !entry.withdrawn) {
       moves += 1;
       if (entry.placedTiles === 7) bingos += 1;
       if (!bestMove || entry.scoreDelta > bestMove.scoreDelta) {
@@ -975,7 +1577,7 @@ function renderGameOverUi() {
     .map(([id, score]) => `${labels[id] ?? id}: ${score}`)
     .join(' • ');
 
-  gameOverReasonEl.textContent = formatGameOverReason(ev.reason);
+  gameOverReasonEl.textContent = describeGameOver(ev);
   gameOverScoresEl.innerHTML = `<div class=\"hint\">Final scores</div><div class=\"gameover-scores-row\">${scoresText}</div>`;
 
   const stats = computeEndgameStats(currentState);
@@ -995,6 +1597,7 @@ function renderGameOverUi() {
     `<div class=\"gameover-stat\"><span class=\"label\">Longest word</span><strong>${longestWordText}</strong></div>`
   ].join('');
 
+  renderAnalysis();
   gameOverBannerScoresEl.textContent = scoresText ? `— ${scoresText}` : '';
 
   // Rematch (both-confirm for P2P, instant for solo)
@@ -1009,7 +1612,7 @@ function renderGameOverUi() {
   rematchBtnOverlay.disabled = meRequested;
   rematchBtnBanner.disabled = meRequested;
 
-  if (meta.mode === 'solo') {
+  if (isOfflineMode(meta.mode)) {
     rematchStatusEl.textContent = 'Start a new game with the same settings.';
     rematchBannerStatusEl.textContent = '';
   } else if (missing.length === 0) {
@@ -1031,7 +1634,109 @@ function renderGameOverUi() {
   } else {
     gameOverOverlay.style.display = 'none';
     gameOverOverlay.setAttribute('aria-hidden', 'true');
-    gameOverBanner.style.display = '';
+    // The replay bar takes the banner's place while stepping through the game.
+    gameOverBanner.style.display = replayView ? 'none' : '';
+  }
+}
+
+function requestAnalysis() {
+  if (!meta || !currentState || !meta.gameOver) return;
+  const sessionId = currentState.sessionId;
+  const requestId = crypto.randomUUID();
+  if (!analysisWorker) {
+    analysisView = { sessionId, requestId, status: 'failed', analysis: null, message: 'Analysis is not available in this browser.' };
+    renderAnalysis();
+    return;
+  }
+  analysisView = { sessionId, requestId, status: 'running', analysis: null };
+  renderAnalysis();
+  analysisWorker.postMessage({
+    type: 'ANALYSIS_REQUEST',
+    requestId,
+    state: currentState,
+    language: meta.language,
+    russianVariant: meta.russianDictionaryVariant,
+    overlays: sessionOverlays,
+    minLength: resolveMinWordLength()
+  });
+}
+
+function handleAnalysisWorkerMessage(msg: AnalysisResponse) {
+  if (!msg || msg.type !== 'ANALYSIS_RESPONSE') return;
+  if (!analysisView || msg.requestId !== analysisView.requestId) return;
+  if (msg.analysis) {
+    analysisView = { ...analysisView, status: 'done', analysis: msg.analysis };
+  } else {
+    const message =
+      msg.reason === 'dictionary_unavailable'
+        ? 'Download the dictionary for this language to analyze the game.'
+        : `Analysis failed: ${msg.error ?? 'unknown error'}`;
+    analysisView = { ...analysisView, status: 'failed', message };
+  }
+  renderAnalysis();
+}
+
+function renderAnalysis() {
+  const view = analysisView && analysisView.sessionId === currentState?.sessionId ? analysisView : null;
+  analyzeBtn.disabled = view?.status === 'running' || view?.status === 'done';
+  if (!view) {
+    gameOverAnalysisEl.style.display = 'none';
+    return;
+  }
+  gameOverAnalysisEl.style.display = '';
+  if (view.status === 'running') {
+    gameOverAnalysisEl.innerHTML = '<p class="hint">Analyzing every turn…</p>';
+    return;
+  }
+  if (!view.analysis) {
+    const failure = document.createElement('p');
+    failure.className = 'hint';
+    failure.textContent = view.message ?? '';
+    gameOverAnalysisEl.replaceChildren(failure);
+    return;
+  }
+
+  const { lostByPlayer, biggestMisses, skipped } = view.analysis;
+  // Player names come from peers and words from the board, so both go in as text.
+  const name = (id: string) => labels[id] ?? id;
+  const element = (tag: string, className: string, text?: string) => {
+    const el = document.createElement(tag);
+    if (className) el.className = className;
+    if (text !== undefined) el.textContent = text;
+    return el;
+  };
+  const lostRows = element('div', 'gameover-stats');
+  lostRows.append(
+    ...Object.entries(lostByPlayer).map(([id, lost]) => {
+      const row = element('div', 'gameover-stat');
+      row.append(element('span', 'label', name(id)), element('strong', '', `−${lost}`));
+      return row;
+    })
+  );
+  let misses: HTMLElement;
+  if (biggestMisses.length) {
+    misses = element('ol', 'history-list');
+    misses.append(
+      ...biggestMisses.map((t) => {
+        const played = t.played.type === 'MOVE'
+          ? `${t.played.words.join(', ')} (+${t.played.score})`
+          : t.played.type === 'PASS' ? 'pass' : 'exchange';
+        const best = t.best ? `${t.best.words.join(', ')} (+${t.best.score})` : '—';
+        return element('li', '', `#${t.moveNumber} ${name(t.playerId)}: ${played}; best ${best}`);
+      })
+    );
+  } else {
+    misses = element('p', 'hint', 'Every turn found the top-scoring move.');
+  }
+
+  gameOverAnalysisEl.replaceChildren(
+    element('div', 'hint', 'Points left on the table'),
+    lostRows,
+    element('div', 'hint', 'Biggest misses'),
+    misses
+  );
+  if (skipped > 0) {
+    gameOverAnalysisEl.append(element('p', 'hint', `${skipped} turn(s) had no recorded rack and were skipped.`));
   }
 }
 
@@ -1078,13 +1783,21 @@ async function restartForRematch() {
 
   const language = meta.language;
   const players = currentState?.players ?? [meta.localPlayerId, meta.remotePlayerId].filter(Boolean) as string[];
-  const state = game.start(language, players);
+  const state = game.start(language, players, {
+    challengeRule: currentState?.challengeRule,
+    layout: currentState?.layout
+  });
 
   currentState = state;
   meta.sessionId = state.sessionId;
   meta.gameOver = undefined;
   meta.lastTurnEvent = undefined;
   meta.rematch = undefined;
+  meta.takeback = undefined;
+  if (meta.mode === 'local') {
+    meta.localPlayerId = state.currentPlayer;
+    handoffPending = true;
+  }
 
   // If ready-gate was enabled for this session, mark it as started immediately.
   if (isReadyGateEnabled(meta) && players.length === 2) {
@@ -1104,6 +1817,7 @@ async function restartForRematch() {
   endgameScanLastToken = null;
   endgameScanInFlight = null;
   setEndgameScanUi('idle');
+  botTurnInFlight = null;
 
   // Ensure local dictionary min-length matches the session for validation.
   const minWordLength = meta.minWordLength ?? resolveMinWordLength();
@@ -1115,18 +1829,19 @@ async function restartForRematch() {
   updateValidation();
 
   await persistSnapshot();
-  if (meta.mode !== 'solo') {
+  if (!isOfflineMode(meta.mode)) {
     sendSync();
   }
   appendLog('Rematch started.');
+  requestBotTurnIfNeeded();
 }
 
 async function requestRematch() {
   if (!meta || !currentState) return;
   if (!meta.gameOver) return;
 
-  // Solo: instant rematch.
-  if (meta.mode === 'solo') {
+  // Solo / pass-and-play: instant rematch.
+  if (isOfflineMode(meta.mode)) {
     await restartForRematch();
     return;
   }
@@ -1174,7 +1889,7 @@ function maybeShowTimeoutToastFromMeta(incoming: SessionMeta) {
 async function maybeAutoPassOnTimeout() {
   if (!meta || !currentState) return;
   // Host (or solo) is authoritative for turn advancement.
-  if (!meta.isHost && meta.mode !== 'solo') return;
+  if (!meta.isHost && !isOfflineMode(meta.mode)) return;
   if (!meta.timerEnabled || !meta.timerDurationSec || !meta.turnDeadline) return;
 
   const remainingMs = meta.turnDeadline - Date.now();
@@ -1203,6 +1918,7 @@ async function maybeAutoPassOnTimeout() {
       selectedTileId = null;
       updateValidation();
     }
+    syncHotSeatTurn();
     resetTurnTimer();
     await persistSnapshot();
     sendSync();
@@ -1215,7 +1931,8 @@ async function maybeAutoPassOnTimeout() {
         reason: result.gameEnded.reason,
         at: Date.now(),
         moveNumber: currentState.moveNumber,
-        finalScores: result.gameEnded.finalScores
+        finalScores: result.gameEnded.finalScores,
+        wentOut: result.gameEnded.wentOut
       };
       await persistSnapshot();
       sendSync();
@@ -1224,6 +1941,7 @@ async function maybeAutoPassOnTimeout() {
       appendLog(`Game ended: ${formatGameOverReason(result.gameEnded.reason)}`);
     } else {
       await checkAndHandleGameEnd();
+      requestBotTurnIfNeeded();
     }
   } finally {
     autoPassInProgress = false;
@@ -1261,14 +1979,13 @@ async function hasWordWithVariant(word: string, language: Language, variant?: 'f
 
 function buildWordChecker(): WordChecker {
   const variant = meta?.russianDictionaryVariant;
-  const fn = ((word: string, language: Language) => {
-    return hasWordWithVariant(word, language, variant);
+  const overlays = sessionOverlays;
+  const fn = (async (word: string, language: Language) => {
+    return applyOverlays(word, await hasWordWithVariant(word, language, variant), overlays);
   }) as WordChecker;
-  fn.getAllWords = ((language: Language) => {
-    if (language === 'ru' && variant === 'strict') {
-      return getDictionaryWordSet('ru-strict') as Promise<Iterable<string> | null>;
-    }
-    return getDictionaryWordSet(language);
+  fn.getAllWords = (async (language: Language) => {
+    const words = await getDictionaryWordSet(language === 'ru' && variant === 'strict' ? 'ru-strict' : language);
+    return words ? withOverlays(words, overlays) : null;
   }) as WordChecker['getAllWords'];
   return fn;
 }
@@ -1351,8 +2068,10 @@ function requestEndgameScanIfNeeded() {
   if (!meta || !currentState) return;
   if (meta.gameOver) return;
   // Host (or solo) is authoritative for \"game ended\" decisions.
-  if (!meta.isHost && meta.mode !== 'solo') return;
+  if (!meta.isHost && !isOfflineMode(meta.mode)) return;
   if (!endgameWorker) return;
+  // A play that may still be challenged off the board isn't final yet.
+  if (currentState.pendingChallenge) return;
 
   // Only do the expensive scan once the bag is empty and we're late enough in the game.
   const initialBag = getInitialBagSize(currentState.language);
@@ -1377,6 +2096,7 @@ function requestEndgameScanIfNeeded() {
     state: currentState,
     language: meta.language,
     russianVariant: meta.russianDictionaryVariant,
+    overlays: sessionOverlays,
     minLength: resolveMinWordLength(),
     debug
   });
@@ -1460,7 +2180,7 @@ function handleEndgameWorkerMessage(msg: EndgameWorkerMessage) {
   // All players stuck: finish the game (authoritatively).
   if (!meta || !currentState) return;
   if (meta.gameOver) return;
-  if (!meta.isHost && meta.mode !== 'solo') return;
+  if (!meta.isHost && !isOfflineMode(meta.mode)) return;
 
   game.applyEndGameScoring();
   currentState = game.getState();
@@ -1485,6 +2205,117 @@ async function checkAndHandleGameEnd() {
   requestEndgameScanIfNeeded();
 }
 
+function computeBotTurnToken(): string | null {
+  if (!currentState) return null;
+  return `${currentState.sessionId}:${currentState.moveNumber}:${currentState.currentPlayer}`;
+}
+
+function requestBotTurnIfNeeded() {
+  if (!meta || !currentState) return;
+  if (meta.mode !== 'solo' || !meta.botPlayerId || !meta.botDifficulty) return;
+  if (meta.gameOver) return;
+  if (currentState.currentPlayer !== meta.botPlayerId) return;
+
+  const token = computeBotTurnToken();
+  if (!token || botTurnInFlight?.token === token) return;
+
+  if (!botWorker) {
+    appendLog('Computer opponent unavailable; passing its turn.');
+    void applyBotAction({ type: 'pass' }, token);
+    return;
+  }
+
+  const requestId = crypto.randomUUID();
+  botTurnInFlight = { requestId, token, startedAt: Date.now() };
+  renderBoard();
+
+  botWorker.postMessage({
+    type: 'BOT_MOVE_REQUEST',
+    requestId,
+    state: currentState,
+    playerId: meta.botPlayerId,
+    difficulty: meta.botDifficulty,
+    language: meta.language,
+    russianVariant: meta.russianDictionaryVariant,
+    overlays: sessionOverlays,
+    minLength: resolveMinWordLength()
+  });
+}
+
+function handleBotWorkerMessage(msg: BotMoveResponse) {
+  if (!msg || msg.type !== 'BOT_MOVE_RESPONSE') return;
+  if (!botTurnInFlight || msg.requestId !== botTurnInFlight.requestId) return;
+
+  const { token, startedAt } = botTurnInFlight;
+  if (msg.reason === 'dictionary_unavailable') {
+    appendLog('Computer opponent has no dictionary offline; it passes.');
+  } else if (msg.reason === 'error') {
+    appendLog(`Computer opponent error: ${msg.error}; it passes.`);
+  }
+
+  const waitMs = Math.max(0, BOT_MIN_THINK_MS - (Date.now() - startedAt));
+  window.setTimeout(() => {
+    void applyBotAction(msg.action, token);
+  }, waitMs);
+}
+
+async function applyBotAction(action: BotAction, token: string) {
+  if (botTurnInFlight?.token === token) {
+    botTurnInFlight = null;
+  }
+  if (!meta || !currentState || !meta.botPlayerId) return;
+  if (meta.gameOver) return;
+  // Ignore stale replies (e.g. the bot's turn was auto-passed by the timer meanwhile).
+  if (computeBotTurnToken() !== token) return;
+
+  const botId = meta.botPlayerId;
+  const botName = labels[botId] ?? botId;
+  let result: MoveResult;
+  if (action.type === 'move') {
+    await ensureLanguage(meta.language);
+    result = await game.placeMove(botId, action.placements, buildWordChecker());
+    if (result.success) {
+      appendLog(`${botName} played ${result.words?.join(', ') ?? ''} for ${result.scoreDelta ?? 0}.`);
+    }
+  } else if (action.type === 'exchange') {
+    result = game.exchangeTiles(botId, action.tileIds);
+    if (result.success) {
+      appendLog(`${botName} exchanged ${action.tileIds.length} tile(s).`);
+    }
+  } else {
+    result = { success: false };
+  }
+
+  if (!result.success) {
+    if (action.type !== 'pass') {
+      appendLog(`${botName} could not play (${result.message ?? 'rejected'}); passing.`);
+    }
+    result = game.passTurn(botId);
+    if (!result.success) return;
+    appendLog(`${botName} passed.`);
+  }
+
+  currentState = game.getState();
+  resetTurnTimer();
+  await persistSnapshot();
+  renderAll();
+  if (result.gameEnded) {
+    meta.gameOver = {
+      reason: result.gameEnded.reason,
+      at: Date.now(),
+      moveNumber: currentState.moveNumber,
+      finalScores: result.gameEnded.finalScores,
+      wentOut: result.gameEnded.wentOut
+    };
+    await persistSnapshot();
+    renderAll();
+    maybeShowGameOverToastFromMeta(meta);
+    appendLog(`Game ended: ${formatGameOverReason(result.gameEnded.reason)}`);
+  } else {
+    await checkAndHandleGameEnd();
+  }
+}
+
 async function updateValidation() {
   validationNonce += 1;
   const ticket = validationNonce;
@@ -1514,16 +2345,22 @@ async function updateValidation() {
   const result = await preview.placeMove(
     meta.localPlayerId,
     placements,
-    (word, lang) => hasWord(word, lang)
+    buildWordChecker()
   );
 
   if (ticket !== validationNonce) return;
 
-  validationStatus = result.success ? 'valid' : 'invalid';
+  // Under a challenge rule the engine skips the dictionary, so a success only means the
+  // tiles are laid out legally; keep the status neutral instead of calling the words valid.
+  const provisional = currentState.challengeRule === 'double' || currentState.challengeRule === 'single';
+  validationStatus = !result.success ? 'invalid' : provisional ? 'idle' : 'valid';
   renderBoard();
 
   wordCheckStatus.className = 'pill';
-  if (result.success && result.words) {
+  if (result.success && result.words && provisional) {
+    wordCheckStatus.textContent = `Provisional: ${result.words.join(', ')} (+${result.scoreDelta}), can be challenged`;
+    wordLengthStatus.style.display = 'none';
+  } else if (result.success && result.words) {
     wordCheckStatus.textContent = `Valid: ${result.words.join(', ')} (+${result.scoreDelta})`;
     wordCheckStatus.classList.add('active');
     wordLengthStatus.style.display = 'none';
@@ -1554,13 +2391,17 @@ async function updateValidation() {
 function renderHandshakeVisibility() {
   const hostCard = document.querySelector<HTMLDivElement>('#host-handshake')!;
   const clientCard = document.querySelector<HTMLDivElement>('#client-handshake')!;
+  const relayCard = document.querySelector<HTMLDivElement>('#relay-handshake')!;
   const hostVisible = mode === 'host';
   const clientVisible = mode === 'client';
   hostCard.style.display = hostVisible ? 'block' : 'none';
   clientCard.style.display = clientVisible ? 'block' : 'none';
+  relayCard.style.display = hostVisible || clientVisible ? 'block' : 'none';
   // Help screen readers (and our test browser snapshot) ignore hidden chunks.
   hostCard.setAttribute('aria-hidden', hostVisible ? 'false' : 'true');
   clientCard.setAttribute('aria-hidden', clientVisible ? 'false' : 'true');
+  relayCard.setAttribute('aria-hidden', hostVisible || clientVisible ? 'false' : 'true');
+  roomConnectBtn.textContent = clientVisible ? 'Join room' : 'Open room';
 }
 
 function applyModeUI() {
@@ -1575,18 +2416,35 @@ function applyModeUI() {
 function renderModeControls() {
   const isJoin = mode === 'client';
   const isSolo = mode === 'solo';
+  const isLocal = mode === 'local';
   const meWrapper = meInput.closest('.stack') as HTMLElement;
   const peerWrapper = peerInput.closest('.stack') as HTMLElement;
   const minLengthWrapper = minLengthInput.closest('.stack') as HTMLElement;
   if (meWrapper) {
-    meWrapper.style.display = isJoin ? 'none' : '';
+    meWrapper.style.display = isJoin || isLocal ? 'none' : '';
   }
   if (peerWrapper) {
-    peerWrapper.style.display = isSolo || isJoin ? 'none' : '';
+    peerWrapper.style.display = isSolo || isJoin || isLocal ? 'none' : '';
+  }
+  localPlayersWrapper.style.display = isLocal ? '' : 'none';
+  const botWrapper = botDifficultySelect.closest('.stack') as HTMLElement;
+  if (botWrapper) {
+    botWrapper.style.display = isSolo ? '' : 'none';
   }
   if (minLengthWrapper) {
     minLengthWrapper.style.display = isJoin ? 'none' : '';
   }
+  const challengeRuleWrapper = challengeRuleSelect.closest('.stack') as HTMLElement;
+  if (challengeRuleWrapper) {
+    challengeRuleWrapper.style.display = isJoin || (isSolo && botDifficultySelect.value) ? 'none' : '';
+  }
+  const hintAllowanceWrapper = hintAllowanceSelect.closest('.stack') as HTMLElement;
+  if (hintAllowanceWrapper) {
+    hintAllowanceWrapper.style.display = isJoin ? 'none' : '';
+  }
+  // The host picks the board; joiners receive it with the game state.
+  boardLayoutWrapper.style.display = isJoin ? 'none' : '';
+  wordListsWrapper.style.display = isJoin ? 'none' : '';
   minLengthInput.disabled = isJoin;
 
   languageSelect.disabled = isJoin;
@@ -1617,24 +2475,12 @@ function debounce<T extends (...args: any[]) => void>(fn: T, delayMs: number): (
   };
 }
 
-function looksLikeEncodedSdp(text: string): boolean {
-  if (!text) return false;
-  // Our P2P layer encodes SDP as `btoa(JSON.stringify(desc))`.
-  // Validate it decodes to an object with `type` and `sdp`.
-  try {
-    const decoded = JSON.parse(atob(text)) as any;
-    return Boolean(decoded && typeof decoded === 'object' && typeof decoded.type === 'string' && typeof decoded.sdp === 'string');
-  } catch {
-    return false;
-  }
-}
-
 async function maybeAutoBuildClientAnswer() {
   if (mode !== 'client') return;
   const offer = hostOfferInput.value.trim();
   if (!offer) return;
   if (offer === lastHandshakeOffer) return;
-  if (!looksLikeEncodedSdp(offer)) return;
+  if (!looksLikeHandshakeCode(offer)) return;
   lastHandshakeOffer = offer;
   await buildClientAnswer();
 }
@@ -1645,7 +2491,7 @@ async function maybeAutoApplyHostAnswer() {
   const answer = answerText.value.trim();
   if (!answer) return;
   if (answer === lastHandshakeAnswer) return;
-  if (!looksLikeEncodedSdp(answer)) return;
+  if (!looksLikeHandshakeCode(answer)) return;
   lastHandshakeAnswer = answer;
   await applyHostAnswer();
 }
@@ -1661,16 +2507,24 @@ function renderVisibility() {
   toggleLogsBtn.setAttribute('aria-pressed', logsHidden ? 'true' : 'false');
 }
 
-function renderBoard() {
+/**
+ * Draws the live board, or `frame` instead when given (the replay viewer passes the
+ * ply being shown). Drafts are not drawn over a replay frame.
+ */
+function renderBoard(frame: ReplayFrame | null = currentReplayFrame()) {
   const state = currentState;
-  if (!state) {
+  if (!state && !frame) {
     boardEl.innerHTML = '<p class="hint">Start a session to see the board.</p>';
     return;
   }
 
-  const placementKeys = new Set(placements.map((p) => `${p.x},${p.y}`));
-  const lastMoveKeys = new Set((state.lastMove?.placed ?? []).map((p) => `${p.x},${p.y}`));
+  const board = frame?.board ?? state!.board;
+  const draft = frame ? [] : placements;
+  const placementKeys = new Set(draft.map((p) => `${p.x},${p.y}`));
+  const lastMoveKeys = new Set((frame ? frame.placed : state?.lastMove?.placed ?? []).map((p) => `${p.x},${p.y}`));
   const ghostPlacements =
+    !frame &&
+    state &&
     remoteDraft &&
       remoteDraft.moveNumber === state.moveNumber &&
       remoteDraft.playerId === state.currentPlayer &&
@@ -1678,16 +2532,21 @@ function renderBoard() {
       ? remoteDraft.placements
       : [];
   const ghostKeys = new Set(ghostPlacements.map((p) => `${p.x},${p.y}`));
+  const hint = !frame ? activeHint() : null;
+  const hintSquare = hint && hint.level < 3 ? hint.move?.placements[0] : undefined;
+  // Imported records are replayed on their own board rather than the current game's.
+  const layout = layoutFor(replayView?.imported?.state ?? state!);
+  boardEl.style.setProperty('--board-size', String(board.length));
   const rows: string[] = [];
-  for (let y = 0; y < BOARD_SIZE; y += 1) {
+  for (let y = 0; y < board.length; y += 1) {
     const cells: string[] = [];
-    for (let x = 0; x < BOARD_SIZE; x += 1) {
-      const placed = placements.find((p) => p.x === x && p.y === y);
+    for (let x = 0; x < board.length; x += 1) {
+      const placed = draft.find((p) => p.x === x && p.y === y);
       const ghostPlaced = !placed ? ghostPlacements.find((p) => p.x === x && p.y === y) : undefined;
-      const tile = placed?.tile ?? ghostPlaced?.tile ?? state.board[y][x].tile;
-      const premium = premiumClass(x, y);
+      const tile = placed?.tile ?? ghostPlaced?.tile ?? board[y][x].tile;
+      const premium = premiumClass(layout, x, y);
       const isNew = placementKeys.has(`${x},${y}`);
-      const isGhost = !isNew && ghostKeys.has(`${x},${y}`) && !state.board[y][x].tile;
+      const isGhost = !isNew && ghostKeys.has(`${x},${y}`) && !board[y][x].tile;
       const isLastMove = !isNew && lastMoveKeys.has(`${x},${y}`);
       const validationClass =
         isNew && validationStatus === 'valid'
@@ -1703,6 +2562,7 @@ function renderBoard() {
         isNew ? 'pending' : '',
         isGhost ? 'remote-draft' : '',
         isLastMove ? 'last-move' : '',
+        hintSquare && hintSquare.x === x && hintSquare.y === y && !isNew ? 'hint-square' : '',
         validationClass
       ]
         .filter(Boolean)
@@ -1710,7 +2570,7 @@ function renderBoard() {
       const lastMoveA11y = isLastMove && tile ? ' role="img" aria-label="Last placed tile"' : '';
       cells.push(
         `<div class="${classes}" data-x="${x}" data-y="${y}"${lastMoveA11y}>
-          ${tile ? `<span class="letter">${tile.letter}</span><span class="value">${tile.value}</span>` : ''}
+          ${tile ? `<span class="letter${tile.letter.length > 1 ? ' digraph' : ''}">${tile.letter}</span><span class="value">${tile.value}</span>` : ''}
         </div>`
       );
     }
@@ -1718,7 +2578,13 @@ function renderBoard() {
   }
   boardEl.innerHTML = rows.join('');
 
-  turnIndicator.textContent = labels[state.currentPlayer] ?? state.currentPlayer;
+  if (frame || !state) {
+    turnIndicator.textContent = 'Replay';
+    turnIndicator.classList.remove('active');
+    return;
+  }
+  const botThinking = botTurnInFlight !== null && state.currentPlayer === meta?.botPlayerId;
+  turnIndicator.textContent = `${labels[state.currentPlayer] ?? state.currentPlayer}${botThinking ? ' (thinking…)' : ''}`;
   turnIndicator.classList.toggle('active', meta?.localPlayerId === state.currentPlayer);
 }
 
@@ -1728,6 +2594,11 @@ function renderRack() {
     rackEl.innerHTML = '<p class="hint">No rack yet.</p>';
     return;
   }
+  if (isHandoffActive()) {
+    rackEl.innerHTML = '<p class="hint">Tiles hidden until the next player takes the device.</p>';
+    rackOwnerEl.textContent = `Next: ${labels[meta.localPlayerId] ?? meta.localPlayerId}`;
+    return;
+  }
   syncLocalRackOrder(state, meta);
   const rack = state.racks[meta.localPlayerId] ?? [];
   const byId = new Map(rack.map((t) => [t.id, t] as const));
@@ -1756,13 +2627,32 @@ function renderScores() {
   const parts = Object.entries(state.scores).map(
     ([id, score]) =>
       `<div class="score">
-        <span>${labels[id] ?? id}</span>
+        <span>${labels[id] ?? id} <span class="hint">(${visibleRackSize(state, id)} tiles)</span></span>
         <strong>${score}</strong>
       </div>`
   );
   scoresEl.innerHTML = parts.join('');
 }
 
+function formatHistoryEntry(entry: GameHistoryEntry): string {
+  if (entry.type === 'MOVE') {
+    const words = entry.words.join(', ');
+    if (entry.withdrawn) return `#${entry.moveNumber} — ${words} (withdrawn)`;
+    return `#${entry.moveNumber} — ${words} (+${entry.scoreDelta})`;
+  }
+  if (entry.type === 'PASS') return `#${entry.moveNumber} — Pass`;
+  if (entry.type === 'HINT') return `#${entry.moveNumber} — Hint (${HINT_LEVEL_LABELS[entry.level]})`;
+  if (entry.type === 'TAKEBACK') {
+    const what = entry.undoneType === 'MOVE' ? (entry.words ?? []).join(', ') : entry.undoneType.toLowerCase();
+    return `#${entry.moveNumber} — Took back ${what}`;
+  }
+  if (entry.type === 'CHALLENGE') {
+    const outcome = entry.upheld ? 'upheld' : entry.penalty > 0 ? `failed (−${entry.penalty})` : 'failed';
+    return `#${entry.moveNumber} — Challenged ${entry.words.join(', ')}: ${outcome}`;
+  }
+  return `#${entry.moveNumber} — Exchange ${entry.exchangedTiles}`;
+}
+
 function renderStats() {
   const state = currentState;
   if (!state) {
@@ -1771,27 +2661,22 @@ function renderStats() {
     return;
   }
 
-  bagCountEl.textContent = String(state.bag.length);
+  bagCountEl.textContent = String(visibleBagCount(state));
 
   const byPlayer = state.players.map((id) => ({
     id,
-    entries: state.history.filter((h) => h.playerId === id)
+    entries: state.history.map((entry, index) => ({ entry, index })).filter(({ entry }) => entry.playerId === id)
   }));
 
-  const formatEntry = (entry: (typeof state.history)[number]) => {
-    if (entry.type === 'MOVE') {
-      const words = entry.words.join(', ');
-      return `#${entry.moveNumber} — ${words} (+${entry.scoreDelta})`;
-    }
-    if (entry.type === 'PASS') return `#${entry.moveNumber} — Pass`;
-    return `#${entry.moveNumber} — Exchange ${entry.exchangedTiles}`;
-  };
-
   const blocks = byPlayer.map(({ id, entries }) => {
     const name = labels[id] ?? id;
     const items = entries.length
       ? `<ol class="history-list">${entries
-        .map((e) => `<li>${formatEntry(e)}</li>`)
+        .map(({ entry, index }) =>
+          entry.type === 'MOVE' && entry.words.length
+            ? `<li><button type="button" class="history-move" data-history-index="${index}" title="Show word details">${formatHistoryEntry(entry)}</button></li>`
+            : `<li>${formatHistoryEntry(entry)}</li>`
+        )
         .join('')}</ol>`
       : '<p class="hint">No moves yet.</p>';
     return `<div class="history-player"><h4>${name}</h4>${items}</div>`;
@@ -1800,93 +2685,625 @@ function renderStats() {
   moveHistoryEl.innerHTML = blocks.join('');
 }
 
-function renderAll() {
-  renderBoard();
-  renderRack();
-  renderScores();
-  renderStats();
-  renderTimer();
-  renderEndgameScanStatus();
-  renderGameOverUi();
-  renderReadyOverlay();
-  applyActionButtonsState();
-}
+let wordInfoRequest = 0;
 
-function applyActionButtonsState() {
+/** Opens the word panel for a played move: part of speech, base form and related forms. */
+async function openWordInfo(moveNumber: number, words: string[]) {
   const state = currentState;
-  const isOver = Boolean(meta?.gameOver);
-  const locked = isPreGameLocked();
-  applyActionButtonsStateToDom(
-    { confirmMoveBtn, passBtn, exchangeBtn, clearPlacementsBtn, mixRackBtn },
-    {
-      state,
-      localPlayerId: meta?.localPlayerId ?? null,
-      locked,
-      isOver,
-      placementsCount: placements.length
-    }
+  if (!state) return;
+  const request = ++wordInfoRequest;
+  wordInfoTitleEl.textContent = `Move #${moveNumber}`;
+  wordInfoBody.innerHTML = '<p class="hint">Looking up words…</p>';
+  wordInfoOverlay.style.display = '';
+  wordInfoOverlay.setAttribute('aria-hidden', 'false');
+
+  const variant = state.language === 'ru' ? meta?.russianDictionaryVariant : undefined;
+  const infos = await Promise.all(
+    words.map((word) => getWordInfo(word, state.language, variant).catch(() => null))
   );
+  if (request !== wordInfoRequest) return;
+  wordInfoBody.replaceChildren(...words.map((word, i) => formatWordInfo(word, infos[i])));
 }
 
-function renderTile(tile: Tile, selected = false, pending = false) {
-  const classes = ['tile'];
-  if (selected) classes.push('selected');
-  if (pending) classes.push('pending');
-  if (tile.blank && tile.letter === ' ') classes.push('blank');
+function closeWordInfo() {
+  wordInfoRequest += 1;
+  wordInfoOverlay.style.display = 'none';
+  wordInfoOverlay.setAttribute('aria-hidden', 'true');
+}
+
+function formatWordInfo(word: string, info: WordInfo | null): HTMLElement {
+  const section = document.createElement('section');
+  section.className = 'word-info';
+  const heading = document.createElement('h4');
+  heading.textContent = word;
+  section.append(heading);
+  const hint = (text: string) => {
+    const p = document.createElement('p');
+    p.className = 'hint';
+    p.textContent = text;
+    return p;
+  };
+  if (!info) {
+    section.append(hint('Not in the downloaded dictionary.'));
+    return section;
+  }
+  const rows: Array<[string, string | undefined]> = [
+    ['Entry', info.matchedAs && info.matchedAs !== 'word' ? info.word : undefined],
+    ['Part of speech', info.pos?.join(', ')],
+    ['Base form', info.base],
+    ['Plural', info.plural],
+    ['Forms', info.forms?.join(', ')]
+  ];
+  const details = rows.filter(([, value]) => value);
+  if (details.length > 0) {
+    const list = document.createElement('dl');
+    for (const [label, value] of details) {
+      const dt = document.createElement('dt');
+      dt.textContent = label;
+      const dd = document.createElement('dd');
+      dd.textContent = value ?? '';
+      list.append(dt, dd);
+    }
+    section.append(list);
+  } else {
+    section.append(hint('No grammar details in this dictionary.'));
+  }
+  if (info.note) {
+    const note = document.createElement('p');
+    note.className = 'word-info-note';
+    note.textContent = info.note;
+    section.append(note);
+  }
+  return section;
+}
+
+/** The dictionary the word judge and study tools use: the running game's, otherwise the one picked in setup. */
+function lookupDictionary(): { language: Language; variant?: 'full' | 'strict' } {
+  const language = currentState?.language ?? (languageSelect.value as Language);
+  if (language !== 'ru') return { language };
+  const variant = currentState ? meta?.russianDictionaryVariant : (russianVariantSelect.value as 'full' | 'strict');
+  return { language, variant };
+}
+
+function openWordJudge() {
+  const { language, variant } = lookupDictionary();
+  const name = variant === 'strict' ? `${languagePack(language).name} (strict)` : languagePack(language).name;
+  wordJudgeDictEl.textContent = `Ruling with the ${name} dictionary. A play is valid only if every word is.`;
+  wordJudgeResult.innerHTML = '';
+  wordJudgeOverlay.style.display = '';
+  wordJudgeOverlay.setAttribute('aria-hidden', 'false');
+  wordJudgeInput.focus();
+}
+
+function closeWordJudge() {
+  wordJudgeOverlay.style.display = 'none';
+  wordJudgeOverlay.setAttribute('aria-hidden', 'true');
+}
+
+async function runWordJudge() {
+  const words = parseJudgeInput(wordJudgeInput.value);
+  if (!words.length) {
+    wordJudgeResult.innerHTML = '<p class="hint">Enter at least one word.</p>';
+    return;
+  }
+  const { language, variant } = lookupDictionary();
+  const status = variant === 'strict' ? await ensureDictionaryStrict() : await ensureDictionary(language);
+  if (!status.available) {
+    wordJudgeResult.innerHTML =
+      '<p class="hint">This dictionary is not downloaded yet. Download it once while online; the judge then works offline.</p>';
+    return;
+  }
+
+  const overlays = lookupOverlays(language);
+  const ruling = await adjudicate(words, async (word) =>
+    applyOverlays(word, await hasWordWithVariant(word, language, variant), overlays)
+  );
+  const infos = await Promise.all(
+    ruling.words.map((w) => (w.valid ? getWordInfo(w.word, language, variant).catch(() => null) : null))
+  );
+  wordJudgeResult.innerHTML = `
+    <div class="judge-verdict ${ruling.valid ? 'valid' : 'invalid'}">${ruling.valid ? 'VALID' : 'INVALID'}</div>
+    <details class="judge-details">
+      <summary>Each word</summary>
+      <ul class="judge-words"></ul>
+    </details>
+  `;
+  // The words are whatever was typed, so they go in as text rather than markup.
+  wordJudgeResult.querySelector('.judge-words')!.replaceChildren(
+    ...ruling.words.map((w, i) => {
+      const item = document.createElement('li');
+      item.className = w.valid ? 'valid' : 'invalid';
+      item.textContent = `${w.valid ? '✓' : '✗'} ${w.word}`;
+      const pos = infos[i]?.pos;
+      if (pos?.length) {
+        const hint = document.createElement('span');
+        hint.className = 'hint';
+        hint.textContent = pos.join(', ');
+        item.append(' ', hint);
+      }
+      return item;
+    })
+  );
+}
+
+const STUDY_PLACEHOLDERS: Record<WordFinderQuery['kind'], string> = {
+  anagram: 'Rack, ? for a blank (RETAIN?)',
+  pattern: '? for one tile, * for any (?A??S)',
+  regex: 'e.g. QU.*[^S]',
+  contains: 'Tiles the word must hold (QZ)',
+  hooks: 'A word to hook (CARE)'
+};
+
+function openStudy() {
+  const { language, variant } = lookupDictionary();
+  const name = variant === 'strict' ? `${languagePack(language).name} (strict)` : languagePack(language).name;
+  studyDictEl.textContent = `Searching the ${name} dictionary. Scores use its tile values.`;
+  renderStudyPlaceholder();
+  studyOverlay.style.display = '';
+  studyOverlay.setAttribute('aria-hidden', 'false');
+  studyInput.focus();
+}
+
+function closeStudy() {
+  studyOverlay.style.display = 'none';
+  studyOverlay.setAttribute('aria-hidden', 'true');
+}
+
+function renderStudyPlaceholder() {
+  studyInput.placeholder = STUDY_PLACEHOLDERS[studyKindSelect.value as WordFinderQuery['kind']];
+}
+
+function runStudyQuery() {
+  const text = studyInput.value.trim();
+  if (!text) return;
+  const requestId = crypto.randomUUID();
+  if (!wordFinderWorker) {
+    studyView = { requestId, status: 'failed', words: [], message: 'Study tools are not available in this browser.' };
+    renderStudyResults();
+    return;
+  }
+  const kind = studyKindSelect.value as WordFinderQuery['kind'];
+  const query: WordFinderQuery =
+    kind === 'anagram' ? { kind, rack: text }
+      : kind === 'pattern' ? { kind, pattern: text }
+        : kind === 'regex' ? { kind, source: text }
+          : kind === 'contains' ? { kind, letters: text }
+            : { kind, word: text };
+  const { language, variant } = lookupDictionary();
+  studyView = { requestId, status: 'running', words: [] };
+  renderStudyResults();
+  wordFinderWorker.postMessage({
+    type: 'WORD_FINDER_REQUEST',
+    requestId,
+    language,
+    russianVariant: variant,
+    overlays: lookupOverlays(language),
+    minLength: resolveMinWordLength(),
+    query,
+    sort: studySortSelect.value as WordFinderSort,
+    limit: STUDY_RESULT_LIMIT
+  });
+}
+
+function handleWordFinderMessage(msg: WordFinderResponse) {
+  if (!msg || msg.type !== 'WORD_FINDER_RESPONSE') return;
+  if (!studyView || studyView.requestId !== msg.requestId) return;
+  if (msg.words) {
+    studyView = { ...studyView, status: 'done', words: msg.words, hooks: msg.hooks, truncated: msg.truncated };
+  } else {
+    const message =
+      msg.reason === 'dictionary_unavailable'
+        ? 'Download the dictionary for this language to use the study tools.'
+        : `Search failed: ${msg.error ?? 'unknown error'}`;
+    studyView = { ...studyView, status: 'failed', message };
+  }
+  renderStudyResults();
+}
+
+function renderStudyResults() {
+  const view = studyView;
+  if (!view) {
+    studyResultsEl.innerHTML = '';
+    return;
+  }
+  if (view.status === 'running') {
+    studyResultsEl.innerHTML = '<p class="hint">Searching…</p>';
+    return;
+  }
+  if (view.status === 'failed') {
+    const failure = document.createElement('p');
+    failure.className = 'hint';
+    failure.textContent = view.message ?? '';
+    studyResultsEl.replaceChildren(failure);
+    return;
+  }
+  // Results arrive sorted by the option picked when searching; re-sort if it changed since.
+  const words = sortFoundWords(view.words, studySortSelect.value as WordFinderSort);
+  const hint = (text: string) => {
+    const p = document.createElement('p');
+    p.className = 'hint';
+    p.textContent = text;
+    return p;
+  };
+  // The hook word is typed by the user, so everything here goes in as text rather than markup.
+  const parts: HTMLElement[] = [];
+  if (view.hooks) {
+    const { word, valid, front, back } = view.hooks;
+    parts.push(
+      hint(`${word}${valid ? '' : ' (not a word itself)'}: front ${front.join(' ') || '—'}, back ${back.join(' ') || '—'}`)
+    );
+  }
+  if (words.length) {
+    const list = document.createElement('ol');
+    list.className = 'study-words';
+    list.append(
+      ...words.map((w) => {
+        const item = document.createElement('li');
+        const word = document.createElement('span');
+        word.textContent = w.word;
+        const detail = document.createElement('span');
+        detail.className = 'hint';
+        detail.textContent = `${w.length} · ${w.score}`;
+        item.append(word, detail);
+        return item;
+      })
+    );
+    parts.push(list);
+  } else {
+    parts.push(hint('No words found.'));
+  }
+  if (view.truncated) parts.push(hint(`Showing the first ${STUDY_RESULT_LIMIT} matches.`));
+  studyResultsEl.replaceChildren(...parts);
+}
+
+/** Lists the judge and study tools apply: the session's during a game, otherwise the checked ones. */
+function lookupOverlays(language: Language): WordOverlay[] {
+  if (currentState) return sessionOverlays;
+  return savedOverlays.filter((o) => o.enabled && o.language === language);
+}
+
+async function loadWordOverlays() {
+  try {
+    savedOverlays = await listWordOverlays();
+  } catch (err) {
+    appendLog(`Could not load word lists: ${err instanceof Error ? err.message : String(err)}`);
+  }
+  renderWordOverlays();
+}
+
+function renderWordOverlays() {
+  const language = languageSelect.value as Language;
+  const lists = savedOverlays
+    .filter((o) => o.language === language)
+    .sort((a, b) => a.name.localeCompare(b.name));
+  if (!lists.length) {
+    wordListsEl.innerHTML = `<p class="hint">No lists for ${languagePack(language).name} yet.</p>`;
+    return;
+  }
+  // List names and ids arrive from shared codes, so the rows are built without innerHTML.
+  wordListsEl.replaceChildren(
+    ...lists.map((o) => {
+      const row = document.createElement('div');
+      row.className = 'word-list-row';
+      const label = document.createElement('label');
+      label.className = 'row gap';
+      const toggle = document.createElement('input');
+      toggle.type = 'checkbox';
+      toggle.dataset.overlayToggle = o.id;
+      toggle.checked = !!o.enabled;
+      const name = document.createElement('span');
+      const counts = document.createElement('span');
+      counts.className = 'hint';
+      counts.textContent = `(+${o.allow.length} / −${o.block.length})`;
+      name.append(`${o.name} `, counts);
+      label.append(toggle, name);
+      const button = (text: string, key: 'overlayShare' | 'overlayEdit' | 'overlayDelete') => {
+        const btn = document.createElement('button');
+        btn.className = 'ghost';
+        btn.textContent = text;
+        btn.dataset[key] = o.id;
+        return btn;
+      };
+      row.append(label, button('Share', 'overlayShare'), button('Edit', 'overlayEdit'), button('Delete', 'overlayDelete'));
+      return row;
+    })
+  );
+}
+
+async function storeWordOverlay(overlay: WordOverlay) {
+  await saveWordOverlay(overlay);
+  savedOverlays = [...savedOverlays.filter((o) => o.id !== overlay.id), overlay];
+  renderWordOverlays();
+}
+
+function editWordOverlay(id: string) {
+  const overlay = savedOverlays.find((o) => o.id === id);
+  if (!overlay) return;
+  editingOverlayId = id;
+  wordListEditorTitle.textContent = `Edit “${overlay.name}”`;
+  wordListNameInput.value = overlay.name;
+  wordListAllowInput.value = overlay.allow.join('\n');
+  wordListBlockInput.value = overlay.block.join('\n');
+  wordListEditor.open = true;
+}
+
+function resetWordOverlayEditor() {
+  editingOverlayId = null;
+  wordListEditorTitle.textContent = 'New list';
+  wordListNameInput.value = '';
+  wordListAllowInput.value = '';
+  wordListBlockInput.value = '';
+  wordListEditor.open = false;
+}
+
+async function saveEditedWordOverlay() {
+  const name = wordListNameInput.value.trim();
+  if (!name) {
+    showToast('Give the list a name.', 'danger');
+    return;
+  }
+  const existing = savedOverlays.find((o) => o.id === editingOverlayId);
+  const language = existing?.language ?? (languageSelect.value as Language);
+  await storeWordOverlay({
+    id: existing?.id ?? crypto.randomUUID(),
+    name,
+    language,
+    allow: parseOverlayWords(wordListAllowInput.value, language),
+    block: parseOverlayWords(wordListBlockInput.value, language),
+    enabled: existing?.enabled ?? true,
+    updatedAt: Date.now()
+  });
+  appendLog(`Saved word list “${name}”.`);
+  resetWordOverlayEditor();
+}
+
+async function removeWordOverlay(id: string) {
+  const overlay = savedOverlays.find((o) => o.id === id);
+  if (!overlay || !window.confirm(`Delete the word list “${overlay.name}”?`)) return;
+  await deleteWordOverlay(id);
+  savedOverlays = savedOverlays.filter((o) => o.id !== id);
+  if (editingOverlayId === id) resetWordOverlayEditor();
+  renderWordOverlays();
+}
+
+async function shareWordOverlay(id: string) {
+  const overlay = savedOverlays.find((o) => o.id === id);
+  if (overlay) await openQrShare(`Word list “${overlay.name}”`, serializeOverlay(overlay));
+}
+
+async function importWordOverlay(text: string) {
+  let overlay: WordOverlay;
+  try {
+    overlay = parseSharedOverlay(text);
+  } catch (err) {
+    showToast(err instanceof Error ? err.message : String(err), 'danger');
+    return;
+  }
+  await storeWordOverlay(overlay);
+  appendLog(`Imported word list “${overlay.name}” (${languagePack(overlay.language).name}).`);
+  showToast(`Imported “${overlay.name}”.`);
+}
+
+async function openQrShare(title: string, text: string) {
+  qrShareTitle.textContent = title;
+  qrShareOverlay.style.display = '';
+  qrShareOverlay.setAttribute('aria-hidden', 'false');
+  await showQrCode(qrShareImg, text);
+}
+
+function closeQrShare() {
+  stopQrCode(qrShareImg);
+  qrShareOverlay.style.display = 'none';
+  qrShareOverlay.setAttribute('aria-hidden', 'true');
+}
+
+function renderAll() {
+  renderBoard();
+  renderRack();
+  renderScores();
+  renderStats();
+  renderTimer();
+  renderEndgameScanStatus();
+  renderGameOverUi();
+  renderReadyOverlay();
+  renderHandoffOverlay();
+  renderReplayBar();
+  applyActionButtonsState();
+}
+
+/** Current replay ply, rebuilding the frames if turns were played since the viewer opened. */
+function currentReplayFrame(): ReplayFrame | null {
+  const state = currentState;
+  if (replayView?.imported) return replayView.replay.frames[replayView.index];
+  if (!replayView || !state) return null;
+  if (replayView.sessionId !== state.sessionId) {
+    replayView = null;
+    return null;
+  }
+  if (replayView.historyLength !== state.history.length) {
+    const atEnd = replayView.index === replayView.replay.frames.length - 1;
+    replayView.replay = buildReplay(state);
+    replayView.historyLength = state.history.length;
+    const last = replayView.replay.frames.length - 1;
+    replayView.index = atEnd ? last : Math.min(replayView.index, last);
+  }
+  return replayView.replay.frames[replayView.index];
+}
+
+function openReplay() {
+  const state = currentState;
+  if (!state) return;
+  const replay = buildReplay(state);
+  replayView = { replay, index: 0, sessionId: state.sessionId, historyLength: state.history.length };
+  if (!replay.complete) {
+    showToast('Part of this game was saved without full move details; the replay may not match the board.');
+  }
+  gameOverOverlayDismissed = true;
+  renderAll();
+}
+
+function openImportedReplay(imported: GcgGame) {
+  const { state } = imported;
+  replayView = { replay: buildReplay(state), index: 0, sessionId: state.sessionId, historyLength: state.history.length, imported };
+  gameOverOverlayDismissed = true;
+  renderAll();
+}
+
+async function importGcgFile(file: File) {
+  try {
+    openImportedReplay(importGcg(await file.text()));
+    appendLog(`Imported ${file.name} for replay.`);
+  } catch (err) {
+    showToast(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`, 'danger');
+  }
+}
+
+async function loadCustomBoardLayout(file: File) {
+  try {
+    customBoardLayout = parseBoardLayout(await file.text());
+    boardLayoutHintEl.textContent = `Loaded "${customBoardLayout.name}" (${customBoardLayout.size}×${customBoardLayout.size}).`;
+  } catch (err) {
+    showToast(`Could not read ${file.name}: ${err instanceof Error ? err.message : String(err)}`, 'danger');
+    if (!customBoardLayout) boardLayoutSelect.value = STANDARD_LAYOUT.id;
+  }
+}
+
+function selectedBoardLayout(): BoardLayout {
+  if (boardLayoutSelect.value === 'custom') return customBoardLayout ?? STANDARD_LAYOUT;
+  return BOARD_LAYOUTS.find((layout) => layout.id === boardLayoutSelect.value) ?? STANDARD_LAYOUT;
+}
+
+function exportCurrentGame() {
+  const state = currentState;
+  if (!state) return;
+  const gcg = exportGcg(state, { labels, finalScores: meta?.gameOver?.finalScores });
+  const url = URL.createObjectURL(new Blob([gcg], { type: 'text/plain;charset=utf-8' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `scrabble-${new Date().toISOString().slice(0, 10)}.gcg`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+function closeReplay() {
+  replayView = null;
+  renderAll();
+}
+
+/** Moves the viewer by `delta` plies (±Infinity jumps to the first/last). */
+function stepReplay(delta: number) {
+  if (!replayView) return;
+  const last = replayView.replay.frames.length - 1;
+  replayView.index = Math.max(0, Math.min(last, replayView.index + delta));
+  renderBoard();
+  renderReplayBar();
+}
+
+function renderReplayBar() {
+  const frame = currentReplayFrame();
+  replayBtn.disabled = !currentState;
+  exportGcgBtn.disabled = !currentState;
+  if (!replayView || !frame) {
+    replayBar.style.display = 'none';
+    return;
+  }
+  const last = replayView.replay.frames.length - 1;
+  const names = replayView.imported?.labels ?? labels;
+  replayBar.style.display = '';
+  const who = frame.entry ? `${names[frame.entry.playerId] ?? frame.entry.playerId}: ` : '';
+  replayLabelEl.textContent = frame.entry
+    ? `Turn ${frame.ply}/${last} — ${who}${formatHistoryEntry(frame.entry).replace(/^#\d+ — /, '')}`
+    : `Start — 0/${last}`;
+  replayScoresEl.textContent = Object.entries(frame.scores)
+    .map(([id, score]) => `${names[id] ?? id}: ${score}`)
+    .join(' • ');
+  replayFirstBtn.disabled = replayView.index === 0;
+  replayPrevBtn.disabled = replayView.index === 0;
+  replayNextBtn.disabled = replayView.index === last;
+  replayLastBtn.disabled = replayView.index === last;
+}
+
+function applyActionButtonsState() {
+  const state = currentState;
+  const isOver = Boolean(meta?.gameOver);
+  // Nothing can be played from the replay viewer; exit it to get back to the live game.
+  const locked = isPreGameLocked() || replayView !== null;
+  applyActionButtonsStateToDom(
+    { confirmMoveBtn, passBtn, exchangeBtn, clearPlacementsBtn, mixRackBtn },
+    {
+      state,
+      localPlayerId: meta?.localPlayerId ?? null,
+      locked,
+      isOver,
+      placementsCount: placements.length
+    }
+  );
+  renderChallengeControls(locked || isOver);
+  renderTakebackControls(locked || isOver);
+  renderHintControls(locked || isOver);
+}
+
+function renderTakebackControls(disabled: boolean) {
+  const request = activeTakebackRequest();
+  const localId = meta?.localPlayerId;
+  const requester = takebackRequester();
+  takebackBtn.disabled = disabled || !requester || Boolean(request) || !takebackAvailable(requester);
+
+  const incoming = request && localId && request.requestedBy !== localId ? request : null;
+  takebackPrompt.style.display = incoming ? '' : 'none';
+  if (incoming) {
+    takebackPromptText.textContent = `${labels[incoming.requestedBy] ?? incoming.requestedBy} asks to take back their last turn.`;
+  }
+}
+
+/** Challenge / Accept are offered only to the player on turn while the previous play is pending. */
+function renderChallengeControls(disabled: boolean) {
+  const pending = currentState?.pendingChallenge;
+  const canRespond = Boolean(
+    pending && meta && currentState?.currentPlayer === meta.localPlayerId && pending.playerId !== meta.localPlayerId
+  );
+  challengeBtn.style.display = canRespond ? '' : 'none';
+  acceptPlayBtn.style.display = canRespond ? '' : 'none';
+  challengeBtn.disabled = !canRespond || disabled;
+  acceptPlayBtn.disabled = !canRespond || disabled;
+  if (pending && canRespond) {
+    challengeBtn.textContent = `Challenge ${pending.words.join(', ')}`;
+  }
+}
+
+function maybeShowChallengeToast(state: GameState) {
+  const last = state.history[state.history.length - 1];
+  if (!last || last.type !== 'CHALLENGE') return;
+  const token = `${state.sessionId}:${last.moveNumber}`;
+  if (token === lastShownChallengeToken) return;
+  lastShownChallengeToken = token;
+
+  const challenger = labels[last.playerId] ?? last.playerId;
+  const challenged = labels[last.challengedPlayerId] ?? last.challengedPlayerId;
+  const message = last.upheld
+    ? `Challenge upheld: ${last.invalidWords.join(', ')} not in the dictionary. ${challenged}'s play is withdrawn.`
+    : last.penalty > 0
+      ? `Challenge failed: ${last.words.join(', ')} stands. ${challenger} loses ${last.penalty} points.`
+      : `Challenge failed: ${last.words.join(', ')} stands. ${challenger} loses the turn.`;
+  showToast(message, last.upheld ? 'info' : 'danger');
+  appendLog(message);
+}
+
+function renderTile(tile: Tile, selected = false, pending = false) {
+  const classes = ['tile'];
+  if (selected) classes.push('selected');
+  if (pending) classes.push('pending');
+  if (tile.blank && tile.letter === ' ') classes.push('blank');
   return `<button class="${classes.join(' ')}" data-tile="${tile.id}">
-    <span class="letter">${tile.blank && tile.letter === ' ' ? '?' : tile.letter}</span>
+    <span class="letter${tile.letter.length > 1 ? ' digraph' : ''}">${tile.blank && tile.letter === ' ' ? '?' : tile.letter}</span>
     <span class="value">${tile.value}</span>
   </button>`;
 }
 
-function premiumClass(x: number, y: number): string {
-  if (x === 7 && y === 7) return 'center';
-  const tripleWord = [0, 7, 14];
-  if (tripleWord.includes(x) && tripleWord.includes(y)) return 'tw';
-  if ((x === y || x + y === 14) && x !== 0 && x !== 7 && x !== 14) return 'dw';
-  const tl = [
-    [1, 5],
-    [1, 9],
-    [5, 1],
-    [5, 5],
-    [5, 9],
-    [5, 13],
-    [9, 1],
-    [9, 5],
-    [9, 9],
-    [9, 13],
-    [13, 5],
-    [13, 9]
-  ];
-  const dl = [
-    [0, 3],
-    [0, 11],
-    [2, 6],
-    [2, 8],
-    [3, 0],
-    [3, 7],
-    [3, 14],
-    [6, 2],
-    [6, 6],
-    [6, 8],
-    [6, 12],
-    [7, 3],
-    [7, 11],
-    [8, 2],
-    [8, 6],
-    [8, 8],
-    [8, 12],
-    [11, 0],
-    [11, 7],
-    [11, 14],
-    [12, 6],
-    [12, 8],
-    [14, 3],
-    [14, 11]
-  ];
-  if (tl.some(([cx, cy]) => cx === x && cy === y)) return 'tl';
-  if (dl.some(([cx, cy]) => cx === x && cy === y)) return 'dl';
-  return '';
+function premiumClass(layout: BoardLayout, x: number, y: number): string {
+  const premium = premiumMapFor(layout).get(`${x},${y}`);
+  if (premium) return premium.toLowerCase();
+  return x === layout.center[0] && y === layout.center[1] ? 'start' : '';
 }
 
 function onRackClick(ev: MouseEvent) {
@@ -1900,7 +3317,7 @@ function onRackClick(ev: MouseEvent) {
 function onBoardClick(ev: MouseEvent) {
   const cell = (ev.target as HTMLElement).closest<HTMLDivElement>('[data-x][data-y]');
   if (!cell || !currentState || !meta) return;
-  if (isPreGameLocked()) return;
+  if (isPreGameLocked() || replayView) return;
   if (meta.gameOver) return;
   if (currentState.currentPlayer !== meta.localPlayerId) return;
   const x = Number(cell.dataset.x);
@@ -1978,10 +3395,7 @@ function takeAvailableTile(tileId: string): Tile | null {
 
 function selectBlankLetter(tile: Tile): Promise<Tile | null> {
   return new Promise((resolve) => {
-    const language = meta?.language ?? 'en';
-    const letters = language === 'en'
-      ? 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'
-      : 'АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ';
+    const letters = languagePack(meta?.language ?? 'en').alphabet;
 
     // Create modal dialog
     const modal = document.createElement('div');
@@ -2013,7 +3427,7 @@ function selectBlankLetter(tile: Tile): Promise<Tile | null> {
       <h3 style="margin: 0 0 12px 0; color: #f1f5f9; font-size: 1.25rem; font-weight: 600;">Choose blank tile letter</h3>
       <p style="margin: 0 0 20px 0; color: #94a3b8; font-size: 0.9rem;">Select which letter this blank tile will represent:</p>
       <div style="display: grid; grid-template-columns: repeat(auto-fill, minmax(42px, 1fr)); gap: 8px; margin-bottom: 20px;">
-        ${letters.split('').map(letter => `
+        ${letters.map(letter => `
           <button class="blank-letter-btn" data-letter="${letter}" style="
             padding: 10px 8px;
             border: 1px solid rgba(148, 163, 184, 0.2);
@@ -2088,19 +3502,32 @@ async function startSession() {
   const language = languageSelect.value as Language;
   languageSelect.value = language;
   const russianVariant = language === 'ru' ? (russianVariantSelect.value as 'full' | 'strict') : undefined;
-  const me = meInput.value || 'Player 1';
+  const me = (mode === 'local' ? localPlayerInputs[0].value : meInput.value) || 'Player 1';
   const peer = peerInput.value || 'Player 2';
-  const localId = mode === 'solo' ? 'p1' : 'host';
-  const remoteId = mode === 'solo' ? undefined : 'client';
+  const localId = isOfflineMode(mode) ? 'p1' : 'host';
+  const remoteId = isOfflineMode(mode) ? undefined : 'client';
+  const botDifficulty = mode === 'solo' ? (botDifficultySelect.value as BotDifficulty | '') || undefined : undefined;
   const players = [localId];
   if (remoteId) players.push(remoteId);
+  if (botDifficulty) players.push(BOT_PLAYER_ID);
+  // Pass-and-play: first two seats always play; seats 3–4 only when named.
+  const seatNames: Record<string, string> = {};
+  if (mode === 'local') {
+    localPlayerInputs.slice(1).forEach((input, i) => {
+      const name = input.value.trim();
+      if (i > 0 && !name) return;
+      const id = `p${players.length + 1}`;
+      players.push(id);
+      seatNames[id] = name || `Player ${players.length}`;
+    });
+  }
 
   const minWordLength = Math.max(1, Math.floor(Number(minLengthInput.value) || 2));
   setMinWordLength(minWordLength);
 
   const timerDurationSec = resolveTimerDurationSeconds();
   const timerEnabled = timerEnabledToggle.checked && timerDurationSec > 0;
-  const shouldStartTimerNow = mode === 'solo';
+  const shouldStartTimerNow = isOfflineMode(mode);
 
   await ensureLanguage(language);
   // Ensure the selected Russian dictionary variant is available
@@ -2108,15 +3535,23 @@ async function startSession() {
     await ensureDictionaryStrict();
   }
 
-  const state = game.start(language, players);
+  const state = game.start(language, players, {
+    challengeRule: effectiveChallengeRule(challengeRuleSelect.value as ChallengeRule, Boolean(botDifficulty)),
+    layout: selectedBoardLayout()
+  });
+  sessionOverlays = savedOverlays.filter((o) => o.enabled && o.language === language);
   meta = {
     mode,
     language,
-    isHost: mode === 'host' || mode === 'solo',
+    isHost: mode === 'host' || isOfflineMode(mode),
     localPlayerId: localId,
     russianDictionaryVariant: russianVariant,
     remotePlayerId: remoteId,
+    botPlayerId: botDifficulty ? BOT_PLAYER_ID : undefined,
+    botDifficulty,
     sessionId: state.sessionId,
+    hintAllowance: Number(hintAllowanceSelect.value) || 0,
+    wordOverlays: sessionOverlays.length ? sessionOverlays.map(overlayRef) : undefined,
     minWordLength,
     timerEnabled,
     timerDurationSec,
@@ -2130,14 +3565,24 @@ async function startSession() {
   if (remoteId) {
     labels[remoteId] = peer;
   }
+  if (botDifficulty) {
+    labels[BOT_PLAYER_ID] = `Computer (${BOT_DIFFICULTY_LABELS[botDifficulty]})`;
+  }
+  Object.assign(labels, seatNames);
   currentState = state;
   placements = [];
+  handoffPending = mode === 'local';
   rackOrder = [];
   rackOrderSessionId = state.sessionId;
+  botTurnInFlight = null;
   resetTurnTimer();
   renderAll();
   updateValidation();
-  appendLog(`Started ${mode} game as ${me}`);
+  if (mode === 'local') {
+    appendLog(`Started pass-and-play game: ${players.map((id) => labels[id]).join(', ')}`);
+  } else {
+    appendLog(`Started ${mode} game as ${me}${botDifficulty ? ` vs ${labels[BOT_PLAYER_ID]}` : ''}`);
+  }
 
   await persistSnapshot();
 
@@ -2171,9 +3616,10 @@ async function buildHostOffer() {
   }
   const { connection: conn, offer, applyAnswer: apply } = await createHost(callbacks);
   connection = conn;
+  linkRoute = 'code';
   hostApplyAnswer = apply;
   offerText.value = offer;
-  offerQr.src = await toQrDataUrl(offer);
+  await showQrCode(offerQr, offer);
   p2pStatus.textContent = 'Offer created - waiting for answer';
   p2pStatus.className = 'pill';
   appendLog('Offer created. Share this code/QR, then paste the answer you get back.');
@@ -2189,7 +3635,12 @@ async function applyHostAnswer() {
     appendLog('Paste or scan an answer first.');
     return;
   }
-  await hostApplyAnswer(answer);
+  try {
+    await hostApplyAnswer(answer);
+  } catch (err) {
+    appendLog(err instanceof Error ? err.message : String(err));
+    return;
+  }
   p2pStatus.textContent = 'Connecting...';
   p2pStatus.className = 'pill';
   appendLog('Answer applied. Waiting for data channel to open.');
@@ -2212,15 +3663,92 @@ async function buildClientAnswer() {
       // ignore
     }
   }
-  const { connection: conn, answer } = await createClient(callbacks, offer);
+  let created: Awaited<ReturnType<typeof createClient>>;
+  try {
+    created = await createClient(callbacks, offer);
+  } catch (err) {
+    appendLog(err instanceof Error ? err.message : String(err));
+    return;
+  }
+  const { connection: conn, answer } = created;
   connection = conn;
+  linkRoute = 'code';
   clientAnswer.value = answer;
-  answerQr.src = await toQrDataUrl(answer);
+  await showQrCode(answerQr, answer);
   p2pStatus.textContent = 'Answer ready - share with host';
   p2pStatus.className = 'pill';
   appendLog('Answer created. Share this code/QR back to the host.');
 }
 
+/** Pairs with another tab of this browser over BroadcastChannel, skipping the offer/answer exchange. */
+async function openTabLink() {
+  if (mode === 'host') {
+    if (!meta?.isHost || !currentState) {
+      appendLog('Start a Host session first, then open the game in another tab.');
+      return;
+    }
+    await ensureLanguage(languageSelect.value as Language);
+  }
+  closeConnection();
+  const callbacks = buildCallbacks();
+  connection = mode === 'host' ? createBroadcastHost(callbacks) : createBroadcastClient(callbacks);
+  linkRoute = 'tab';
+  hostApplyAnswer = null;
+  p2pStatus.textContent = 'Waiting for the other tab';
+  p2pStatus.className = 'pill';
+  appendLog(
+    mode === 'host'
+      ? 'Open this app in another tab, choose Join and press "Join a host tab".'
+      : 'Looking for a host in another tab of this browser.'
+  );
+}
+
+/** Meets the peer in a room on the signaling relay; offer, answer and ICE candidates go through it. */
+async function openRelayLink() {
+  const url = relayUrlInput.value.trim();
+  if (!url) {
+    appendLog('Enter the signaling relay address first.');
+    return;
+  }
+  if (mode === 'host') {
+    if (!meta?.isHost || !currentState) {
+      appendLog('Start a Host session first, then open a room.');
+      return;
+    }
+    await ensureLanguage(languageSelect.value as Language);
+    if (!roomCodeInput.value.trim()) roomCodeInput.value = createRoomCode();
+  }
+  const room = normalizeRoomCode(roomCodeInput.value);
+  if (!room) {
+    appendLog('Room codes are 4 to 32 letters, digits or dashes.');
+    return;
+  }
+  roomCodeInput.value = room;
+  localStorage.setItem(RELAY_URL_KEY, url);
+
+  closeConnection();
+  connection = connectViaRelay(mode === 'host' ? 'host' : 'client', buildCallbacks(), { url, room });
+  linkRoute = 'relay';
+  hostApplyAnswer = null;
+  p2pStatus.textContent = `Waiting in room ${room}`;
+  p2pStatus.className = 'pill';
+  appendLog(mode === 'host' ? `Room ${room} is open. Give the code to your opponent.` : `Joining room ${room}...`);
+}
+
+/** Drops the current link without triggering the reconnect flow (handleDisconnect ignores a null connection). */
+function closeConnection() {
+  stopQrCode(offerQr);
+  stopQrCode(answerQr);
+  if (!connection) return;
+  const old = connection;
+  connection = null;
+  try {
+    old.close();
+  } catch {
+    // ignore
+  }
+}
+
 function buildCallbacks(): P2PCallbacks {
   return {
     onMessage: (data: unknown) => handleMessage(data),
@@ -2228,6 +3756,9 @@ function buildCallbacks(): P2PCallbacks {
       p2pStatus.textContent = 'Connected';
       p2pStatus.className = 'pill active';
       appendLog('Data channel open.');
+      // The handshake is done; stop cycling animated QR frames nobody needs to scan.
+      stopQrCode(offerQr);
+      stopQrCode(answerQr);
 
       // Hide the disconnect overlay and restore timer
       hideDisconnectOverlay();
@@ -2254,7 +3785,9 @@ function buildCallbacks(): P2PCallbacks {
     },
     onLog: (msg: string) => appendLog(msg),
     onConnectionStateChange: (state) => {
-      if (state === 'failed' || state === 'disconnected' || state === 'closed') {
+      if (state === 'failed' || state === 'disconnected') {
+        void recoverConnection();
+      } else if (state === 'closed') {
         handleDisconnect();
       }
     }
@@ -2269,8 +3802,8 @@ function showDisconnectOverlay(message?: string) {
   }
   disconnectOverlay.style.display = '';
 
-  // Pause the timer by saving its remaining time
-  if (meta?.timerEnabled && meta.turnDeadline) {
+  // Pause the timer by saving its remaining time (once: a failed recovery shows the overlay again)
+  if (meta?.timerEnabled && meta.turnDeadline && !disconnectTimerState) {
     const remaining = Math.max(0, meta.turnDeadline - Date.now());
     disconnectTimerState = { deadline: meta.turnDeadline, remaining };
     stopTimerTicker();
@@ -2289,6 +3822,39 @@ function hideDisconnectOverlay() {
   disconnectTimerState = null;
 }
 
+/**
+ * First response to a dropped link: let the transport restore it in place (an ICE restart
+ * for WebRTC), and only when that gives up go through handleDisconnect to a new handshake.
+ */
+async function recoverConnection() {
+  const conn = connection;
+  if (!conn) return;
+  if (!conn.recover) {
+    handleDisconnect();
+    return;
+  }
+  if (recoveringConnection) return;
+  recoveringConnection = true;
+  p2pStatus.textContent = 'Reconnecting...';
+  p2pStatus.className = 'pill';
+  appendLog('Connection dropped. Trying to restore it...');
+  if (currentState && !isOfflineMode(mode)) showDisconnectOverlay('Connection dropped. Reconnecting...');
+
+  const restored = await conn.recover();
+  recoveringConnection = false;
+  // A manual reconnect may have replaced the link in the meantime.
+  if (connection !== conn) return;
+  if (restored) {
+    p2pStatus.textContent = 'Connected';
+    p2pStatus.className = 'pill active';
+    appendLog('Connection restored.');
+    hideDisconnectOverlay();
+  } else {
+    appendLog('Could not restore the connection automatically.');
+    handleDisconnect();
+  }
+}
+
 function handleDisconnect() {
   // Guard: If connection is null, we are likely manually resetting/reconnecting,
   // so ignore callbacks from dying connections to prevent loops.
@@ -2300,17 +3866,22 @@ function handleDisconnect() {
   appendLog('P2P connection lost or failed.');
 
   // If we are in the middle of a game, show overlay and try to help the user reconnect.
-  if (currentState && mode !== 'solo') {
-    const roleMessage = mode === 'host'
-      ? 'Creating a new connection offer...'
-      : 'Please scan the host\'s QR code again to reconnect.';
+  if (currentState && !isOfflineMode(mode)) {
+    const roleMessage =
+      linkRoute === 'tab'
+        ? 'Waiting for the other tab to reconnect...'
+        : linkRoute === 'relay'
+          ? 'Rejoining the room...'
+          : mode === 'host'
+            ? 'Creating a new connection offer...'
+            : 'Please scan the host\'s QR code again to reconnect.';
     showDisconnectOverlay(roleMessage);
     void triggerReconnect();
   }
 }
 
 async function triggerReconnect() {
-  if (mode === 'solo') return;
+  if (isOfflineMode(mode)) return;
 
   // Cleanup old connection if exists, preventing loop via null check in handleDisconnect
   if (connection) {
@@ -2329,7 +3900,15 @@ async function triggerReconnect() {
     renderVisibility();
   }
 
-  if (mode === 'host') {
+  if (linkRoute === 'tab') {
+    appendLog('Tab link lost. Waiting for the other tab to come back...');
+    await openTabLink();
+  } else if (linkRoute === 'relay') {
+    appendLog('Connection lost. Rejoining the room...');
+    // Give the relay a moment to notice the old socket is gone, or the role is still taken.
+    await new Promise(r => setTimeout(r, 1000));
+    await openRelayLink();
+  } else if (mode === 'host') {
     appendLog('Host: Connection lost. Recreating offer...');
     // Small delay to ensure previous connection teardown
     await new Promise(r => setTimeout(r, 500));
@@ -2358,12 +3937,14 @@ async function handleMessage(data: unknown) {
       meta = { ...incoming, isHost: false };
     }
     labels = msg.labels;
+    sessionOverlays = msg.overlays ?? [];
     game.resume(msg.state);
     currentState = game.getState();
     rackOrder = [];
     rackOrderSessionId = currentState.sessionId;
     placements = [];
     remoteDraft = null;
+    restoreHintDraft();
     languageSelect.value = meta.language;
     // Update Russian variant selector if applicable
     if (meta.language === 'ru') {
@@ -2390,6 +3971,8 @@ async function handleMessage(data: unknown) {
       maybeShowTimeoutToastFromMeta(meta);
       maybeShowGameOverToastFromMeta(meta);
     }
+    maybeShowChallengeToast(currentState);
+    maybeShowHintNotice(currentState);
     return;
   }
 
@@ -2443,6 +4026,36 @@ async function handleMessage(data: unknown) {
     return;
   }
 
+  if (msg.type === 'ACTION_TAKEBACK_REQUEST') {
+    if (!currentState || msg.moveNumber !== currentState.moveNumber || activeTakebackRequest()) return;
+    if (!planTakeback(msg.playerId)) return;
+    meta.takeback = { requestedBy: msg.playerId, moveNumber: msg.moveNumber, at: Date.now() };
+    await persistSnapshot();
+    sendSync();
+    renderAll();
+    showToast(`${labels[msg.playerId] ?? msg.playerId} asks to take back their last turn.`);
+    return;
+  }
+
+  if (msg.type === 'ACTION_HINT') {
+    if (!currentState || meta.gameOver) return;
+    if (msg.level === 1 && hintsRemaining(meta.hintAllowance, currentState.history, msg.playerId) === 0) return;
+    if (!game.recordHint(msg.playerId, msg.level).success) return;
+    currentState = game.getState();
+    await persistSnapshot();
+    sendSync();
+    renderAll();
+    maybeShowHintNotice(currentState);
+    return;
+  }
+
+  if (msg.type === 'ACTION_TAKEBACK_RESPONSE') {
+    const request = activeTakebackRequest();
+    if (!request || request.moveNumber !== msg.moveNumber || request.requestedBy === msg.playerId) return;
+    await resolveTakeback(request, msg.accepted);
+    return;
+  }
+
   await ensureLanguage(meta.language);
 
   if (msg.type === 'ACTION_MOVE') {
@@ -2463,7 +4076,8 @@ async function handleMessage(data: unknown) {
           reason: result.gameEnded.reason,
           at: Date.now(),
           moveNumber: currentState.moveNumber,
-          finalScores: result.gameEnded.finalScores
+          finalScores: result.gameEnded.finalScores,
+          wentOut: result.gameEnded.wentOut
         };
         await persistSnapshot();
         sendSync();
@@ -2490,7 +4104,8 @@ async function handleMessage(data: unknown) {
           reason: result.gameEnded.reason,
           at: Date.now(),
           moveNumber: currentState.moveNumber,
-          finalScores: result.gameEnded.finalScores
+          finalScores: result.gameEnded.finalScores,
+          wentOut: result.gameEnded.wentOut
         };
         await persistSnapshot();
         sendSync();
@@ -2514,6 +4129,10 @@ async function handleMessage(data: unknown) {
     } else {
       appendLog(result.message ?? 'Exchange rejected');
     }
+  } else if (msg.type === 'ACTION_CHALLENGE') {
+    await applyChallengeAction('challenge', msg.playerId);
+  } else if (msg.type === 'ACTION_ACCEPT_PLAY') {
+    await applyChallengeAction('accept', msg.playerId);
   }
 }
 
@@ -2574,7 +4193,7 @@ async function submitMove() {
     return;
   }
 
-  if (meta.isHost || meta.mode === 'solo') {
+  if (meta.isHost || isOfflineMode(meta.mode)) {
     await ensureLanguage(meta.language);
     const result = await game.placeMove(
       meta.localPlayerId,
@@ -2588,6 +4207,7 @@ async function submitMove() {
     currentState = game.getState();
     resetTurnTimer();
     placements = [];
+    syncHotSeatTurn();
     updateValidation();
     renderAll();
     await persistSnapshot();
@@ -2597,7 +4217,8 @@ async function submitMove() {
         reason: result.gameEnded.reason,
         at: Date.now(),
         moveNumber: currentState.moveNumber,
-        finalScores: result.gameEnded.finalScores
+        finalScores: result.gameEnded.finalScores,
+        wentOut: result.gameEnded.wentOut
       };
       await persistSnapshot();
       sendSync();
@@ -2606,6 +4227,7 @@ async function submitMove() {
       appendLog(`Game ended: ${formatGameOverReason(result.gameEnded.reason)}`);
     } else {
       await checkAndHandleGameEnd();
+      requestBotTurnIfNeeded();
     }
   } else {
     connection?.send({
@@ -2628,13 +4250,14 @@ async function submitPass() {
     appendLog('Waiting for both players to be ready.');
     return;
   }
-  if (meta.isHost || meta.mode === 'solo') {
+  if (meta.isHost || isOfflineMode(meta.mode)) {
     const result = game.passTurn(meta.localPlayerId);
     if (!result.success) {
       appendLog(result.message ?? 'Cannot pass');
       return;
     }
     currentState = game.getState();
+    syncHotSeatTurn();
     resetTurnTimer();
     await persistSnapshot();
     renderAll();
@@ -2644,7 +4267,8 @@ async function submitPass() {
         reason: result.gameEnded.reason,
         at: Date.now(),
         moveNumber: currentState.moveNumber,
-        finalScores: result.gameEnded.finalScores
+        finalScores: result.gameEnded.finalScores,
+        wentOut: result.gameEnded.wentOut
       };
       await persistSnapshot();
       sendSync();
@@ -2653,6 +4277,7 @@ async function submitPass() {
       appendLog(`Game ended: ${formatGameOverReason(result.gameEnded.reason)}`);
     } else {
       await checkAndHandleGameEnd();
+      requestBotTurnIfNeeded();
     }
   } else {
     connection?.send({ type: 'ACTION_PASS', playerId: meta.localPlayerId } satisfies ActionMessage);
@@ -2682,18 +4307,20 @@ async function submitExchange() {
   renderRack();
   updateValidation();
 
-  if (meta.isHost || meta.mode === 'solo') {
+  if (meta.isHost || isOfflineMode(meta.mode)) {
     const result = game.exchangeTiles(meta.localPlayerId, tileIds);
     if (!result.success) {
       appendLog(result.message ?? 'Exchange rejected');
       return;
     }
     currentState = game.getState();
+    syncHotSeatTurn();
     resetTurnTimer();
     await persistSnapshot();
     renderAll();
     sendSync();
     await checkAndHandleGameEnd();
+    requestBotTurnIfNeeded();
   } else {
     connection?.send({
       type: 'ACTION_EXCHANGE',
@@ -2704,13 +4331,357 @@ async function submitExchange() {
   }
 }
 
+function hintKey(): string | null {
+  if (!currentState || !meta) return null;
+  return `${currentState.sessionId}:${currentState.moveNumber}:${meta.localPlayerId}`;
+}
+
+/** The hint for the turn being played on this device, if one was asked for. */
+function activeHint() {
+  const key = hintKey();
+  return hintView && key && hintView.key === key ? hintView : null;
+}
+
+function requestHint() {
+  if (!currentState || !meta || meta.gameOver || isPreGameLocked() || replayView || isHandoffActive()) return;
+  if (currentState.currentPlayer !== meta.localPlayerId) return;
+  const current = activeHint();
+  if (current) {
+    if (current.move && current.level >= 1 && current.level < 3) revealHint(current, (current.level + 1) as HintLevel);
+    return;
+  }
+  if (hintsRemaining(meta.hintAllowance, currentState.history, meta.localPlayerId) === 0) {
+    appendLog('No hints left this game.');
+    return;
+  }
+  if (!hintWorker) {
+    showToast('Hints are not available in this browser.', 'danger');
+    return;
+  }
+  const requestId = crypto.randomUUID();
+  hintView = { key: hintKey()!, requestId, level: 0, move: null };
+  renderHintControls(false);
+  hintWorker.postMessage({
+    type: 'HINT_REQUEST',
+    requestId,
+    state: currentState,
+    playerId: meta.localPlayerId,
+    language: meta.language,
+    russianVariant: meta.russianDictionaryVariant,
+    overlays: sessionOverlays,
+    minLength: resolveMinWordLength()
+  });
+}
+
+function handleHintWorkerMessage(msg: HintResponse) {
+  if (!msg || msg.type !== 'HINT_RESPONSE') return;
+  const current = activeHint();
+  if (!current || msg.requestId !== current.requestId) return;
+  if (!msg.move) {
+    // Nothing was revealed, so the allowance isn't touched; the player may ask again.
+    hintView = null;
+    const message =
+      msg.reason === 'dictionary_unavailable'
+        ? 'Download the dictionary for this language to use hints.'
+        : msg.reason === 'error'
+          ? `Hint failed: ${msg.error ?? 'unknown error'}`
+          : 'No play found with this rack; consider exchanging.';
+    showToast(message, msg.reason ? 'danger' : 'info');
+    applyActionButtonsState();
+    return;
+  }
+  current.move = msg.move;
+  revealHint(current, 1);
+}
+
+function revealHint(hint: NonNullable<typeof hintView>, level: HintLevel) {
+  if (!meta || !hint.move) return;
+  hint.level = level;
+  if (level === 3) {
+    placements = structuredClone(hint.move.placements);
+    selectedTileId = null;
+    hint.draftPending = !meta.isHost && !isOfflineMode(meta.mode);
+    sendDraftPlacements();
+    updateValidation();
+  }
+  void recordHintUse(level);
+  renderAll();
+}
+
+async function recordHintUse(level: HintLevel) {
+  if (!meta || !currentState) return;
+  if (!meta.isHost && !isOfflineMode(meta.mode)) {
+    connection?.send({ type: 'ACTION_HINT', playerId: meta.localPlayerId, level });
+    return;
+  }
+  if (!game.recordHint(meta.localPlayerId, level).success) return;
+  currentState = game.getState();
+  await persistSnapshot();
+  sendSync();
+}
+
+function restoreHintDraft() {
+  const hint = activeHint();
+  if (!hint?.draftPending || !hint.move) return;
+  hint.draftPending = false;
+  placements = structuredClone(hint.move.placements);
+}
+
+function renderHintControls(disabled: boolean) {
+  const state = currentState;
+  const allowance = meta?.hintAllowance ?? 0;
+  hintBtn.style.display = state && meta && allowance > 0 ? '' : 'none';
+  const hint = activeHint();
+  if (!state || !meta || allowance <= 0) {
+    hintStatusEl.style.display = 'none';
+    return;
+  }
+  const remaining = hintsRemaining(allowance, state.history, meta.localPlayerId);
+  const myTurn = state.currentPlayer === meta.localPlayerId && !isHandoffActive();
+  const searching = hint !== null && hint.level === 0;
+  hintBtn.textContent = hint?.move ? 'More detail' : searching ? 'Finding hint…' : `Hint (${remaining} left)`;
+  hintBtn.disabled =
+    disabled || !myTurn || searching || (hint ? hint.level === 3 : remaining === 0);
+
+  const move = hint?.move;
+  if (!move || !myTurn) {
+    hintStatusEl.style.display = 'none';
+    return;
+  }
+  const words = move.words.join(', ');
+  hintStatusEl.style.display = '';
+  hintStatusEl.textContent =
+    hint.level === 1
+      ? 'Hint: a good play uses the highlighted square.'
+      : hint.level === 2
+        ? `Hint: play ${words} for ${move.score} points, through the highlighted square.`
+        : `Hint: ${words} for ${move.score} points is placed as a draft.`;
+}
+
+/** Lets P2P players know when their opponent used a hint. */
+function maybeShowHintNotice(state: GameState) {
+  if (!meta || isOfflineMode(meta.mode)) return;
+  const last = state.history[state.history.length - 1];
+  if (!last || last.type !== 'HINT' || last.level !== 1 || last.playerId === meta.localPlayerId) return;
+  const token = `${state.sessionId}:${state.history.length}:${last.timestamp}`;
+  if (token === lastShownHintToken) return;
+  lastShownHintToken = token;
+  const remaining = hintsRemaining(meta.hintAllowance, state.history, last.playerId);
+  const message = `${labels[last.playerId] ?? last.playerId} used a hint (${remaining} left).`;
+  showToast(message);
+  appendLog(message);
+}
+
+function activeTakebackRequest(): SessionMeta['takeback'] | null {
+  if (!meta?.takeback || !currentState || meta.gameOver) return null;
+  return meta.takeback.moveNumber === currentState.moveNumber ? meta.takeback : null;
+}
+
+/**
+ * Who the Take back button speaks for. In pass-and-play the device already belongs to the
+ * next player, so it's whoever played the last turn.
+ */
+function takebackRequester(): string | null {
+  if (!meta || !currentState) return null;
+  if (meta.mode !== 'local') return meta.localPlayerId;
+  const last = [...currentState.history].reverse().find((e) => e.type !== 'HINT' && e.type !== 'TAKEBACK');
+  return last?.playerId ?? null;
+}
+
+/**
+ * Cheap stand-in for `planTakeback` used on every render: looks at the last turns only and
+ * leaves the full dry run, which copies the whole state, to the moment the button is pressed.
+ */
+function takebackAvailable(playerId: string): boolean {
+  if (!currentState || !meta || meta.gameOver) return false;
+  const turns = currentState.history.filter((e) => e.type !== 'HINT' && e.type !== 'TAKEBACK');
+  const last = turns[turns.length - 1];
+  if (meta.botPlayerId && playerId !== meta.botPlayerId && last?.playerId === meta.botPlayerId) {
+    return game.takeBackBlockedReason(meta.botPlayerId) === null && turns[turns.length - 2]?.playerId === playerId;
+  }
+  return game.takeBackBlockedReason(playerId) === null;
+}
+
+/**
+ * Players whose turns get undone, in order, when `playerId` takes back their last turn.
+ * Against the computer its reply is undone first so the human gets their turn back.
+ */
+function planTakeback(playerId: string): string[] | null {
+  if (!currentState || !meta || meta.gameOver) return null;
+  const preview = new ScrabbleGame();
+  preview.resume(currentState);
+  const order: string[] = [];
+  const last = [...currentState.history].reverse().find((e) => e.type !== 'HINT');
+  if (meta.botPlayerId && playerId !== meta.botPlayerId && last?.playerId === meta.botPlayerId) {
+    if (!preview.takeBack(meta.botPlayerId).success) return null;
+    order.push(meta.botPlayerId);
+  }
+  if (!preview.takeBack(playerId).success) return null;
+  order.push(playerId);
+  return order;
+}
+
+async function requestTakeback() {
+  if (!currentState || !meta) return;
+  if (isPreGameLocked()) {
+    appendLog('Waiting for both players to be ready.');
+    return;
+  }
+  const requester = takebackRequester();
+  if (!requester || !planTakeback(requester)) {
+    appendLog((requester && game.takeBackBlockedReason(requester)) ?? 'Nothing to take back');
+    return;
+  }
+  // Against the computer there is nobody to ask.
+  if (meta.mode === 'solo') {
+    await applyTakeback(requester);
+    return;
+  }
+  // Pass-and-play asks the player now holding the device, who answers on the same prompt.
+  if (meta.isHost) {
+    meta.takeback = { requestedBy: requester, moveNumber: currentState.moveNumber, at: Date.now() };
+    await persistSnapshot();
+    sendSync();
+    renderAll();
+    appendLog(
+      meta.mode === 'local'
+        ? `Takeback requested; waiting for ${labels[meta.localPlayerId] ?? meta.localPlayerId} to confirm.`
+        : 'Takeback requested; waiting for opponent.'
+    );
+    return;
+  }
+  connection?.send({
+    type: 'ACTION_TAKEBACK_REQUEST',
+    playerId: meta.localPlayerId,
+    moveNumber: currentState.moveNumber
+  } satisfies ActionMessage);
+  appendLog('Takeback request sent to host.');
+}
+
+async function respondToTakeback(accepted: boolean) {
+  const request = activeTakebackRequest();
+  if (!meta || !request || request.requestedBy === meta.localPlayerId) return;
+  if (meta.isHost) {
+    await resolveTakeback(request, accepted);
+    return;
+  }
+  connection?.send({
+    type: 'ACTION_TAKEBACK_RESPONSE',
+    playerId: meta.localPlayerId,
+    moveNumber: request.moveNumber,
+    accepted
+  } satisfies ActionMessage);
+  takebackPrompt.style.display = 'none';
+  appendLog(accepted ? 'Takeback allowed.' : 'Takeback declined.');
+}
+
+/** Host: settles the outstanding request and pushes the result to the peer. */
+async function resolveTakeback(request: NonNullable<SessionMeta['takeback']>, accepted: boolean) {
+  if (!meta) return;
+  meta.takeback = undefined;
+  if (accepted) {
+    await applyTakeback(request.requestedBy);
+    return;
+  }
+  await persistSnapshot();
+  sendSync();
+  renderAll();
+  appendLog(`Takeback by ${labels[request.requestedBy] ?? request.requestedBy} declined.`);
+}
+
+async function applyTakeback(playerId: string) {
+  if (!meta) return;
+  const plan = planTakeback(playerId);
+  if (!plan) {
+    appendLog('Takeback no longer possible.');
+    return;
+  }
+  for (const id of plan) {
+    game.takeBack(id);
+  }
+  currentState = game.getState();
+  placements = [];
+  selectedTileId = null;
+  remoteDraft = null;
+  syncHotSeatTurn();
+  resetTurnTimer();
+  await persistSnapshot();
+  sendSync();
+  renderAll();
+  updateValidation();
+  appendLog(`${labels[playerId] ?? playerId} took back their last turn.`);
+}
+
+async function submitChallengeAction(kind: 'challenge' | 'accept') {
+  if (!currentState || !meta) return;
+  if (isPreGameLocked()) {
+    appendLog('Waiting for both players to be ready.');
+    return;
+  }
+  if (meta.isHost || isOfflineMode(meta.mode)) {
+    await applyChallengeAction(kind, meta.localPlayerId);
+  } else {
+    connection?.send({
+      type: kind === 'challenge' ? 'ACTION_CHALLENGE' : 'ACTION_ACCEPT_PLAY',
+      playerId: meta.localPlayerId
+    } satisfies ActionMessage);
+    appendLog(kind === 'challenge' ? 'Challenge sent to host' : 'Accept sent to host');
+  }
+}
+
+/**
+ * Host/offline: resolves a challenge (or explicit accept) of the pending play,
+ * from the local player or a peer, then runs the usual post-action flow.
+ */
+async function applyChallengeAction(kind: 'challenge' | 'accept', playerId: string) {
+  if (!meta || !currentState) return;
+  await ensureLanguage(meta.language);
+  const result = kind === 'challenge'
+    ? await game.challenge(playerId, buildWordChecker())
+    : game.acceptPlay(playerId);
+  if (!result.success) {
+    appendLog(result.message ?? 'Challenge rejected');
+    return;
+  }
+  remoteDraft = null;
+  currentState = game.getState();
+  syncHotSeatTurn();
+  resetTurnTimer();
+  await persistSnapshot();
+  sendSync();
+  renderAll();
+  maybeShowChallengeToast(currentState);
+  if (result.gameEnded) {
+    meta.gameOver = {
+      reason: result.gameEnded.reason,
+      at: Date.now(),
+      moveNumber: currentState.moveNumber,
+      finalScores: result.gameEnded.finalScores,
+      wentOut: result.gameEnded.wentOut
+    };
+    await persistSnapshot();
+    sendSync();
+    renderAll();
+    maybeShowGameOverToastFromMeta(meta);
+    appendLog(`Game ended: ${formatGameOverReason(result.gameEnded.reason)}`);
+  } else {
+    await checkAndHandleGameEnd();
+    requestBotTurnIfNeeded();
+  }
+}
+
 function sendSync() {
   if (!connection || !currentState || !meta) return;
+  // Peers only get their own rack and the bag size, never the opponent's tiles or the draw order.
+  const recipientId = meta.remotePlayerId;
   const payload: ActionMessage = {
     type: 'SYNC_STATE',
-    state: currentState,
+    state: recipientId
+      ? redactStateFor(currentState, recipientId, { revealHistoryRacks: Boolean(meta.gameOver) })
+      : currentState,
     meta,
-    labels
+    labels,
+    overlays: sessionOverlays
   };
   connection.send(payload);
   appendLog('Sync pushed to peer.');
@@ -2718,8 +4689,8 @@ function sendSync() {
 
 function sendDraftPlacements(nextPlacements: Placement[] = placements) {
   if (!connection || !currentState || !meta) return;
-  if (meta.mode === 'solo') return;
-  if (!connection.dataChannelReady) return;
+  if (isOfflineMode(meta.mode)) return;
+  if (!connection.ready) return;
   // Only broadcast drafts for the current-turn player.
   if (currentState.currentPlayer !== meta.localPlayerId) return;
   connection.send({
@@ -2759,21 +4730,27 @@ async function downloadLanguage(language: Language) {
 }
 
 async function refreshDictStatus() {
-  const [en, ru, ruStrict] = await Promise.all([
-    ensureDictionary('en'),
-    ensureDictionary('ru'),
+  const [statuses, ruStrict] = await Promise.all([
+    Promise.all(LANGUAGES.map((language) => ensureDictionary(language))),
     ensureDictionaryStrict()
   ]);
-  const icon = (available: boolean) => (available ? '✅' : '❌');
+  const available = Object.fromEntries(statuses.map((status) => [status.language, status.available]));
+  const icon = (ok: boolean) => (ok ? '✅' : '❌');
 
   // Header pill summary (show RU as available if either version is available)
-  const ruAvailable = ru.available || ruStrict.available;
-  dictStatus.textContent = `EN ${icon(en.available)} • RU ${icon(ruAvailable)}`;
-  dictStatus.classList.toggle('danger', !en.available || !ruAvailable);
+  const summary = LANGUAGES.map((language) => ({
+    language,
+    ok: available[language] || (language === 'ru' && ruStrict.available)
+  }));
+  dictStatus.textContent = summary.map(({ language, ok }) => `${languagePack(language).label} ${icon(ok)}`).join(' • ');
+  // Only the language being played matters; packs nobody uses can stay undownloaded.
+  const inUse = meta?.language ?? (languageSelect.value as Language);
+  dictStatus.classList.toggle('danger', summary.some(({ language, ok }) => language === inUse && !ok));
 
   // Dictionary buttons
-  dictEnIcon.textContent = icon(en.available);
-  dictRuIcon.textContent = icon(ru.available);
+  dictLanguageIcons.forEach((el) => {
+    el.textContent = icon(Boolean(available[el.dataset.dictIcon ?? '']));
+  });
   dictRuStrictIcon.textContent = icon(ruStrict.available);
 }
 
@@ -2791,7 +4768,8 @@ async function persistSnapshot() {
   const payload: SnapshotPayload = {
     state: currentState,
     meta,
-    labels
+    labels,
+    overlays: sessionOverlays
   };
   await saveSnapshot('last-session', payload);
   pendingSnapshot = payload;
@@ -2819,6 +4797,7 @@ async function resumeSnapshot() {
   }
   meta = pendingSnapshot.meta;
   labels = pendingSnapshot.labels;
+  sessionOverlays = pendingSnapshot.overlays ?? [];
   languageSelect.value = pendingSnapshot.meta.language;
   // Update Russian variant selector if applicable
   if (pendingSnapshot.meta.language === 'ru') {
@@ -2839,15 +4818,22 @@ async function resumeSnapshot() {
   game.resume(pendingSnapshot.state);
   currentState = game.getState();
   placements = [];
+  if (meta.mode === 'local') {
+    // We don't know who is holding the device after a reload.
+    meta.localPlayerId = currentState.currentPlayer;
+    handoffPending = true;
+  }
   updateValidation();
   renderAll();
   maybeShowTimeoutToastFromMeta(meta);
   maybeShowGameOverToastFromMeta(meta);
   appendLog('Resumed saved game.');
 
-  if (mode !== 'solo') {
+  if (!isOfflineMode(mode)) {
     appendLog('Resumed P2P session. Connection needed.');
     void triggerReconnect();
+  } else {
+    requestBotTurnIfNeeded();
   }
 }
 
@@ -2893,9 +4879,16 @@ async function scanInto(target: HTMLTextAreaElement, onScanned?: (data: string)
   const controls = document.createElement('div');
   controls.style.cssText = `
     width: 100%; background: #000;
-    display: flex; justify-content: center; padding: 20px; padding-bottom: max(20px, env(safe-area-inset-bottom));
+    display: flex; flex-direction: column; align-items: center; gap: 12px;
+    padding: 20px; padding-bottom: max(20px, env(safe-area-inset-bottom));
   `;
 
+  // Multi-frame transfers (see network/fountain.ts) show how much has arrived.
+  const progress = document.createElement('div');
+  progress.style.cssText = `color: #fff; font-size: 0.9rem; display: none;`;
+  controls.appendChild(progress);
+  const fountain = new FountainDecoder();
+
   const closeBtn = document.createElement('button');
   closeBtn.textContent = 'Cancel Scan';
   closeBtn.className = 'primary danger';
@@ -2911,6 +4904,16 @@ async function scanInto(target: HTMLTextAreaElement, onScanned?: (data: string)
   let animationFrameId: number | null = null;
   let isActive = true;
 
+  const deliver = (data: string) => {
+    target.value = data;
+    appendLog('QR scanned successfully');
+    if (onScanned) {
+      Promise.resolve(onScanned(data)).catch((err) =>
+        appendLog(`Auto-connect error: ${String(err)}`)
+      );
+    }
+  };
+
   const stop = () => {
     isActive = false;
     if (stream) {
@@ -2958,15 +4961,30 @@ async function scanInto(target: HTMLTextAreaElement, onScanned?: (data: string)
           inversionAttempts: "dontInvert",
         });
 
-        if (code && code.data) {
-          target.value = code.data;
-          appendLog('QR scanned successfully');
-          if (onScanned) {
-            Promise.resolve(onScanned(code.data)).catch((err) =>
-              appendLog(`Auto-connect error: ${String(err)}`)
-            );
+        if (code && code.data && isFountainFrame(code.data)) {
+          if (fountain.receive(code.data)) {
+            const { solved, total } = fountain.progress;
+            progress.style.display = '';
+            progress.textContent = `Receiving… ${solved} of ${total} parts`;
+          }
+          let payload: Uint8Array | null = null;
+          try {
+            payload = fountain.result();
+          } catch (err) {
+            appendLog(String(err));
+            stop();
+            return;
+          }
+          if (payload) {
+            stop();
+            unpackQrText(payload)
+              .then(deliver)
+              .catch((err) => appendLog(`Could not read the scanned data: ${String(err)}`));
+            return;
           }
+        } else if (code && code.data) {
           stop();
+          deliver(code.data);
           return;
         }
       }
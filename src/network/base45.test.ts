@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { fromBase45, toBase45 } from './base45';
+
+describe('base45', () => {
+  it('matches the RFC 9285 examples', () => {
+    const bytes = (s: string) => new TextEncoder().encode(s);
+    expect(toBase45(bytes('AB'))).toBe('BB8');
+    expect(toBase45(bytes('Hello!!'))).toBe('%69 VD92EX0');
+    expect(toBase45(bytes('base-45'))).toBe('UJCLQE7W581');
+    expect(new TextDecoder().decode(fromBase45('QED8WEX0'))).toBe('ietf!');
+    expect(() => fromBase45('GGW')).toThrow();
+  });
+});
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ScrabbleGame } from '../core/game';
+import type { GameState } from '../core/types';
+import { createBroadcastClient, createBroadcastHost } from './broadcast';
+import { redactStateFor } from './redact';
+import type { Transport } from './transport';
+
+const open: Transport[] = [];
+const track = (t: Transport) => {
+  open.push(t);
+  return t;
+};
+
+describe('BroadcastChannel transport', () => {
+  afterEach(() => {
+    open.splice(0).forEach((t) => t.close());
+  });
+
+  it('pairs a host and a client tab and carries messages both ways', async () => {
+    const hostCb = { onMessage: vi.fn(), onOpen: vi.fn() };
+    const clientCb = { onMessage: vi.fn(), onOpen: vi.fn() };
+    const host = track(createBroadcastHost(hostCb, 'pair'));
+    const client = track(createBroadcastClient(clientCb, 'pair'));
+
+    await vi.waitFor(() => expect(client.ready && host.ready).toBe(true));
+    expect(hostCb.onOpen).toHaveBeenCalledTimes(1);
+    expect(clientCb.onOpen).toHaveBeenCalledTimes(1);
+
+    client.send({ type: 'REQUEST_SYNC' });
+    host.send({ type: 'SYNC_STATE', at: new Date(0) });
+    await vi.waitFor(() => expect(clientCb.onMessage).toHaveBeenCalled());
+    await vi.waitFor(() => expect(hostCb.onMessage).toHaveBeenCalledWith({ type: 'REQUEST_SYNC' }));
+    // Serialized like a WebRTC data channel: a Date arrives as its JSON string.
+    expect(clientCb.onMessage).toHaveBeenCalledWith({ type: 'SYNC_STATE', at: '1970-01-01T00:00:00.000Z' });
+  });
+
+  it('syncs a game to the client tab and applies its actions on the host', async () => {
+    const game = new ScrabbleGame();
+    game.start('en', ['p2', 'p1']);
+    const views: GameState[] = [];
+    const host: Transport = track(
+      createBroadcastHost(
+        {
+          onMessage: (data) => {
+            const msg = data as { type: string; playerId?: string };
+            if (msg.type === 'ACTION_PASS') expect(game.passTurn(msg.playerId!).success).toBe(true);
+            host.send({ type: 'SYNC_STATE', state: redactStateFor(game.getState(), 'p2') });
+          }
+        },
+        'game'
+      )
+    );
+    const client: Transport = track(
+      createBroadcastClient(
+        {
+          onOpen: () => client.send({ type: 'REQUEST_SYNC' }),
+          onMessage: (data) => {
+            const { state } = data as { state: GameState };
+            views.push(state);
+            if (state.currentPlayer === 'p2') client.send({ type: 'ACTION_PASS', playerId: 'p2' });
+          }
+        },
+        'game'
+      )
+    );
+
+    await vi.waitFor(() => expect(views).toHaveLength(2));
+    const [first, second] = views;
+    expect(first.moveNumber).toBe(0);
+    expect(first.racks.p2).toHaveLength(7);
+    expect(first.racks.p1).toEqual([]);
+    expect(second.currentPlayer).toBe('p1');
+    expect(second.history.map((e) => e.type)).toEqual(['PASS']);
+  });
+
+  it('finds a host that opens after the client', async () => {
+    const client = track(createBroadcastClient({ onMessage: vi.fn() }, 'late'));
+    await new Promise((r) => setTimeout(r, 20));
+    const host = track(createBroadcastHost({ onMessage: vi.fn() }, 'late'));
+    await vi.waitFor(() => expect(client.ready && host.ready).toBe(true));
+  });
+
+  it('turns away a second client and reports a closed peer', async () => {
+    const hostCb = { onMessage: vi.fn(), onClose: vi.fn(), onLog: vi.fn() };
+    const host = track(createBroadcastHost(hostCb, 'busy'));
+    const first = track(createBroadcastClient({ onMessage: vi.fn() }, 'busy'));
+    await vi.waitFor(() => expect(first.ready).toBe(true));
+
+    const second = track(createBroadcastClient({ onMessage: vi.fn() }, 'busy'));
+    await vi.waitFor(() => expect(hostCb.onLog).toHaveBeenCalledWith(expect.stringContaining('already paired')));
+    expect(second.ready).toBe(false);
+
+    first.close();
+    await vi.waitFor(() => expect(hostCb.onClose).toHaveBeenCalled());
+    expect(host.ready).toBe(false);
+  });
+
+  it('keeps rooms apart', async () => {
+    const host = track(createBroadcastHost({ onMessage: vi.fn() }, 'room-a'));
+    const client = track(createBroadcastClient({ onMessage: vi.fn() }, 'room-b'));
+    await new Promise((r) => setTimeout(r, 30));
+    expect(host.ready || client.ready).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import type { Transport, TransportCallbacks } from './transport';
+
+/**
+ * Host/client link between tabs or windows of the same browser over `BroadcastChannel`.
+ * There is no SDP to exchange: the client announces itself on the room's channel and the
+ * host pairs with the first client it hears from.
+ */
+type Envelope =
+  | { kind: 'host'; from: string }
+  | { kind: 'hello'; from: string }
+  | { kind: 'welcome'; from: string; to: string }
+  | { kind: 'data'; from: string; to: string; data: unknown }
+  | { kind: 'bye'; from: string; to: string };
+
+export const DEFAULT_BROADCAST_ROOM = 'default';
+
+export function createBroadcastHost(callbacks: TransportCallbacks, room = DEFAULT_BROADCAST_ROOM): Transport {
+  return openLink('host', callbacks, room);
+}
+
+export function createBroadcastClient(callbacks: TransportCallbacks, room = DEFAULT_BROADCAST_ROOM): Transport {
+  return openLink('client', callbacks, room);
+}
+
+function openLink(role: 'host' | 'client', callbacks: TransportCallbacks, room: string): Transport {
+  const channel = new BroadcastChannel(`scrabble-tabs:${room}`);
+  const id = crypto.randomUUID();
+  const log = (msg: string) => callbacks.onLog?.(`[${role}] ${msg}`);
+  let peer: string | null = null;
+  let closed = false;
+
+  const post = (envelope: Envelope) => channel.postMessage(envelope);
+  const open = (peerId: string) => {
+    peer = peerId;
+    log(`paired with tab ${peerId.slice(0, 8)}`);
+    callbacks.onConnectionStateChange?.('connected');
+    callbacks.onOpen?.();
+  };
+
+  channel.onmessage = (ev: MessageEvent) => {
+    const msg = ev.data as Envelope;
+    if (closed || !msg || msg.from === id) return;
+    if (role === 'host') {
+      if (msg.kind === 'hello') {
+        if (peer && peer !== msg.from) {
+          log('another tab tried to join; already paired');
+          return;
+        }
+        post({ kind: 'welcome', from: id, to: msg.from });
+        // A client can say hello twice (once on start, once on our announcement).
+        if (peer !== msg.from) open(msg.from);
+        return;
+      }
+    } else {
+      if (msg.kind === 'host' && !peer) {
+        post({ kind: 'hello', from: id });
+        return;
+      }
+      if (msg.kind === 'welcome' && msg.to === id && !peer) {
+        open(msg.from);
+        return;
+      }
+    }
+    if (msg.kind === 'data' && msg.to === id && msg.from === peer) {
+      callbacks.onMessage(msg.data);
+    } else if (msg.kind === 'bye' && msg.to === id && msg.from === peer) {
+      peer = null;
+      log('peer tab closed the link');
+      callbacks.onConnectionStateChange?.('disconnected');
+      callbacks.onClose?.();
+    }
+  };
+  channel.onmessageerror = (err) => callbacks.onError?.(err);
+
+  post(role === 'host' ? { kind: 'host', from: id } : { kind: 'hello', from: id });
+  log(`waiting on room "${room}"`);
+
+  return {
+    kind: 'broadcast',
+    role,
+    send: (data: unknown) => {
+      if (!peer || closed) return;
+      // Round-trip through JSON like the WebRTC channel does, so both transports carry the same values.
+      post({ kind: 'data', from: id, to: peer, data: JSON.parse(JSON.stringify(data)) });
+    },
+    close: () => {
+      if (closed) return;
+      if (peer) post({ kind: 'bye', from: id, to: peer });
+      closed = true;
+      peer = null;
+      channel.close();
+    },
+    get ready() {
+      return !closed && peer !== null;
+    }
+  };
+}
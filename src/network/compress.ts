@@ -0,0 +1,14 @@
+/** Raw DEFLATE through the platform's CompressionStream (browsers and Node 18+). */
+export function deflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  return transform(bytes, new CompressionStream('deflate-raw'));
+}
+
+/** Rejects when `bytes` is not a complete DEFLATE stream. */
+export function inflateRaw(bytes: Uint8Array): Promise<Uint8Array> {
+  return transform(bytes, new DecompressionStream('deflate-raw'));
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const piped = new Blob([new Uint8Array(bytes)]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(piped).arrayBuffer());
+}
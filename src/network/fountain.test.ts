@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { FountainDecoder, FountainEncoder, isFountainFrame } from './fountain';
+
+function payload(size: number): Uint8Array {
+  const bytes = new Uint8Array(size);
+  let x = 12345;
+  for (let i = 0; i < size; i += 1) {
+    x = (x * 16807) % 2147483647;
+    bytes[i] = x & 0xff;
+  }
+  return bytes;
+}
+
+describe('fountain-coded frames', () => {
+  it('rebuilds the payload from the systematic frames in any order', () => {
+    const data = payload(1000);
+    const encoder = new FountainEncoder(data, 100);
+    expect(encoder.blockCount).toBe(10);
+
+    const decoder = new FountainDecoder();
+    const seeds = [7, 2, 9, 0, 4, 4, 1, 8, 3, 6, 5];
+    for (const seed of seeds) decoder.receive(encoder.frame(seed));
+    expect(decoder.progress).toEqual({ solved: 10, total: 10 });
+    expect(decoder.result()).toEqual(data);
+  });
+
+  it('recovers missed frames from the mixed ones that follow', () => {
+    const data = payload(2500);
+    const encoder = new FountainEncoder(data, 100);
+    const decoder = new FountainDecoder();
+    // Lose every third systematic frame, then keep listening to the fountain.
+    for (let seed = 0; seed < encoder.blockCount; seed += 1) {
+      if (seed % 3 !== 0) decoder.receive(encoder.frame(seed));
+    }
+    expect(decoder.result()).toBeNull();
+    let seed = encoder.blockCount;
+    while (!decoder.result() && seed < encoder.blockCount * 10) {
+      decoder.receive(encoder.frame(seed));
+      seed += 1;
+    }
+    expect(decoder.result()).toEqual(data);
+    expect(seed - encoder.blockCount).toBeLessThan(encoder.blockCount * 2);
+  });
+
+  it('decodes from mixed frames alone', () => {
+    const data = payload(640);
+    const encoder = new FountainEncoder(data, 64);
+    const decoder = new FountainDecoder();
+    for (let seed = 1000; !decoder.result() && seed < 1200; seed += 1) decoder.receive(encoder.frame(seed));
+    expect(decoder.result()).toEqual(data);
+  });
+
+  it('ignores repeats and junk, and starts over on a new transfer', () => {
+    const first = new FountainEncoder(payload(300), 100);
+    const second = new FountainEncoder(payload(200), 100);
+    const decoder = new FountainDecoder();
+
+    expect(isFountainFrame(first.frame(0))).toBe(true);
+    expect(decoder.receive(first.frame(0))).toBe(true);
+    expect(decoder.receive(first.frame(0))).toBe(false);
+    expect(decoder.receive('S1:not a frame')).toBe(false);
+    expect(decoder.receive('F1:???')).toBe(false);
+    expect(decoder.progress).toEqual({ solved: 1, total: 3 });
+
+    decoder.receive(second.frame(1));
+    expect(decoder.progress).toEqual({ solved: 1, total: 2 });
+  });
+
+  it('handles an empty payload', () => {
+    const decoder = new FountainDecoder();
+    decoder.receive(new FountainEncoder(new Uint8Array(0)).frame(0));
+    expect(decoder.result()).toEqual(new Uint8Array(0));
+  });
+});
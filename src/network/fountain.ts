@@ -0,0 +1,224 @@
+import { fromBase45, toBase45 } from './base45';
+
+/**
+ * Fountain (LT) coding for payloads spread over many QR frames. The sender can emit an
+ * endless stream of frames; the receiver rebuilds the payload from roughly `blockCount`
+ * of them, in any order, so missed or repeated frames cost little.
+ *
+ * A frame is `F1:` + base45 of:
+ *
+ *   u32 payload length   u32 CRC-32 of the payload   u16 block size
+ *   u32 seed             u16 degree                   block-size bytes of XORed blocks
+ *
+ * The seed picks which blocks were XORed together (the first `blockCount` seeds carry one
+ * block each). The degree travels in the frame so the receiver never has to agree with
+ * the sender on floating-point maths.
+ */
+
+const PREFIX = 'F1:';
+const HEADER_BYTES = 16;
+export const DEFAULT_BLOCK_SIZE = 120;
+
+export interface FountainProgress {
+  solved: number;
+  total: number;
+}
+
+export function isFountainFrame(text: string): boolean {
+  return text.startsWith(PREFIX);
+}
+
+export class FountainEncoder {
+  readonly blockCount: number;
+  private readonly blocks: Uint8Array[];
+  private readonly length: number;
+  private readonly checksum: number;
+  private readonly blockSize: number;
+
+  constructor(payload: Uint8Array, blockSize = DEFAULT_BLOCK_SIZE) {
+    this.length = payload.length;
+    this.checksum = crc32(payload);
+    this.blockSize = blockSize;
+    this.blockCount = Math.max(1, Math.ceil(payload.length / blockSize));
+    this.blocks = [];
+    for (let i = 0; i < this.blockCount; i += 1) {
+      const block = new Uint8Array(blockSize);
+      block.set(payload.subarray(i * blockSize, (i + 1) * blockSize));
+      this.blocks.push(block);
+    }
+  }
+
+  /** Frame number `seed` as QR text. Any seed works; callers usually count up from 0. */
+  frame(seed: number): string {
+    const degree = seed < this.blockCount ? 1 : sampleDegree(mulberry32(seed ^ 0x5bd1e995)(), this.blockCount);
+    const data = new Uint8Array(this.blockSize);
+    for (const i of blockIndices(seed, degree, this.blockCount)) xorInto(data, this.blocks[i]);
+
+    const bytes = new Uint8Array(HEADER_BYTES + this.blockSize);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, this.length);
+    view.setUint32(4, this.checksum);
+    view.setUint16(8, this.blockSize);
+    view.setUint32(10, seed >>> 0);
+    view.setUint16(14, degree);
+    bytes.set(data, HEADER_BYTES);
+    return PREFIX + toBase45(bytes);
+  }
+}
+
+export class FountainDecoder {
+  private transfer: { length: number; checksum: number; blockSize: number; count: number } | null = null;
+  private blocks: Array<Uint8Array | null> = [];
+  private pending: Array<{ indices: number[]; data: Uint8Array }> = [];
+  private seen = new Set<number>();
+  private solved = 0;
+
+  /**
+   * Takes one scanned frame. Returns false for text that isn't a frame, a frame already
+   * seen, or one that adds nothing. A frame from a different transfer starts over.
+   */
+  receive(text: string): boolean {
+    if (!isFountainFrame(text)) return false;
+    let bytes: Uint8Array;
+    try {
+      bytes = fromBase45(text.slice(PREFIX.length));
+    } catch {
+      return false;
+    }
+    if (bytes.length < HEADER_BYTES) return false;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const length = view.getUint32(0);
+    const checksum = view.getUint32(4);
+    const blockSize = view.getUint16(8);
+    const seed = view.getUint32(10);
+    const degree = view.getUint16(14);
+    if (!blockSize || bytes.length !== HEADER_BYTES + blockSize) return false;
+
+    const t = this.transfer;
+    if (!t || t.length !== length || t.checksum !== checksum || t.blockSize !== blockSize) {
+      const count = Math.max(1, Math.ceil(length / blockSize));
+      this.transfer = { length, checksum, blockSize, count };
+      this.blocks = new Array<Uint8Array | null>(count).fill(null);
+      this.pending = [];
+      this.seen.clear();
+      this.solved = 0;
+    }
+    const count = this.transfer!.count;
+    if (this.seen.has(seed) || degree < 1 || degree > count) return false;
+    this.seen.add(seed);
+    if (this.solved === count) return false;
+
+    const data = bytes.slice(HEADER_BYTES);
+    const unknown: number[] = [];
+    for (const i of blockIndices(seed, degree, count)) {
+      const known = this.blocks[i];
+      if (known) xorInto(data, known);
+      else unknown.push(i);
+    }
+    if (!unknown.length) return false;
+    if (unknown.length === 1) this.solve(unknown[0], data);
+    else this.pending.push({ indices: unknown, data });
+    return true;
+  }
+
+  get progress(): FountainProgress {
+    return { solved: this.solved, total: this.transfer?.count ?? 0 };
+  }
+
+  /** The payload once every block is known; throws if it fails the checksum. */
+  result(): Uint8Array | null {
+    const t = this.transfer;
+    if (!t || this.solved < t.count) return null;
+    const out = new Uint8Array(t.count * t.blockSize);
+    this.blocks.forEach((block, i) => out.set(block!, i * t.blockSize));
+    const payload = out.slice(0, t.length);
+    if (crc32(payload) !== t.checksum) throw new Error('The transfer arrived corrupted. Scan it again.');
+    return payload;
+  }
+
+  // Peeling decoder: a solved block is XORed out of every pending frame that mixed it in,
+  // which may leave more frames with a single unknown block.
+  private solve(index: number, data: Uint8Array) {
+    const queue: Array<[number, Uint8Array]> = [[index, data]];
+    while (queue.length) {
+      const [i, block] = queue.pop()!;
+      if (this.blocks[i]) continue;
+      this.blocks[i] = block;
+      this.solved += 1;
+      this.pending = this.pending.filter((p) => {
+        const at = p.indices.indexOf(i);
+        if (at < 0) return true;
+        xorInto(p.data, block);
+        p.indices.splice(at, 1);
+        if (p.indices.length === 1) queue.push([p.indices[0], p.data]);
+        return p.indices.length > 1;
+      });
+    }
+  }
+}
+
+function blockIndices(seed: number, degree: number, count: number): number[] {
+  if (seed < count && degree === 1) return [seed];
+  const random = mulberry32(seed);
+  const chosen = new Set<number>();
+  while (chosen.size < Math.min(degree, count)) chosen.add(Math.floor(random() * count));
+  return [...chosen];
+}
+
+const solitonCache = new Map<number, number[]>();
+
+/** Robust soliton distribution (c = 0.1, δ = 0.5), sampled with `u` in [0, 1). */
+function sampleDegree(u: number, count: number): number {
+  let cdf = solitonCache.get(count);
+  if (!cdf) {
+    const c = 0.1;
+    const delta = 0.5;
+    const r = c * Math.log(count / delta) * Math.sqrt(count);
+    const spike = Math.min(count, Math.max(1, Math.round(count / Math.max(r, 1))));
+    const weights: number[] = [];
+    for (let d = 1; d <= count; d += 1) {
+      const rho = d === 1 ? 1 / count : 1 / (d * (d - 1));
+      let tau = 0;
+      if (d < spike) tau = r / (d * count);
+      else if (d === spike) tau = (r * Math.log(Math.max(r / delta, 1))) / count;
+      weights.push(rho + Math.max(tau, 0));
+    }
+    const total = weights.reduce((a, b) => a + b, 0);
+    let acc = 0;
+    cdf = weights.map((w) => (acc += w / total));
+    solitonCache.set(count, cdf);
+  }
+  const at = cdf.findIndex((p) => u < p);
+  return at < 0 ? count : at + 1;
+}
+
+function mulberry32(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function xorInto(target: Uint8Array, source: Uint8Array) {
+  for (let i = 0; i < target.length; i += 1) target[i] ^= source[i];
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n += 1) {
+      let c = n;
+      for (let k = 0; k < 8; k += 1) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (const b of bytes) crc = crcTable[(crc ^ b) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
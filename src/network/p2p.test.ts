@@ -1,5 +1,21 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
-import { createHost, createClient } from './p2p';
+import { createHost, createClient, connectViaRelay } from './p2p';
+import { decodeHandshake, encodeHandshake } from './sdpCodec';
+
+const mockSdp = (setup: string) => [
+  'v=0',
+  'o=- 1 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+  'a=candidate:1 1 udp 2113937151 192.168.1.5 50000 typ host generation 0',
+  'a=ice-ufrag:abcd',
+  'a=ice-pwd:0123456789abcdefghijkl',
+  'a=fingerprint:sha-256 00:11:22:33:44:55:66:77:88:99:AA:BB:CC:DD:EE:FF:00:11:22:33:44:55:66:77:88:99:AA:BB:CC:DD:EE:FF',
+  `a=setup:${setup}`,
+  'a=mid:0',
+  ''
+].join('\r\n');
 
 // Types for mocks
 type EventListener = (evt: any) => void;
@@ -87,11 +103,11 @@ class MockRTCPeerConnection extends MockEventTarget {
   }
 
   async createOffer() {
-    return { type: 'offer', sdp: 'mock-offer-sdp' };
+    return { type: 'offer', sdp: mockSdp('actpass') };
   }
 
   async createAnswer() {
-    return { type: 'answer', sdp: 'mock-answer-sdp' };
+    return { type: 'answer', sdp: mockSdp('active') };
   }
 
   async setLocalDescription(desc: any) {
@@ -111,6 +127,14 @@ class MockRTCPeerConnection extends MockEventTarget {
     this.remoteDescription = desc;
   }
 
+  addedCandidates: RTCIceCandidateInit[] = [];
+
+  async addIceCandidate(candidate: RTCIceCandidateInit) {
+    // Like the browser: candidates only make sense once the remote description is known.
+    if (!this.remoteDescription) throw new Error('No remote description');
+    this.addedCandidates.push(candidate);
+  }
+
   close() {
     this.connectionState = 'closed';
     this.dispatchEvent({ type: 'connectionstatechange' });
@@ -130,6 +154,44 @@ class MockRTCPeerConnection extends MockEventTarget {
 // Helper to access the last created PC
 let createdPCs: MockRTCPeerConnection[] = [];
 
+// Stands in for the browser WebSocket to the signaling relay.
+class MockWebSocket {
+  static OPEN = 1;
+  static instances: MockWebSocket[] = [];
+  readyState = 0;
+  sent: Array<{ type: string; data?: unknown }> = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((ev: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  constructor(_url: string) {
+    MockWebSocket.instances.push(this);
+  }
+
+  send(frame: string) {
+    this.sent.push(JSON.parse(frame));
+  }
+
+  close() {
+    this.readyState = 3;
+  }
+
+  open() {
+    this.readyState = MockWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(msg: unknown) {
+    this.onmessage?.({ data: JSON.stringify(msg) });
+  }
+
+  // Signals (not the join frame) sent through the relay so far.
+  signals() {
+    return this.sent.filter((f) => f.type === 'signal').map((f) => f.data as { kind: string });
+  }
+}
+
 describe('P2P Network', () => {
   beforeEach(() => {
     createdPCs = [];
@@ -169,21 +231,25 @@ describe('P2P Network', () => {
     
     expect(pc.localDescription).toBeTruthy();
     expect(host.offer).toBeTruthy();
-    // Offer should be base64 encoded JSON of the description
-    const decoded = JSON.parse(atob(host.offer));
+    // Offer should be a compact handshake code of the description
+    expect(host.offer.startsWith('S1:')).toBe(true);
+    const decoded = await decodeHandshake(host.offer);
     expect(decoded.type).toBe('offer');
-    expect(decoded.sdp).toBe('mock-offer-sdp');
+    expect(decoded.sdp).toContain('a=ice-ufrag:abcd');
+    expect(decoded.sdp).toContain('192.168.1.5 50000 typ host');
     
     expect(pc.createdChannels.length).toBe(1);
     expect(pc.createdChannels[0].label).toBe('scrabble-data');
+    expect(host.connection.kind).toBe('webrtc');
+    expect(host.connection.ready).toBe(false);
   });
 
   it('Client accepts offer and creates answer', async () => {
     const callbacks = { onMessage: vi.fn() };
     
     // Create a mock offer string
-    const offerObj = { type: 'offer', sdp: 'mock-remote-sdp' };
-    const offerStr = btoa(JSON.stringify(offerObj));
+    const offerStr = await encodeHandshake({ type: 'offer', sdp: mockSdp('actpass') });
+    const offerObj = await decodeHandshake(offerStr);
 
     const client = await createClient(callbacks, offerStr);
 
@@ -194,8 +260,9 @@ describe('P2P Network', () => {
     expect(pc.localDescription).toBeTruthy();
     expect(client.answer).toBeTruthy();
     
-    const decodedAnswer = JSON.parse(atob(client.answer));
+    const decodedAnswer = await decodeHandshake(client.answer);
     expect(decodedAnswer.type).toBe('answer');
+    expect(decodedAnswer.sdp).toContain('a=setup:active');
   });
 
   it('Host applies answer', async () => {
@@ -203,8 +270,8 @@ describe('P2P Network', () => {
     const host = await createHost(callbacks);
     const pc = createdPCs[0];
 
-    const answerObj = { type: 'answer', sdp: 'mock-remote-answer' };
-    const answerStr = btoa(JSON.stringify(answerObj));
+    const answerStr = await encodeHandshake({ type: 'answer', sdp: mockSdp('active') });
+    const answerObj = await decodeHandshake(answerStr);
 
     await host.applyAnswer(answerStr);
 
@@ -250,5 +317,197 @@ describe('P2P Network', () => {
     expect(channelCloseSpy).toHaveBeenCalled();
     expect(pc.connectionState).toBe('closed');
   });
-});
 
+  describe('ICE restart', () => {
+    const restartMessage = (sent: unknown) => JSON.parse(String(sent)).__p2p;
+
+    it('Host restarts ICE over the data channel and recovers', async () => {
+      const host = await createHost({ onMessage: vi.fn() });
+      const pc = createdPCs[0];
+      const channel = pc.createdChannels[0];
+      channel.simulateOpen();
+      const sendSpy = vi.spyOn(channel, 'send');
+      const offerSpy = vi.spyOn(pc, 'createOffer');
+
+      pc.connectionState = 'disconnected';
+      const recovered = host.connection.recover!();
+      await vi.waitFor(() => expect(sendSpy).toHaveBeenCalled());
+      expect(offerSpy).toHaveBeenCalledWith({ iceRestart: true });
+      expect(restartMessage(sendSpy.mock.calls[0][0])).toMatchObject({ kind: 'ice-restart', description: { type: 'offer' } });
+
+      pc.connectionState = 'connected';
+      pc.dispatchEvent({ type: 'connectionstatechange' });
+      await expect(recovered).resolves.toBe(true);
+    });
+
+    it('Client answers a restart offer once and keeps it from the game', async () => {
+      const callbacks = { onMessage: vi.fn() };
+      await createClient(callbacks, await encodeHandshake({ type: 'offer', sdp: mockSdp('actpass') }));
+      const pc = createdPCs[0];
+      const channel = new MockRTCDataChannel('scrabble-data');
+      pc.simulateDataChannel(channel);
+      channel.simulateOpen();
+      const sendSpy = vi.spyOn(channel, 'send');
+
+      const restart = { __p2p: { kind: 'ice-restart', description: { type: 'offer', sdp: 'restart-offer' } } };
+      channel.onmessage?.({ data: JSON.stringify(restart) });
+      await vi.waitFor(() => expect(sendSpy).toHaveBeenCalledTimes(1));
+      expect(pc.remoteDescription).toEqual({ type: 'offer', sdp: 'restart-offer' });
+      expect(restartMessage(sendSpy.mock.calls[0][0]).description.type).toBe('answer');
+
+      // The relay can deliver the same offer a second time.
+      channel.onmessage?.({ data: JSON.stringify(restart) });
+      await new Promise((r) => setTimeout(r, 20));
+      expect(sendSpy).toHaveBeenCalledTimes(1);
+      expect(callbacks.onMessage).not.toHaveBeenCalled();
+    });
+
+    it('Gives up after a couple of attempts when the data channel is the only route', async () => {
+      const callbacks = { onMessage: vi.fn(), onLog: vi.fn() };
+      const host = await createHost(callbacks);
+      const pc = createdPCs[0];
+      pc.createdChannels[0].simulateOpen();
+      const offerSpy = vi.spyOn(pc, 'createOffer');
+
+      vi.useFakeTimers();
+      try {
+        pc.connectionState = 'failed';
+        const recovered = host.connection.recover!();
+        await vi.advanceTimersByTimeAsync(60_000);
+        await expect(recovered).resolves.toBe(false);
+        expect(offerSpy).toHaveBeenCalledTimes(2);
+        expect(callbacks.onLog).toHaveBeenCalledWith(expect.stringContaining('only go over the data channel'));
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('Asks for a new handshake at once when the data channel has closed', async () => {
+      const host = await createHost({ onMessage: vi.fn() });
+      const pc = createdPCs[0];
+      const offerSpy = vi.spyOn(pc, 'createOffer');
+
+      pc.connectionState = 'failed';
+      await expect(host.connection.recover!()).resolves.toBe(false);
+      expect(offerSpy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('signaling relay', () => {
+    const relay = { url: 'ws://relay', room: 'K7QM-X2PD' };
+    const candidate = { candidate: 'candidate:1 1 udp 2113937151 192.168.1.7 50001 typ host', sdpMid: '0' };
+
+    beforeEach(() => {
+      MockWebSocket.instances = [];
+      vi.stubGlobal('WebSocket', MockWebSocket);
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('Host offers once a peer joins the room', async () => {
+      connectViaRelay('host', { onMessage: vi.fn() }, relay);
+      const ws = MockWebSocket.instances[0];
+      ws.open();
+      expect(ws.sent[0]).toEqual({ type: 'join', room: relay.room, role: 'host' });
+
+      ws.receive({ type: 'joined', room: relay.room, peerPresent: false });
+      expect(createdPCs).toHaveLength(0);
+
+      ws.receive({ type: 'peer-joined' });
+      await vi.waitFor(() => expect(ws.signals()).toHaveLength(1));
+      expect(ws.signals()[0]).toMatchObject({ kind: 'description', description: { type: 'offer' } });
+      expect(createdPCs).toHaveLength(1);
+      expect(createdPCs[0].createdChannels[0].label).toBe('scrabble-data');
+    });
+
+    it('Client answers the offer it gets through the relay', async () => {
+      const callbacks = { onMessage: vi.fn(), onOpen: vi.fn() };
+      const client = connectViaRelay('client', callbacks, relay);
+      const ws = MockWebSocket.instances[0];
+      ws.open();
+      ws.receive({ type: 'joined', room: relay.room, peerPresent: true });
+
+      const offer = { type: 'offer', sdp: mockSdp('actpass') };
+      ws.receive({ type: 'signal', data: { kind: 'description', description: offer } });
+      await vi.waitFor(() => expect(ws.signals()).toHaveLength(1));
+      expect(ws.signals()[0]).toMatchObject({ kind: 'description', description: { type: 'answer' } });
+      const pc = createdPCs[0];
+      expect(pc.remoteDescription).toEqual(offer);
+
+      const channel = new MockRTCDataChannel('scrabble-data');
+      pc.simulateDataChannel(channel);
+      channel.simulateOpen();
+      expect(callbacks.onOpen).toHaveBeenCalledTimes(1);
+      expect(client.ready).toBe(true);
+    });
+
+    it('Keeps restarting through the relay for the whole backoff schedule', async () => {
+      const host = connectViaRelay('host', { onMessage: vi.fn() }, relay);
+      const ws = MockWebSocket.instances[0];
+      ws.open();
+      ws.receive({ type: 'joined', room: relay.room, peerPresent: true });
+      await vi.waitFor(() => expect(ws.signals()).toHaveLength(1));
+      const pc = createdPCs[0];
+      const offerSpy = vi.spyOn(pc, 'createOffer');
+
+      vi.useFakeTimers();
+      try {
+        pc.connectionState = 'failed';
+        const recovered = host.recover!();
+        await vi.advanceTimersByTimeAsync(60_000);
+        await expect(recovered).resolves.toBe(false);
+        expect(offerSpy).toHaveBeenCalledTimes(5);
+        expect(ws.signals().filter((sig) => sig.kind === 'ice-restart')).toHaveLength(5);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('Holds trickled candidates until the remote description is set', async () => {
+      connectViaRelay('host', { onMessage: vi.fn() }, relay);
+      const ws = MockWebSocket.instances[0];
+      ws.open();
+      ws.receive({ type: 'joined', room: relay.room, peerPresent: true });
+      await vi.waitFor(() => expect(ws.signals()).toHaveLength(1));
+      const pc = createdPCs[0];
+
+      ws.receive({ type: 'signal', data: { kind: 'candidate', candidate } });
+      await new Promise((r) => setTimeout(r, 0));
+      expect(pc.addedCandidates).toEqual([]);
+
+      ws.receive({ type: 'signal', data: { kind: 'description', description: { type: 'answer', sdp: mockSdp('active') } } });
+      await vi.waitFor(() => expect(pc.addedCandidates).toEqual([candidate]));
+
+      // Later candidates go straight in.
+      const late = { ...candidate, candidate: candidate.candidate.replace('50001', '50002') };
+      ws.receive({ type: 'signal', data: { kind: 'candidate', candidate: late } });
+      await vi.waitFor(() => expect(pc.addedCandidates).toEqual([candidate, late]));
+    });
+
+    it('Holds restart candidates until the restart offer is applied', async () => {
+      connectViaRelay('client', { onMessage: vi.fn() }, relay);
+      const ws = MockWebSocket.instances[0];
+      ws.open();
+      ws.receive({ type: 'signal', data: { kind: 'description', description: { type: 'offer', sdp: mockSdp('actpass') } } });
+      await vi.waitFor(() => expect(ws.signals()).toHaveLength(1));
+      const pc = createdPCs[0];
+      const channel = new MockRTCDataChannel('scrabble-data');
+      pc.simulateDataChannel(channel);
+      channel.simulateOpen();
+
+      // The host trickles candidates for its restart before the restart offer itself arrives.
+      const restartCandidate = { ...candidate, usernameFragment: 'efgh' };
+      ws.receive({ type: 'signal', data: { kind: 'candidate', candidate: restartCandidate } });
+      await new Promise((r) => setTimeout(r, 0));
+      expect(pc.addedCandidates).toEqual([]);
+
+      const restartOffer = { type: 'offer', sdp: mockSdp('actpass').replace('ice-ufrag:abcd', 'ice-ufrag:efgh') };
+      ws.receive({ type: 'signal', data: { kind: 'ice-restart', description: restartOffer } });
+      await vi.waitFor(() => expect(pc.addedCandidates).toEqual([restartCandidate]));
+      expect(pc.remoteDescription).toEqual(restartOffer);
+      expect(ws.signals().filter((sig) => sig.kind === 'ice-restart')).toHaveLength(1);
+    });
+  });
+});
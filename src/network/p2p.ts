@@ -1,18 +1,8 @@
-export interface P2PCallbacks {
-  onMessage: (data: unknown) => void;
-  onOpen?: () => void;
-  onClose?: () => void;
-  onError?: (err: unknown) => void;
-  onLog?: (msg: string) => void;
-  onConnectionStateChange?: (state: RTCPeerConnectionState) => void;
-}
+import { decodeHandshake, encodeHandshake } from './sdpCodec';
+import { openSignalingRoom } from './signaling';
+import type { Transport, TransportCallbacks } from './transport';
 
-export interface P2PConnection {
-  role: 'host' | 'client';
-  send: (data: unknown) => void;
-  close: () => void;
-  dataChannelReady: boolean;
-}
+export type P2PCallbacks = TransportCallbacks;
 
 type ChannelRef = { current: RTCDataChannel | null };
 
@@ -20,42 +10,59 @@ const rtcConfig: RTCConfiguration = {
   iceServers: []
 };
 
+/** Waits before each ICE restart attempt; the first goes out right away. */
+const RESTART_DELAYS_MS = [0, 1000, 2000, 4000, 8000];
+/**
+ * Attempts without a relay. The data channel is then the only way to reach the peer, and
+ * if a couple of restarts over it don't help, asking for a new handshake is quicker.
+ */
+const CHANNEL_ONLY_RESTARTS = 2;
+/** How long one attempt may take to gather candidates and get back to `connected`. */
+const RESTART_ATTEMPT_MS = 6000;
+/** Data channel messages under this key are ours (ICE restarts) and never reach `onMessage`. */
+const CONTROL_KEY = '__p2p';
+
+type RestartSignal = { kind: 'ice-restart'; description: RTCSessionDescriptionInit };
+
 export async function createHost(callbacks: P2PCallbacks) {
   const pc = new RTCPeerConnection(rtcConfig);
   const channel = pc.createDataChannel('scrabble-data', { negotiated: false });
-  wireChannel(channel, callbacks);
-  wirePeerLogging(pc, 'host', callbacks);
   const channelRef: ChannelRef = { current: channel };
+  const restart = createIceRestart('host', () => pc, channelRef, callbacks);
+  wireChannel(channel, callbacks, restart.handle);
+  wirePeerLogging(pc, 'host', callbacks);
 
   const offer = await buildOffer(pc);
 
   return {
-    connection: buildConn(pc, channelRef, 'host'),
+    connection: buildConn(pc, channelRef, 'host', restart),
     offer,
     applyAnswer: async (answer: string) => {
-      const desc = decodeSDP(answer);
+      const desc = await decodeHandshake(answer);
       await pc.setRemoteDescription(desc);
     }
   };
 }
 
 export async function createClient(callbacks: P2PCallbacks, offer: string) {
+  // Decode first so a bad code fails before a peer connection is opened.
+  const desc = await decodeHandshake(offer);
   const pc = new RTCPeerConnection(rtcConfig);
   wirePeerLogging(pc, 'client', callbacks);
 
   const channelRef: ChannelRef = { current: null };
+  const restart = createIceRestart('client', () => pc, channelRef, callbacks);
   pc.ondatachannel = (ev) => {
     channelRef.current = ev.channel;
-    wireChannel(ev.channel, callbacks);
+    wireChannel(ev.channel, callbacks, restart.handle);
   };
 
-  const desc = decodeSDP(offer);
   await pc.setRemoteDescription(desc);
 
   const answer = await buildAnswer(pc);
 
   return {
-    connection: buildConn(pc, channelRef, 'client'),
+    connection: buildConn(pc, channelRef, 'client', restart),
     answer,
     applyAck: async () => {
       // noop placeholder for symmetry
@@ -63,13 +70,163 @@ export async function createClient(callbacks: P2PCallbacks, offer: string) {
   };
 }
 
-function wireChannel(channel: RTCDataChannel, callbacks: P2PCallbacks) {
+type RelaySignal =
+  | { kind: 'description'; description: RTCSessionDescriptionInit }
+  | { kind: 'candidate'; candidate: RTCIceCandidateInit }
+  | RestartSignal;
+
+/**
+ * Connects through a signaling relay instead of a pasted offer/answer: both sides join
+ * `room`, the host makes an offer as soon as a client is there, and ICE candidates trickle
+ * over the relay as they are found. The relay socket stays open afterwards as a second path
+ * for ICE restarts.
+ */
+export function connectViaRelay(
+  role: 'host' | 'client',
+  callbacks: P2PCallbacks,
+  relay: { url: string; room: string }
+): Transport {
+  const log = (msg: string) => callbacks.onLog?.(`[${role}] ${msg}`);
+  const channelRef: ChannelRef = { current: null };
+  let pc: RTCPeerConnection | null = null;
+  let pendingCandidates: RTCIceCandidateInit[] = [];
+
+  const signaling = openSignalingRoom(relay.url, relay.room, role, {
+    onJoined: (peerPresent) => {
+      log(`joined room ${relay.room}`);
+      if (role === 'host' && peerPresent) void negotiate();
+    },
+    onPeerJoined: () => {
+      log('peer joined the room');
+      if (role === 'host' && channelRef.current?.readyState !== 'open') void negotiate();
+    },
+    onPeerLeft: () => log('peer left the room'),
+    onSignal: (data) => void handleSignal(data as RelaySignal).catch((err) => callbacks.onError?.(err)),
+    onError: (err) => callbacks.onError?.(err),
+    onClose: () => log('signaling relay closed')
+  });
+
+  const restart = createIceRestart(role, () => pc, channelRef, callbacks, (signal) => signaling.send(signal));
+  // A restart brings new ICE credentials; candidates held back for them can go in once it's applied.
+  const handleRestart = async (signal: RestartSignal) => {
+    await restart.handle(signal);
+    if (pc) await flushCandidates(pc);
+  };
+
+  // A new peer (or a host's fresh offer) replaces a negotiation that never got to open.
+  const freshPeer = () => {
+    if (pc) {
+      pc.onconnectionstatechange = null;
+      if (channelRef.current) channelRef.current.onclose = null;
+      pc.close();
+    }
+    channelRef.current = null;
+    pendingCandidates = [];
+    const next = new RTCPeerConnection(rtcConfig);
+    wirePeerLogging(next, role, callbacks);
+    next.onicecandidate = (ev) => {
+      if (ev.candidate) signaling.send({ kind: 'candidate', candidate: ev.candidate.toJSON() } satisfies RelaySignal);
+      else log('ICE gathering complete');
+    };
+    pc = next;
+    return next;
+  };
+
+  const negotiate = async () => {
+    const peer = freshPeer();
+    const channel = peer.createDataChannel('scrabble-data', { negotiated: false });
+    channelRef.current = channel;
+    wireChannel(channel, callbacks, handleRestart);
+    const offer = await peer.createOffer();
+    await peer.setLocalDescription(offer);
+    signaling.send({ kind: 'description', description: offer } satisfies RelaySignal);
+  };
+
+  const handleSignal = async (signal: RelaySignal) => {
+    if (signal.kind === 'ice-restart') {
+      await handleRestart(signal);
+      return;
+    }
+    if (signal.kind === 'candidate') {
+      if (pc && acceptsCandidate(pc, signal.candidate)) await pc.addIceCandidate(signal.candidate);
+      else pendingCandidates.push(signal.candidate);
+      return;
+    }
+    if (signal.description.type === 'offer' && role === 'client') {
+      const peer = freshPeer();
+      peer.ondatachannel = (ev) => {
+        channelRef.current = ev.channel;
+        wireChannel(ev.channel, callbacks, handleRestart);
+      };
+      await peer.setRemoteDescription(signal.description);
+      await flushCandidates(peer);
+      const answer = await peer.createAnswer();
+      await peer.setLocalDescription(answer);
+      signaling.send({ kind: 'description', description: answer } satisfies RelaySignal);
+    } else if (signal.description.type === 'answer' && role === 'host' && pc) {
+      await pc.setRemoteDescription(signal.description);
+      await flushCandidates(pc);
+    }
+  };
+
+  const flushCandidates = async (peer: RTCPeerConnection) => {
+    const queued = pendingCandidates;
+    pendingCandidates = [];
+    for (const candidate of queued) {
+      if (acceptsCandidate(peer, candidate)) await peer.addIceCandidate(candidate);
+      else pendingCandidates.push(candidate);
+    }
+  };
+
+  return {
+    kind: 'webrtc',
+    role,
+    send: (data: unknown) => {
+      const channel = channelRef.current;
+      if (channel?.readyState === 'open') {
+        channel.send(JSON.stringify(data));
+      }
+    },
+    close: () => {
+      restart.cancel();
+      signaling.close();
+      channelRef.current?.close();
+      pc?.close();
+    },
+    recover: restart.recover,
+    get ready() {
+      return channelRef.current?.readyState === 'open';
+    }
+  };
+}
+
+/**
+ * Whether `candidate` belongs to the remote description `pc` has now. Restart candidates
+ * carry the new ICE username fragment and trickle in before the restart offer or answer
+ * that introduces it, so until then they wait like candidates before the first handshake.
+ */
+function acceptsCandidate(pc: RTCPeerConnection, candidate: RTCIceCandidateInit): boolean {
+  const remote = pc.remoteDescription;
+  if (!remote) return false;
+  const ufrag = candidate.usernameFragment ?? /\sufrag (\S+)/.exec(candidate.candidate ?? '')?.[1];
+  return !ufrag || ufrag === /^a=ice-ufrag:(\S+)/m.exec(remote.sdp)?.[1];
+}
+
+function wireChannel(
+  channel: RTCDataChannel,
+  callbacks: P2PCallbacks,
+  onControl?: (signal: RestartSignal) => Promise<void>
+) {
   channel.onopen = () => callbacks.onOpen?.();
   channel.onclose = () => callbacks.onClose?.();
   channel.onerror = (err) => callbacks.onError?.(err);
   channel.onmessage = (ev) => {
     try {
       const parsed = JSON.parse(ev.data);
+      if (parsed && typeof parsed === 'object' && CONTROL_KEY in parsed) {
+        onControl?.(parsed[CONTROL_KEY]).catch((err) => callbacks.onError?.(err));
+        return;
+      }
       callbacks.onMessage(parsed);
     } catch (err) {
       callbacks.onError?.(err);
@@ -77,8 +234,99 @@ function wireChannel(channel: RTCDataChannel, callbacks: P2PCallbacks) {
   };
 }
 
-function buildConn(pc: RTCPeerConnection, channelRef: ChannelRef, role: 'host' | 'client'): P2PConnection {
+interface IceRestart {
+  /** Tries to bring a dropped connection back; false means a fresh handshake is needed. */
+  recover: () => Promise<boolean>;
+  handle: (signal: RestartSignal) => Promise<void>;
+  cancel: () => void;
+}
+
+/**
+ * ICE restart without a new handshake. The host, being the offerer, sends restart offers
+ * with backoff (`RESTART_DELAYS_MS`) over the data channel, which SCTP keeps open through a
+ * short outage, and over `backup` (the signaling relay) when there is one. The client
+ * answers whatever arrives and waits for the connection to come back. Without `backup`
+ * it stops after `CHANNEL_ONLY_RESTARTS`, or at once if the data channel has closed.
+ */
+function createIceRestart(
+  role: 'host' | 'client',
+  getPc: () => RTCPeerConnection | null,
+  channelRef: ChannelRef,
+  callbacks: P2PCallbacks,
+  backup?: (signal: RestartSignal) => void
+): IceRestart {
+  const log = (msg: string) => callbacks.onLog?.(`[${role}] ${msg}`);
+  let cancelled = false;
+  let running: Promise<boolean> | null = null;
+  let lastOffer: string | undefined;
+
+  const send = (description: RTCSessionDescription | RTCSessionDescriptionInit) => {
+    const signal: RestartSignal = { kind: 'ice-restart', description: { type: description.type, sdp: description.sdp } };
+    const channel = channelRef.current;
+    if (channel?.readyState === 'open') channel.send(JSON.stringify({ [CONTROL_KEY]: signal }));
+    backup?.(signal);
+  };
+
+  const attempts = async (): Promise<boolean> => {
+    const delays = backup ? RESTART_DELAYS_MS : RESTART_DELAYS_MS.slice(0, CHANNEL_ONLY_RESTARTS);
+    if (!backup) log('no signaling relay; ICE restart can only go over the data channel');
+    for (const [i, delay] of delays.entries()) {
+      if (delay) await sleep(delay);
+      const pc = getPc();
+      if (cancelled || !pc || pc.connectionState === 'closed') return false;
+      if (pc.connectionState === 'connected') return true;
+      if (!backup && channelRef.current?.readyState !== 'open') {
+        log('data channel closed; ICE restart has no route left, a new handshake is needed');
+        return false;
+      }
+      if (role === 'host') {
+        log(`ICE restart attempt ${i + 1} of ${delays.length}`);
+        try {
+          await pc.setLocalDescription(await pc.createOffer({ iceRestart: true }));
+          await waitForIce(pc, RESTART_ATTEMPT_MS);
+          send(pc.localDescription!);
+        } catch (err) {
+          log(`ICE restart attempt failed: ${String(err)}`);
+        }
+      }
+      if (await waitForConnected(pc, RESTART_ATTEMPT_MS)) return true;
+    }
+    return false;
+  };
+
+  return {
+    recover: () => {
+      running ??= attempts().finally(() => {
+        running = null;
+      });
+      return running;
+    },
+    handle: async (signal) => {
+      const pc = getPc();
+      if (!pc || cancelled) return;
+      const { description } = signal;
+      if (description.type === 'offer' && role === 'client') {
+        // The same offer can arrive over both paths.
+        if (description.sdp === lastOffer) return;
+        lastOffer = description.sdp;
+        log('answering ICE restart');
+        await pc.setRemoteDescription(description);
+        await pc.setLocalDescription(await pc.createAnswer());
+        await waitForIce(pc, RESTART_ATTEMPT_MS);
+        send(pc.localDescription!);
+      } else if (description.type === 'answer' && role === 'host' && pc.signalingState === 'have-local-offer') {
+        await pc.setRemoteDescription(description);
+      }
+    },
+    cancel: () => {
+      cancelled = true;
+    }
+  };
+}
+
+function buildConn(pc: RTCPeerConnection, channelRef: ChannelRef, role: 'host' | 'client', restart: IceRestart): Transport {
   return {
+    kind: 'webrtc',
     role,
     send: (data: unknown) => {
       const channel = channelRef.current;
@@ -87,10 +335,12 @@ function buildConn(pc: RTCPeerConnection, channelRef: ChannelRef, role: 'host' |
       }
     },
     close: () => {
+      restart.cancel();
       channelRef.current?.close();
       pc.close();
     },
-    get dataChannelReady() {
+    recover: restart.recover,
+    get ready() {
       return channelRef.current?.readyState === 'open';
     }
   };
@@ -100,39 +350,57 @@ async function buildOffer(pc: RTCPeerConnection): Promise<string> {
   const offer = await pc.createOffer();
   await pc.setLocalDescription(offer);
   await waitForIce(pc);
-  return encodeSDP(pc.localDescription!);
+  return encodeHandshake(pc.localDescription!);
 }
 
 async function buildAnswer(pc: RTCPeerConnection): Promise<string> {
   const answer = await pc.createAnswer();
   await pc.setLocalDescription(answer);
   await waitForIce(pc);
-  return encodeSDP(pc.localDescription!);
+  return encodeHandshake(pc.localDescription!);
 }
 
-function encodeSDP(desc: RTCSessionDescriptionInit): string {
-  return btoa(JSON.stringify(desc));
-}
-
-function decodeSDP(data: string): RTCSessionDescriptionInit {
-  return JSON.parse(atob(data)) as RTCSessionDescriptionInit;
-}
-
-function waitForIce(pc: RTCPeerConnection): Promise<void> {
+/** Resolves once gathering completes, or after `timeoutMs` (when given) with what was gathered. */
+function waitForIce(pc: RTCPeerConnection, timeoutMs?: number): Promise<void> {
   if (pc.iceGatheringState === 'complete') {
     return Promise.resolve();
   }
   return new Promise((resolve) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const done = () => {
+      clearTimeout(timer);
+      pc.removeEventListener('icegatheringstatechange', check);
+      resolve();
+    };
     const check = () => {
-      if (pc.iceGatheringState === 'complete') {
-        pc.removeEventListener('icegatheringstatechange', check);
-        resolve();
-      }
+      if (pc.iceGatheringState === 'complete') done();
     };
     pc.addEventListener('icegatheringstatechange', check);
+    if (timeoutMs !== undefined) timer = setTimeout(done, timeoutMs);
+  });
+}
+
+function waitForConnected(pc: RTCPeerConnection, timeoutMs: number): Promise<boolean> {
+  if (pc.connectionState === 'connected') return Promise.resolve(true);
+  return new Promise((resolve) => {
+    const finish = (ok: boolean) => {
+      clearTimeout(timer);
+      pc.removeEventListener('connectionstatechange', check);
+      resolve(ok);
+    };
+    const check = () => {
+      if (pc.connectionState === 'connected') finish(true);
+      else if (pc.connectionState === 'closed') finish(false);
+    };
+    const timer = setTimeout(() => finish(false), timeoutMs);
+    pc.addEventListener('connectionstatechange', check);
   });
 }
 
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 function wirePeerLogging(pc: RTCPeerConnection, role: 'host' | 'client', callbacks: P2PCallbacks) {
   const log = (msg: string) => callbacks.onLog?.(`[${role}] ${msg}`);
   pc.onicegatheringstatechange = () => log(`iceGatheringState=${pc.iceGatheringState}`);
@@ -1,6 +1,55 @@
 import QRCode from 'qrcode';
+import { deflateRaw, inflateRaw } from './compress';
+import { FountainEncoder } from './fountain';
+
+/** Longer text is shown as an animation: one dense code is hard for phone cameras to read. */
+export const SINGLE_QR_MAX_CHARS = 600;
+const FRAME_MS = 250;
 
 export function toQrDataUrl(text: string) {
   return QRCode.toDataURL(text, { margin: 1, scale: 6 });
 }
 
+const animations = new WeakMap<HTMLImageElement, () => void>();
+
+/**
+ * Shows `text` in `img`: as a single code when it is short enough, otherwise as a looping
+ * stream of fountain-coded frames (see `fountain.ts`) until `stopQrCode` or the next call.
+ */
+export async function showQrCode(img: HTMLImageElement, text: string): Promise<void> {
+  stopQrCode(img);
+  if (text.length <= SINGLE_QR_MAX_CHARS) {
+    img.src = await toQrDataUrl(text);
+    return;
+  }
+  const encoder = new FountainEncoder(await packQrText(text));
+  let seed = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+  animations.set(img, () => {
+    stopped = true;
+    clearTimeout(timer);
+  });
+  const step = async () => {
+    const url = await toQrDataUrl(encoder.frame(seed));
+    if (stopped) return;
+    img.src = url;
+    seed += 1;
+    timer = setTimeout(() => void step(), FRAME_MS);
+  };
+  await step();
+}
+
+export function stopQrCode(img: HTMLImageElement) {
+  animations.get(img)?.();
+  animations.delete(img);
+}
+
+/** Text to bytes for a multi-frame transfer; deflated, since every frame saved is a shorter wait. */
+export async function packQrText(text: string): Promise<Uint8Array> {
+  return deflateRaw(new TextEncoder().encode(text));
+}
+
+export async function unpackQrText(bytes: Uint8Array): Promise<string> {
+  return new TextDecoder().decode(await inflateRaw(bytes));
+}
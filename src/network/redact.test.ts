@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { ScrabbleGame } from '../core/game';
+import { redactStateFor, visibleBagCount, visibleRackSize } from './redact';
+
+describe('redactStateFor', () => {
+  it('keeps only the recipient rack and replaces the bag with counts', () => {
+    const game = new ScrabbleGame();
+    const state = game.start('en', ['host', 'client']);
+
+    const view = redactStateFor(state, 'client');
+
+    expect(view.racks.client).toEqual(state.racks.client);
+    expect(view.racks.host).toEqual([]);
+    expect(view.bag).toEqual([]);
+    expect(view.redacted).toEqual({ bagCount: state.bag.length, rackSizes: { host: 7, client: 7 } });
+    expect(visibleBagCount(view)).toBe(state.bag.length);
+    expect(visibleRackSize(view, 'host')).toBe(7);
+  });
+
+  it('does not alias or mutate the authoritative state', () => {
+    const game = new ScrabbleGame();
+    const state = game.start('en', ['host', 'client']);
+    const bagBefore = state.bag.length;
+
+    const view = redactStateFor(state, 'client');
+    view.racks.client.pop();
+    view.board[7][7].tile = { id: 'x', letter: 'A', value: 1 };
+
+    expect(state.racks.client).toHaveLength(7);
+    expect(state.board[7][7].tile).toBeNull();
+    expect(state.bag).toHaveLength(bagBefore);
+    expect(state.redacted).toBeUndefined();
+  });
+
+  it('hides racks recorded in other players\' history until asked to reveal them', () => {
+    const game = new ScrabbleGame();
+    const state = game.start('en', ['host', 'client']);
+    game.passTurn('host');
+    game.passTurn('client');
+
+    const during = redactStateFor(state, 'client');
+    const after = redactStateFor(state, 'client', { revealHistoryRacks: true });
+
+    expect(during.history.map((e) => 'rack' in e && e.rack !== undefined)).toEqual([false, true]);
+    expect(after.history.map((e) => 'rack' in e && e.rack !== undefined)).toEqual([true, true]);
+    expect(state.history.every((e) => 'rack' in e && e.rack)).toBe(true);
+  });
+
+  it('falls back to the full state when not redacted', () => {
+    const game = new ScrabbleGame();
+    const state = game.start('en', ['p1']);
+    expect(visibleBagCount(state)).toBe(state.bag.length);
+    expect(visibleRackSize(state, 'p1')).toBe(7);
+    expect(visibleRackSize(state, 'nobody')).toBe(0);
+  });
+});
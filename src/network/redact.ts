@@ -0,0 +1,42 @@
+import type { GameState } from '../core/types';
+
+/**
+ * Per-recipient view of the authoritative state for SYNC_STATE.
+ *
+ * Only the recipient's own rack is included; other racks are emptied and the bag
+ * is dropped entirely. Their sizes travel in `redacted` so the UI can still show them.
+ * The racks recorded in other players' history entries would give away their current
+ * tiles too, so they are removed unless `revealHistoryRacks` is set (after the game ends).
+ */
+export function redactStateFor(
+  state: GameState,
+  recipientId: string,
+  options: { revealHistoryRacks?: boolean } = {}
+): GameState {
+  const rackSizes: Record<string, number> = {};
+  const racks: GameState['racks'] = {};
+  for (const [playerId, rack] of Object.entries(state.racks)) {
+    rackSizes[playerId] = rack.length;
+    racks[playerId] = playerId === recipientId ? structuredClone(rack) : [];
+  }
+  const view: GameState = {
+    ...structuredClone({ ...state, racks: {}, bag: [] }),
+    racks,
+    redacted: { bagCount: visibleBagCount(state), rackSizes }
+  };
+  if (!options.revealHistoryRacks) {
+    for (const entry of view.history) {
+      if ('rack' in entry && entry.playerId !== recipientId) delete entry.rack;
+    }
+  }
+  return view;
+}
+
+/** Tiles left in the bag, whether this device holds the full state or a redacted view. */
+export function visibleBagCount(state: GameState): number {
+  return state.redacted?.bagCount ?? state.bag.length;
+}
+
+export function visibleRackSize(state: GameState, playerId: string): number {
+  return state.redacted?.rackSizes[playerId] ?? state.racks[playerId]?.length ?? 0;
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { decodeHandshake, encodeHandshake, looksLikeHandshakeCode } from './sdpCodec';
+
+const CHROME_OFFER_SDP = [
+  'v=0',
+  'o=- 4611731400430051336 2 IN IP4 127.0.0.1',
+  's=-',
+  't=0 0',
+  'a=group:BUNDLE 0',
+  'a=extmap-allow-mixed',
+  'a=msid-semantic: WMS',
+  'm=application 57016 UDP/DTLS/SCTP webrtc-datachannel',
+  'c=IN IP4 192.168.1.23',
+  'a=candidate:2431239485 1 udp 2113937151 3f0c4d7e-9a1b-4c2d-8e3f-0a1b2c3d4e5f.local 57016 typ host generation 0 network-cost 999',
+  'a=candidate:842163049 1 udp 1677729535 203.0.113.7 57016 typ srflx raddr 0.0.0.0 rport 0 generation 0 network-cost 999',
+  'a=candidate:1467250027 1 tcp 1518280447 fe80::1c2f:3aff:fe4b:9d10 9 typ host tcptype active generation 0',
+  'a=ice-ufrag:Zk9q',
+  'a=ice-pwd:7hJx3YbWm1P+oQ/2nVr5tLfa',
+  'a=ice-options:trickle',
+  'a=fingerprint:sha-256 9E:7A:04:41:D2:3B:6C:0F:AE:11:58:27:93:B4:CD:E0:1F:62:7A:88:90:35:BC:4D:E6:F7:01:12:23:34:45:56',
+  'a=setup:actpass',
+  'a=mid:0',
+  'a=sctp-port:5000',
+  'a=max-message-size:262144',
+  ''
+].join('\r\n');
+
+describe('handshake codes', () => {
+  it('round-trips the fields a data channel needs', async () => {
+    const code = await encodeHandshake({ type: 'offer', sdp: CHROME_OFFER_SDP });
+    expect(code.startsWith('S1:')).toBe(true);
+    expect(looksLikeHandshakeCode(code)).toBe(true);
+    // Only QR alphanumeric characters, and far shorter than base64 JSON.
+    expect(code).toMatch(/^[0-9A-Z $%*+\-./:]+$/);
+    expect(code.length).toBeLessThan(btoa(JSON.stringify({ type: 'offer', sdp: CHROME_OFFER_SDP })).length / 3);
+
+    const desc = await decodeHandshake(code);
+    expect(desc.type).toBe('offer');
+    const sdp = desc.sdp!;
+    expect(sdp).toContain('a=ice-ufrag:Zk9q\r\n');
+    expect(sdp).toContain('a=ice-pwd:7hJx3YbWm1P+oQ/2nVr5tLfa\r\n');
+    expect(sdp).toContain('a=fingerprint:sha-256 9E:7A:04:41:D2:3B:6C:0F:AE:11:58:27:93:B4:CD:E0:1F:62:7A:88:90:35:BC:4D:E6:F7:01:12:23:34:45:56');
+    expect(sdp).toContain('a=setup:actpass');
+    expect(sdp).toContain('m=application 9 UDP/DTLS/SCTP webrtc-datachannel');
+    expect(sdp).toContain('udp 2113937151 3f0c4d7e-9a1b-4c2d-8e3f-0a1b2c3d4e5f.local 57016 typ host');
+    expect(sdp).toContain('udp 1677729535 203.0.113.7 57016 typ srflx raddr 0.0.0.0 rport 0');
+    expect(sdp).toContain('tcp 1518280447 fe80:0:0:0:1c2f:3aff:fe4b:9d10 9 typ host tcptype active');
+  });
+
+  it('keeps an answer an answer', async () => {
+    const sdp = CHROME_OFFER_SDP.replace('a=setup:actpass', 'a=setup:active');
+    const desc = await decodeHandshake(await encodeHandshake({ type: 'answer', sdp }));
+    expect(desc.type).toBe('answer');
+    expect(desc.sdp).toContain('a=setup:active');
+  });
+
+  it('rejects old, future and damaged codes with readable errors', async () => {
+    const legacy = btoa(JSON.stringify({ type: 'offer', sdp: CHROME_OFFER_SDP }));
+    expect(looksLikeHandshakeCode(legacy)).toBe(true);
+    await expect(decodeHandshake(legacy)).rejects.toThrow(/older version/);
+    await expect(decodeHandshake('S2:ABC')).rejects.toThrow(/format 2/);
+
+    const code = await encodeHandshake({ type: 'offer', sdp: CHROME_OFFER_SDP });
+    await expect(decodeHandshake(code.slice(0, -6))).rejects.toThrow(/damaged/);
+  });
+
+  it('refuses descriptions without ICE credentials', async () => {
+    await expect(encodeHandshake({ type: 'offer', sdp: 'v=0\r\n' })).rejects.toThrow(/ICE credentials/);
+  });
+});
@@ -0,0 +1,405 @@
+/**
+ * Compact handshake codes for the copy/paste and QR exchange.
+ *
+ * A data-channel-only session description carries little that matters: the ICE
+ * credentials, the DTLS fingerprint and role, and the gathered candidates. Those are
+ * packed into bytes, deflated when that helps, and written in base45 (RFC 9285), whose
+ * alphabet is exactly the QR alphanumeric set, so the QR stays in the denser mode.
+ * The decoder rebuilds an SDP the browser accepts.
+ *
+ * Codes look like `S1:…`; the number is the format version, and codes of any other
+ * version (including the old base64 JSON ones) are rejected with a readable error.
+ */
+
+import { fromBase45, toBase45 } from './base45';
+import { deflateRaw, inflateRaw } from './compress';
+
+export const HANDSHAKE_CODE_VERSION = 1;
+const PREFIX = `S${HANDSHAKE_CODE_VERSION}:`;
+const ICE_CHARS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+const HASHES = ['sha-1', 'sha-224', 'sha-256', 'sha-384', 'sha-512'];
+const SETUPS = ['actpass', 'active', 'passive'];
+const CANDIDATE_TYPES = ['host', 'srflx', 'prflx', 'relay'];
+const TCP_TYPES = ['active', 'passive', 'so'];
+
+const FLAG_ANSWER = 0x01;
+const FLAG_DEFLATED = 0x08;
+
+const ADDR_IPV4 = 0;
+const ADDR_IPV6 = 1;
+const ADDR_MDNS = 2;
+const ADDR_NAME = 3;
+
+interface HandshakeCandidate {
+  type: string;
+  protocol: 'udp' | 'tcp';
+  tcpType?: string;
+  priority: number;
+  address: string;
+  port: number;
+  relatedAddress?: string;
+  relatedPort?: number;
+}
+
+interface Handshake {
+  type: 'offer' | 'answer';
+  ufrag: string;
+  pwd: string;
+  hash: string;
+  fingerprint: Uint8Array;
+  setup: string;
+  mid: string;
+  sctpPort: number;
+  maxMessageSize: number;
+  candidates: HandshakeCandidate[];
+}
+
+/** Quick check for input worth trying to decode: a current code, or one from another version. */
+export function looksLikeHandshakeCode(text: string): boolean {
+  return /^S\d+:/.test(text) || text.startsWith('eyJ');
+}
+
+export async function encodeHandshake(desc: RTCSessionDescriptionInit): Promise<string> {
+  const handshake = parseSdp(desc);
+  const body = writeBody(handshake);
+  const deflated = await deflateRaw(body);
+  const packed = deflated.length < body.length ? deflated : body;
+  const flags = (handshake.type === 'answer' ? FLAG_ANSWER : 0)
+    | (SETUPS.indexOf(handshake.setup) << 1)
+    | (packed === deflated ? FLAG_DEFLATED : 0);
+  return PREFIX + toBase45(Uint8Array.of(flags, ...packed));
+}
+
+export async function decodeHandshake(code: string): Promise<RTCSessionDescriptionInit> {
+  const text = code.trim();
+  const version = /^S(\d+):/.exec(text)?.[1];
+  if (version === undefined) {
+    throw new Error('This handshake code is from an older version of the app. Ask the other player to update.');
+  }
+  if (Number(version) !== HANDSHAKE_CODE_VERSION) {
+    throw new Error(`This handshake code uses format ${version}, but this app reads format ${HANDSHAKE_CODE_VERSION}. Update both apps.`);
+  }
+  let handshake: Handshake;
+  try {
+    const bytes = fromBase45(text.slice(PREFIX.length));
+    const flags = bytes[0];
+    const body = flags & FLAG_DEFLATED
+      ? await inflateRaw(bytes.subarray(1))
+      : bytes.subarray(1);
+    handshake = readBody(body, flags & FLAG_ANSWER ? 'answer' : 'offer', SETUPS[(flags >> 1) & 0x03] ?? 'actpass');
+  } catch {
+    throw new Error('The handshake code is damaged or incomplete. Copy or scan it again.');
+  }
+  return { type: handshake.type, sdp: buildSdp(handshake) };
+}
+
+function parseSdp(desc: RTCSessionDescriptionInit): Handshake {
+  if ((desc.type !== 'offer' && desc.type !== 'answer') || !desc.sdp) {
+    throw new Error('Only offers and answers can be turned into handshake codes.');
+  }
+  const lines = desc.sdp.split(/\r?\n/);
+  const attr = (name: string) => lines.find((l) => l.startsWith(`a=${name}:`))?.slice(name.length + 3).trim();
+
+  const ufrag = attr('ice-ufrag');
+  const pwd = attr('ice-pwd');
+  const [hash, hex] = attr('fingerprint')?.split(' ') ?? [];
+  if (!ufrag || !pwd || !hash || !hex) throw new Error('The session description has no ICE credentials or fingerprint.');
+  if (!HASHES.includes(hash.toLowerCase())) throw new Error(`Unsupported fingerprint hash ${hash}.`);
+
+  const candidates: HandshakeCandidate[] = [];
+  for (const line of lines) {
+    if (!line.startsWith('a=candidate:')) continue;
+    const candidate = parseCandidate(line.slice('a=candidate:'.length));
+    if (candidate) candidates.push(candidate);
+  }
+
+  return {
+    type: desc.type,
+    ufrag,
+    pwd,
+    hash: hash.toLowerCase(),
+    fingerprint: Uint8Array.from(hex.split(':'), (b) => parseInt(b, 16)),
+    setup: SETUPS.includes(attr('setup') ?? '') ? attr('setup')! : 'actpass',
+    mid: attr('mid') ?? '0',
+    sctpPort: Number(attr('sctp-port') ?? 5000),
+    maxMessageSize: Number(attr('max-message-size') ?? 262144),
+    candidates
+  };
+}
+
+function parseCandidate(text: string): HandshakeCandidate | null {
+  const parts = text.trim().split(/\s+/);
+  const [, component, protocol, priority, address, port, , type] = parts;
+  if (component !== '1' || parts[6] !== 'typ' || !CANDIDATE_TYPES.includes(type)) return null;
+  const proto = protocol.toLowerCase();
+  if (proto !== 'udp' && proto !== 'tcp') return null;
+  const option = (name: string) => {
+    const at = parts.indexOf(name, 8);
+    return at > 0 ? parts[at + 1] : undefined;
+  };
+  const tcpType = option('tcptype');
+  return {
+    type,
+    protocol: proto,
+    tcpType: tcpType && TCP_TYPES.includes(tcpType) ? tcpType : undefined,
+    priority: Number(priority) >>> 0,
+    address,
+    port: Number(port),
+    relatedAddress: option('raddr'),
+    relatedPort: option('rport') !== undefined ? Number(option('rport')) : undefined
+  };
+}
+
+function buildSdp(h: Handshake): string {
+  const fingerprint = Array.from(h.fingerprint, (b) => b.toString(16).padStart(2, '0').toUpperCase()).join(':');
+  const lines = [
+    'v=0',
+    'o=- 0 2 IN IP4 127.0.0.1',
+    's=-',
+    't=0 0',
+    `a=group:BUNDLE ${h.mid}`,
+    'a=msid-semantic: WMS',
+    'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+    'c=IN IP4 0.0.0.0',
+    ...h.candidates.map((c, i) => {
+      let line = `a=candidate:${i + 1} 1 ${c.protocol} ${c.priority} ${c.address} ${c.port} typ ${c.type}`;
+      if (c.relatedAddress !== undefined) line += ` raddr ${c.relatedAddress} rport ${c.relatedPort ?? 0}`;
+      if (c.tcpType) line += ` tcptype ${c.tcpType}`;
+      return `${line} generation 0`;
+    }),
+    `a=ice-ufrag:${h.ufrag}`,
+    `a=ice-pwd:${h.pwd}`,
+    `a=fingerprint:${h.hash} ${fingerprint}`,
+    `a=setup:${h.setup}`,
+    `a=mid:${h.mid}`,
+    `a=sctp-port:${h.sctpPort}`,
+    `a=max-message-size:${h.maxMessageSize}`
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// ---- Binary layout ----
+
+function writeBody(h: Handshake): Uint8Array {
+  const out = new ByteWriter();
+  out.iceString(h.ufrag);
+  out.iceString(h.pwd);
+  out.u8(HASHES.indexOf(h.hash));
+  out.u8(h.fingerprint.length);
+  out.bytes(h.fingerprint);
+  out.text(h.mid);
+  out.u16(h.sctpPort);
+  out.u32(h.maxMessageSize);
+  out.u8(Math.min(h.candidates.length, 255));
+  for (const c of h.candidates.slice(0, 255)) {
+    const hasRelated = c.relatedAddress !== undefined;
+    out.u8(
+      CANDIDATE_TYPES.indexOf(c.type)
+      | (c.protocol === 'tcp' ? 0x04 : 0)
+      | (hasRelated ? 0x08 : 0)
+      | ((c.tcpType ? TCP_TYPES.indexOf(c.tcpType) + 1 : 0) << 4)
+    );
+    out.u32(c.priority);
+    out.address(c.address);
+    out.u16(c.port);
+    if (hasRelated) {
+      out.address(c.relatedAddress!);
+      out.u16(c.relatedPort ?? 0);
+    }
+  }
+  return out.finish();
+}
+
+function readBody(bytes: Uint8Array, type: 'offer' | 'answer', setup: string): Handshake {
+  const input = new ByteReader(bytes);
+  const ufrag = input.iceString();
+  const pwd = input.iceString();
+  const hash = HASHES[input.u8()];
+  if (!hash) throw new Error('bad hash');
+  const fingerprint = input.bytes(input.u8());
+  const mid = input.text();
+  const sctpPort = input.u16();
+  const maxMessageSize = input.u32();
+  const candidates: HandshakeCandidate[] = [];
+  for (let n = input.u8(); n > 0; n -= 1) {
+    const flags = input.u8();
+    const tcpType = TCP_TYPES[(flags >> 4) - 1];
+    const candidate: HandshakeCandidate = {
+      type: CANDIDATE_TYPES[flags & 0x03],
+      protocol: flags & 0x04 ? 'tcp' : 'udp',
+      tcpType,
+      priority: input.u32(),
+      address: input.address(),
+      port: input.u16()
+    };
+    if (flags & 0x08) {
+      candidate.relatedAddress = input.address();
+      candidate.relatedPort = input.u16();
+    }
+    candidates.push(candidate);
+  }
+  input.end();
+  return { type, ufrag, pwd, hash, fingerprint, setup, mid, sctpPort, maxMessageSize, candidates };
+}
+
+class ByteWriter {
+  private readonly out: number[] = [];
+
+  u8(n: number) {
+    this.out.push(n & 0xff);
+  }
+
+  u16(n: number) {
+    this.out.push((n >> 8) & 0xff, n & 0xff);
+  }
+
+  u32(n: number) {
+    this.u16(n >>> 16);
+    this.u16(n & 0xffff);
+  }
+
+  bytes(b: Uint8Array) {
+    this.out.push(...b);
+  }
+
+  text(s: string) {
+    const b = new TextEncoder().encode(s);
+    this.u8(b.length);
+    this.bytes(b);
+  }
+
+  /** ICE credentials use exactly the base64 alphabet, so they pack at six bits a character. */
+  iceString(s: string) {
+    if (s.length > 255 || [...s].some((ch) => !ICE_CHARS.includes(ch))) throw new Error('Invalid ICE credential.');
+    this.u8(s.length);
+    let acc = 0;
+    let bits = 0;
+    for (const ch of s) {
+      acc = (acc << 6) | ICE_CHARS.indexOf(ch);
+      bits += 6;
+      while (bits >= 8) {
+        bits -= 8;
+        this.u8(acc >> bits);
+      }
+      acc &= (1 << bits) - 1;
+    }
+    if (bits) this.u8(acc << (8 - bits));
+  }
+
+  address(address: string) {
+    const v4 = parseIpv4(address);
+    const v6 = v4 ? null : parseIpv6(address);
+    const mdns = /^([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})\.local$/i.exec(address);
+    if (v4) {
+      this.u8(ADDR_IPV4);
+      this.bytes(v4);
+    } else if (v6) {
+      this.u8(ADDR_IPV6);
+      this.bytes(v6);
+    } else if (mdns) {
+      this.u8(ADDR_MDNS);
+      this.bytes(hexBytes(mdns.slice(1).join('')));
+    } else {
+      this.u8(ADDR_NAME);
+      this.text(address);
+    }
+  }
+
+  finish(): Uint8Array {
+    return Uint8Array.from(this.out);
+  }
+}
+
+class ByteReader {
+  private at = 0;
+  private readonly input: Uint8Array;
+
+  constructor(input: Uint8Array) {
+    this.input = input;
+  }
+
+  u8(): number {
+    if (this.at >= this.input.length) throw new Error('truncated');
+    return this.input[this.at++];
+  }
+
+  u16(): number {
+    return (this.u8() << 8) | this.u8();
+  }
+
+  u32(): number {
+    return ((this.u16() << 16) | this.u16()) >>> 0;
+  }
+
+  bytes(n: number): Uint8Array {
+    if (this.at + n > this.input.length) throw new Error('truncated');
+    const out = this.input.slice(this.at, this.at + n);
+    this.at += n;
+    return out;
+  }
+
+  text(): string {
+    return new TextDecoder().decode(this.bytes(this.u8()));
+  }
+
+  iceString(): string {
+    const length = this.u8();
+    const packed = this.bytes(Math.ceil((length * 6) / 8));
+    let acc = 0;
+    let bits = 0;
+    let out = '';
+    for (const byte of packed) {
+      acc = (acc << 8) | byte;
+      bits += 8;
+      while (bits >= 6 && out.length < length) {
+        bits -= 6;
+        out += ICE_CHARS[(acc >> bits) & 0x3f];
+      }
+      acc &= (1 << bits) - 1;
+    }
+    return out;
+  }
+
+  address(): string {
+    const kind = this.u8();
+    if (kind === ADDR_IPV4) return Array.from(this.bytes(4)).join('.');
+    if (kind === ADDR_IPV6) {
+      const b = this.bytes(16);
+      const groups: string[] = [];
+      for (let i = 0; i < 16; i += 2) groups.push(((b[i] << 8) | b[i + 1]).toString(16));
+      return groups.join(':');
+    }
+    if (kind === ADDR_MDNS) {
+      const hex = Array.from(this.bytes(16), (b) => b.toString(16).padStart(2, '0')).join('');
+      return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}.local`;
+    }
+    if (kind === ADDR_NAME) return this.text();
+    throw new Error('bad address');
+  }
+
+  end() {
+    if (this.at !== this.input.length) throw new Error('trailing bytes');
+  }
+}
+
+function parseIpv4(address: string): Uint8Array | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some((p) => !/^\d{1,3}$/.test(p) || Number(p) > 255)) return null;
+  return Uint8Array.from(parts, Number);
+}
+
+function parseIpv6(address: string): Uint8Array | null {
+  if (!/^[0-9a-f:]+$/i.test(address) || address.split('::').length > 2) return null;
+  const [head, tail] = address.split('::');
+  const left = head ? head.split(':') : [];
+  const right = tail ? tail.split(':') : [];
+  const missing = 8 - left.length - right.length;
+  if (tail === undefined ? missing !== 0 : missing < 1) return null;
+  const groups = [...left, ...Array<string>(tail === undefined ? 0 : missing).fill('0'), ...right];
+  if (groups.some((g) => !/^[0-9a-f]{1,4}$/i.test(g))) return null;
+  return Uint8Array.from(groups.flatMap((g) => [parseInt(g, 16) >> 8, parseInt(g, 16) & 0xff]));
+}
+
+function hexBytes(hex: string): Uint8Array {
+  return Uint8Array.from(hex.match(/../g)!, (b) => parseInt(b, 16));
+}
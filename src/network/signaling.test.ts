@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createRoomCode, normalizeRoomCode, openSignalingRoom } from './signaling';
+
+class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static instances: FakeWebSocket[] = [];
+  readyState = FakeWebSocket.CONNECTING;
+  sent: unknown[] = [];
+  onopen: (() => void) | null = null;
+  onmessage: ((ev: { data: string }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+
+  url: string;
+
+  constructor(url: string) {
+    this.url = url;
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(frame: string) {
+    this.sent.push(JSON.parse(frame));
+  }
+
+  close() {
+    this.readyState = 3;
+    this.onclose?.();
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(msg: unknown) {
+    this.onmessage?.({ data: JSON.stringify(msg) });
+  }
+}
+
+describe('room codes', () => {
+  it('creates readable codes without look-alike characters', () => {
+    const code = createRoomCode();
+    expect(code).toMatch(/^[2-9A-HJKMNP-Z]{4}-[2-9A-HJKMNP-Z]{4}$/);
+    expect(normalizeRoomCode(code)).toBe(code);
+  });
+
+  it('normalizes typed codes', () => {
+    expect(normalizeRoomCode(' k7qm x2pd ')).toBe('K7QM-X2PD');
+    expect(normalizeRoomCode('ab')).toBeNull();
+    expect(normalizeRoomCode('no/slashes')).toBeNull();
+  });
+});
+
+describe('openSignalingRoom', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('joins the room and queues signals until the socket opens', () => {
+    const room = openSignalingRoom('ws://relay', 'K7QM-X2PD', 'host', { onSignal: vi.fn() });
+    room.send({ kind: 'candidate' });
+    const ws = FakeWebSocket.instances[0];
+    expect(ws.sent).toEqual([]);
+
+    ws.open();
+    expect(ws.sent).toEqual([
+      { type: 'join', room: 'K7QM-X2PD', role: 'host' },
+      { type: 'signal', data: { kind: 'candidate' } }
+    ]);
+  });
+
+  it('dispatches relay messages', () => {
+    const events = {
+      onSignal: vi.fn(),
+      onJoined: vi.fn(),
+      onPeerJoined: vi.fn(),
+      onPeerLeft: vi.fn(),
+      onError: vi.fn(),
+      onClose: vi.fn()
+    };
+    const room = openSignalingRoom('ws://relay', 'ROOM', 'client', events);
+    const ws = FakeWebSocket.instances[0];
+    ws.open();
+
+    ws.receive({ type: 'joined', room: 'ROOM', peerPresent: true });
+    ws.receive({ type: 'peer-joined' });
+    ws.receive({ type: 'signal', data: { kind: 'description' } });
+    ws.receive({ type: 'peer-left' });
+    ws.receive({ type: 'error', reason: 'role_taken' });
+
+    expect(events.onJoined).toHaveBeenCalledWith(true);
+    expect(events.onPeerJoined).toHaveBeenCalledTimes(1);
+    expect(events.onSignal).toHaveBeenCalledWith({ kind: 'description' });
+    expect(events.onPeerLeft).toHaveBeenCalledTimes(1);
+    expect(events.onError.mock.calls[0][0].message).toMatch(/already has that role/);
+
+    // Only an unexpected close is reported.
+    room.close();
+    expect(events.onClose).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Client side of the WebSocket signaling relay (`scripts/signaling-server.js`). Both peers
+ * join a short room code and the relay forwards offers, answers and ICE candidates between
+ * them, so nobody has to copy codes or scan QRs.
+ */
+
+// No 0/O, 1/I/L: the code is meant to be read aloud or typed from another screen.
+const ROOM_ALPHABET = '23456789ABCDEFGHJKMNPQRSTUVWXYZ';
+const ROOM_PATTERN = /^[A-Z0-9-]{4,32}$/;
+
+/** A code like `K7QM-X2PD`. */
+export function createRoomCode(random: () => number = Math.random): string {
+  let code = '';
+  for (let i = 0; i < 8; i += 1) {
+    if (i === 4) code += '-';
+    code += ROOM_ALPHABET[Math.floor(random() * ROOM_ALPHABET.length)];
+  }
+  return code;
+}
+
+/** Room code as typed by a person (any case, stray spaces), or null if it can't be one. */
+export function normalizeRoomCode(text: string): string | null {
+  const code = text.trim().toUpperCase().replace(/\s+/g, '-');
+  return ROOM_PATTERN.test(code) ? code : null;
+}
+
+export interface SignalingEvents {
+  onSignal: (data: unknown) => void;
+  /** Joined the room; `peerPresent` if the other side was already waiting. */
+  onJoined?: (peerPresent: boolean) => void;
+  onPeerJoined?: () => void;
+  onPeerLeft?: () => void;
+  onError?: (err: unknown) => void;
+  /** The relay connection closed without `close()` being called. */
+  onClose?: () => void;
+}
+
+export interface SignalingRoom {
+  send: (data: unknown) => void;
+  close: () => void;
+}
+
+type RelayMessage =
+  | { type: 'joined'; room: string; peerPresent: boolean }
+  | { type: 'peer-joined' }
+  | { type: 'peer-left' }
+  | { type: 'signal'; data: unknown }
+  | { type: 'error'; reason: string };
+
+const RELAY_ERRORS: Record<string, string> = {
+  role_taken: 'Someone in this room already has that role.',
+  bad_request: 'The relay rejected the request.'
+};
+
+export function openSignalingRoom(
+  url: string,
+  room: string,
+  role: 'host' | 'client',
+  events: SignalingEvents
+): SignalingRoom {
+  const ws = new WebSocket(url);
+  const queue: string[] = [];
+  let closing = false;
+
+  ws.onopen = () => {
+    ws.send(JSON.stringify({ type: 'join', room, role }));
+    queue.splice(0).forEach((frame) => ws.send(frame));
+  };
+  ws.onmessage = (ev: MessageEvent) => {
+    let msg: RelayMessage;
+    try {
+      msg = JSON.parse(String(ev.data)) as RelayMessage;
+    } catch (err) {
+      events.onError?.(err);
+      return;
+    }
+    if (msg.type === 'joined') events.onJoined?.(msg.peerPresent);
+    else if (msg.type === 'peer-joined') events.onPeerJoined?.();
+    else if (msg.type === 'peer-left') events.onPeerLeft?.();
+    else if (msg.type === 'signal') events.onSignal(msg.data);
+    else if (msg.type === 'error') events.onError?.(new Error(RELAY_ERRORS[msg.reason] ?? msg.reason));
+  };
+  ws.onerror = () => events.onError?.(new Error(`Could not reach the signaling relay at ${url}`));
+  ws.onclose = () => {
+    if (!closing) events.onClose?.();
+  };
+
+  return {
+    send: (data: unknown) => {
+      const frame = JSON.stringify({ type: 'signal', data });
+      if (ws.readyState === WebSocket.OPEN) ws.send(frame);
+      else if (ws.readyState === WebSocket.CONNECTING) queue.push(frame);
+    },
+    close: () => {
+      closing = true;
+      ws.close();
+    }
+  };
+}
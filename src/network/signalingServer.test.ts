@@ -0,0 +1,90 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { AddressInfo } from 'net';
+import { WebSocket, type WebSocketServer } from 'ws';
+import { startSignalingServer } from '../../scripts/signaling-server.js';
+
+type Frame = { type: string; [key: string]: unknown };
+
+/** A test socket that collects every frame the relay sends it. */
+async function connect(url: string) {
+  const ws = new WebSocket(url);
+  const frames: Frame[] = [];
+  ws.on('message', (raw) => frames.push(JSON.parse(raw.toString())));
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve);
+    ws.once('error', reject);
+  });
+  const next = async (type: string) => {
+    await expect.poll(() => frames.some((f) => f.type === type)).toBe(true);
+    return frames.find((f) => f.type === type)!;
+  };
+  return { ws, frames, next, send: (msg: unknown) => ws.send(JSON.stringify(msg)) };
+}
+
+describe('signaling relay server', () => {
+  let server: WebSocketServer;
+  let url: string;
+  const sockets: WebSocket[] = [];
+  const join = async (room: string, role: 'host' | 'client') => {
+    const peer = await connect(url);
+    sockets.push(peer.ws);
+    peer.send({ type: 'join', room, role });
+    return peer;
+  };
+
+  beforeEach(async () => {
+    server = startSignalingServer({ port: 0, host: '127.0.0.1' });
+    await new Promise((resolve) => server.once('listening', resolve));
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    sockets.splice(0).forEach((ws) => ws.terminate());
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  it('pairs a host and a client and forwards signals between them', async () => {
+    const host = await join('K7QM-X2PD', 'host');
+    expect(await host.next('joined')).toEqual({ type: 'joined', room: 'K7QM-X2PD', peerPresent: false });
+
+    const client = await join('k7qm-x2pd', 'client');
+    expect((await client.next('joined')).peerPresent).toBe(true);
+    await host.next('peer-joined');
+
+    host.send({ type: 'signal', data: { kind: 'description' } });
+    expect(await client.next('signal')).toEqual({ type: 'signal', data: { kind: 'description' } });
+  });
+
+  it('turns away a second socket asking for a taken role', async () => {
+    const first = await join('ROOM', 'host');
+    await first.next('joined');
+
+    const second = await join('ROOM', 'host');
+    expect(await second.next('error')).toEqual({ type: 'error', reason: 'role_taken' });
+    expect(second.frames.some((f) => f.type === 'joined')).toBe(false);
+  });
+
+  it('tells the remaining peer when the other leaves and frees the room once empty', async () => {
+    const host = await join('ROOM', 'host');
+    const client = await join('ROOM', 'client');
+    await host.next('peer-joined');
+
+    client.ws.close();
+    await host.next('peer-left');
+
+    // The client role is free again while the host waits.
+    const rejoined = await join('ROOM', 'client');
+    expect((await rejoined.next('joined')).peerPresent).toBe(true);
+
+    host.ws.close();
+    await rejoined.next('peer-left');
+    rejoined.ws.close();
+    await expect.poll(() => server.clients.size).toBe(0);
+
+    // Both roles are free again, so the room starts over.
+    const fresh = await join('ROOM', 'host');
+    expect((await fresh.next('joined')).peerPresent).toBe(false);
+    const freshClient = await join('ROOM', 'client');
+    expect((await freshClient.next('joined')).peerPresent).toBe(true);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * A message link between the host and one client. WebRTC (`p2p.ts`) is one implementation,
+ * `BroadcastChannel` between tabs of the same browser (`broadcast.ts`) is another; the game
+ * protocol in `main.ts` only ever sees this interface.
+ */
+export interface Transport {
+  kind: TransportKind;
+  role: 'host' | 'client';
+  /** Sends a JSON-serializable message; dropped silently while the link isn't open. */
+  send: (data: unknown) => void;
+  close: () => void;
+  /**
+   * Tries to restore a dropped link in place (WebRTC: ICE restart with backoff). Resolves
+   * false when the caller has to fall back to a fresh handshake. Absent when unsupported.
+   */
+  recover?: () => Promise<boolean>;
+  readonly ready: boolean;
+}
+
+export type TransportKind = 'webrtc' | 'broadcast';
+
+/** Mirrors `RTCPeerConnectionState` so WebRTC can report its own states unchanged. */
+export type TransportState = 'new' | 'connecting' | 'connected' | 'disconnected' | 'failed' | 'closed';
+
+export interface TransportCallbacks {
+  onMessage: (data: unknown) => void;
+  onOpen?: () => void;
+  onClose?: () => void;
+  onError?: (err: unknown) => void;
+  onLog?: (msg: string) => void;
+  onConnectionStateChange?: (state: TransportState) => void;
+}
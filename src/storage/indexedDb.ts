@@ -1,6 +1,12 @@
+import type { DawgData } from '../core/dawg';
+import type { WordOverlay } from '../dictionary/overlays';
+
 const DB_NAME = 'scrabble-pwa';
-const DB_VERSION = 2; // Incremented to support new dictionary schema
+const DB_VERSION = 4; // 3: packed word graphs, with entry metadata in its own store; 4: house-rule word lists
 const DICT_STORE = 'dictionaries';
+const DAWG_STORE = 'dawgs';
+const ENTRY_STORE = 'dictionaryEntries';
+const OVERLAY_STORE = 'wordOverlays';
 const SNAPSHOT_STORE = 'snapshots';
 
 export interface DictionaryEntry {
@@ -24,24 +30,22 @@ function openDb(): Promise<IDBDatabase> {
       if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
         db.createObjectStore(SNAPSHOT_STORE);
       }
+      if (!db.objectStoreNames.contains(DAWG_STORE)) {
+        db.createObjectStore(DAWG_STORE);
+      }
+      if (!db.objectStoreNames.contains(ENTRY_STORE)) {
+        db.createObjectStore(ENTRY_STORE);
+      }
+      if (!db.objectStoreNames.contains(OVERLAY_STORE)) {
+        db.createObjectStore(OVERLAY_STORE, { keyPath: 'id' });
+      }
     };
     request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 }
 
-export async function saveDictionary(language: string, data: DictionaryData) {
-  const db = await openDb();
-  return new Promise<void>((resolve, reject) => {
-    const tx = db.transaction(DICT_STORE, 'readwrite');
-    // Store as JSON string for structured data, or plain string for legacy format
-    const value = typeof data === 'string' ? data : JSON.stringify(data);
-    tx.objectStore(DICT_STORE).put(value, language);
-    tx.oncomplete = () => resolve();
-    tx.onerror = () => reject(tx.error);
-  });
-}
-
+/** A dictionary saved before the DAWG format; read only to convert it. */
 export async function loadDictionary(language: string): Promise<DictionaryData | null> {
   const db = await openDb();
   return new Promise((resolve, reject) => {
@@ -73,6 +77,94 @@ export async function loadDictionary(language: string): Promise<DictionaryData |
   });
 }
 
+/** Drops a dictionary kept in the pre-DAWG format once it has been converted. */
+export async function deleteDictionary(language: string) {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(DICT_STORE, 'readwrite');
+    tx.objectStore(DICT_STORE).delete(language);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function saveDawg(key: string, data: DawgData) {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(DAWG_STORE, 'readwrite');
+    // Stored as a structured clone: the edge array goes in as raw bytes, with no JSON step.
+    tx.objectStore(DAWG_STORE).put(data, key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function loadDawg(key: string): Promise<DawgData | null> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(DAWG_STORE, 'readonly');
+    const req = tx.objectStore(DAWG_STORE).get(key);
+    req.onsuccess = () => {
+      const result = req.result as DawgData | undefined;
+      resolve(result && result.version === 1 ? result : null);
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+/** Part of speech, plurals and forms, kept apart from the word graph and read only when asked for. */
+export async function saveDictionaryEntries(key: string, entries: DictionaryEntry[]) {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(ENTRY_STORE, 'readwrite');
+    tx.objectStore(ENTRY_STORE).put(JSON.stringify(entries), key);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function loadDictionaryEntries(key: string): Promise<DictionaryEntry[] | null> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(ENTRY_STORE, 'readonly');
+    const req = tx.objectStore(ENTRY_STORE).get(key);
+    req.onsuccess = () => {
+      resolve(req.result ? (JSON.parse(req.result as string) as DictionaryEntry[]) : null);
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function listWordOverlays(): Promise<WordOverlay[]> {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(OVERLAY_STORE, 'readonly');
+    const req = tx.objectStore(OVERLAY_STORE).getAll();
+    req.onsuccess = () => resolve(req.result as WordOverlay[]);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+export async function saveWordOverlay(overlay: WordOverlay) {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(OVERLAY_STORE, 'readwrite');
+    tx.objectStore(OVERLAY_STORE).put(overlay);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
+export async function deleteWordOverlay(id: string) {
+  const db = await openDb();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(OVERLAY_STORE, 'readwrite');
+    tx.objectStore(OVERLAY_STORE).delete(id);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+}
+
 export async function saveSnapshot(key: string, data: unknown) {
   const db = await openDb();
   return new Promise<void>((resolve, reject) => {
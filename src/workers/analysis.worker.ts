@@ -0,0 +1,59 @@
+import type { GameState, Language } from '../core/types';
+import { analyzeGame, type GameAnalysis } from '../core/analysis';
+import type { WordOverlay } from '../dictionary/overlays';
+import { loadLexicon, type RussianVariant } from './lexiconCache';
+
+type AnalysisRequest = {
+  type: 'ANALYSIS_REQUEST';
+  requestId: string;
+  state: GameState;
+  language: Language;
+  russianVariant?: RussianVariant;
+  /** House-rule word lists in force for the session. */
+  overlays?: WordOverlay[];
+  minLength: number;
+};
+
+export type AnalysisResponse =
+  | {
+    type: 'ANALYSIS_RESPONSE';
+    requestId: string;
+    analysis: GameAnalysis;
+  }
+  | {
+    type: 'ANALYSIS_RESPONSE';
+    requestId: string;
+    analysis: null;
+    reason: 'dictionary_unavailable' | 'error';
+    error?: string;
+  };
+
+async function runAnalysis(req: AnalysisRequest): Promise<AnalysisResponse> {
+  try {
+    const lexicon = await loadLexicon(req.language, req.russianVariant, req.minLength, req.overlays);
+    if (!lexicon) {
+      return { type: 'ANALYSIS_RESPONSE', requestId: req.requestId, analysis: null, reason: 'dictionary_unavailable' };
+    }
+    const analysis = analyzeGame(req.state, lexicon, { minLength: req.minLength });
+    return { type: 'ANALYSIS_RESPONSE', requestId: req.requestId, analysis };
+  } catch (err) {
+    return {
+      type: 'ANALYSIS_RESPONSE',
+      requestId: req.requestId,
+      analysis: null,
+      reason: 'error',
+      error: err instanceof Error ? err.message : String(err)
+    };
+  }
+}
+
+// Allow importing this module in tests (Node) without a global `self`.
+if (typeof self !== 'undefined' && typeof (self as unknown as Worker).addEventListener === 'function') {
+  self.addEventListener('message', (ev: MessageEvent) => {
+    const data = ev.data as AnalysisRequest;
+    if (!data || data.type !== 'ANALYSIS_REQUEST') return;
+    void runAnalysis(data).then((res) => {
+      (self as unknown as Worker).postMessage(res);
+    });
+  });
+}
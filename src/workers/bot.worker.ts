@@ -0,0 +1,81 @@
+import type { GameState, Language } from '../core/types';
+import { chooseBotAction, type BotAction, type BotDifficulty } from '../core/bot';
+import { generateMoves } from '../core/moveGenerator';
+import type { WordOverlay } from '../dictionary/overlays';
+import { loadLexicon, type RussianVariant } from './lexiconCache';
+
+type BotMoveRequest = {
+  type: 'BOT_MOVE_REQUEST';
+  requestId: string;
+  state: GameState;
+  playerId: string;
+  difficulty: BotDifficulty;
+  language: Language;
+  russianVariant?: RussianVariant;
+  /** House-rule word lists in force for the session. */
+  overlays?: WordOverlay[];
+  minLength: number;
+};
+
+export type BotMoveResponse =
+  | {
+    type: 'BOT_MOVE_RESPONSE';
+    requestId: string;
+    action: BotAction;
+    candidates: number;
+    reason?: 'dictionary_unavailable';
+  }
+  | {
+    type: 'BOT_MOVE_RESPONSE';
+    requestId: string;
+    action: BotAction;
+    candidates: 0;
+    reason: 'error';
+    error: string;
+  };
+
+async function runBotTurn(req: BotMoveRequest): Promise<BotMoveResponse> {
+  try {
+    const lexicon = await loadLexicon(req.language, req.russianVariant, req.minLength, req.overlays);
+    if (!lexicon) {
+      // Without a dictionary the bot cannot know what is legal; passing is the only safe action.
+      return {
+        type: 'BOT_MOVE_RESPONSE',
+        requestId: req.requestId,
+        action: { type: 'pass' },
+        candidates: 0,
+        reason: 'dictionary_unavailable'
+      };
+    }
+
+    const moves = generateMoves(req.state, req.playerId, lexicon, { minLength: req.minLength });
+    const action = chooseBotAction({
+      moves,
+      rack: req.state.racks[req.playerId] ?? [],
+      bagCount: req.state.bag.length,
+      difficulty: req.difficulty,
+      language: req.language
+    });
+    return { type: 'BOT_MOVE_RESPONSE', requestId: req.requestId, action, candidates: moves.length };
+  } catch (err) {
+    return {
+      type: 'BOT_MOVE_RESPONSE',
+      requestId: req.requestId,
+      action: { type: 'pass' },
+      candidates: 0,
+      reason: 'error',
+      error: err instanceof Error ? err.message : String(err)
+    };
+  }
+}
+
+// Allow importing this module in tests (Node) without a global `self`.
+if (typeof self !== 'undefined' && typeof (self as unknown as Worker).addEventListener === 'function') {
+  self.addEventListener('message', (ev: MessageEvent) => {
+    const data = ev.data as BotMoveRequest;
+    if (!data || data.type !== 'BOT_MOVE_REQUEST') return;
+    void runBotTurn(data).then((res) => {
+      (self as unknown as Worker).postMessage(res);
+    });
+  });
+}
@@ -48,10 +48,11 @@ describe('endgameScan (trie backtracking)', () => {
     const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
     const letterToIndex = __testing.buildLetterToIndex(alphabet);
     const root = __testing.buildTrie(words, letterToIndex);
-    const cross = __testing.computeCrossMasks(state.board, alphabet, letterToIndex, words, 2);
+    const cross = __testing.computeCrossMasks(state.board, alphabet, words, 2);
 
     const anchors = [{ x: 7, y: 7 }];
-    const hasAny = __testing.hasAnyValidMoveFast(state, 'p1', anchors, root, letterToIndex, cross, alphabet.length, 2);
+    const lexicon = { alphabet: [...alphabet], letterToIndex, root, words };
+    const hasAny = __testing.hasAnyMove(state, 'p1', lexicon, { minLength: 2, crossMasks: cross, anchors });
     expect(hasAny).toBe(true);
   });
 
@@ -64,10 +65,11 @@ describe('endgameScan (trie backtracking)', () => {
     const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
     const letterToIndex = __testing.buildLetterToIndex(alphabet);
     const root = __testing.buildTrie(words, letterToIndex);
-    const cross = __testing.computeCrossMasks(state.board, alphabet, letterToIndex, words, 2);
+    const cross = __testing.computeCrossMasks(state.board, alphabet, words, 2);
 
     const anchors = [{ x: 7, y: 7 }];
-    const hasAny = __testing.hasAnyValidMoveFast(state, 'p1', anchors, root, letterToIndex, cross, alphabet.length, 2);
+    const lexicon = { alphabet: [...alphabet], letterToIndex, root, words };
+    const hasAny = __testing.hasAnyMove(state, 'p1', lexicon, { minLength: 2, crossMasks: cross, anchors });
     expect(hasAny).toBe(false);
   });
 
@@ -82,11 +84,12 @@ describe('endgameScan (trie backtracking)', () => {
     const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
     const letterToIndex = __testing.buildLetterToIndex(alphabet);
     const root = __testing.buildTrie(words, letterToIndex);
-    const cross = __testing.computeCrossMasks(state.board, alphabet, letterToIndex, words, 2);
+    const cross = __testing.computeCrossMasks(state.board, alphabet, words, 2);
 
     // Anchor is the empty cell right of H.
     const anchors = [{ x: 8, y: 7 }];
-    const hasAny = __testing.hasAnyValidMoveFast(state, 'p1', anchors, root, letterToIndex, cross, alphabet.length, 2);
+    const lexicon = { alphabet: [...alphabet], letterToIndex, root, words };
+    const hasAny = __testing.hasAnyMove(state, 'p1', lexicon, { minLength: 2, crossMasks: cross, anchors });
     expect(hasAny).toBe(true);
   });
 
@@ -107,10 +110,11 @@ describe('endgameScan (trie backtracking)', () => {
     const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
     const letterToIndex = __testing.buildLetterToIndex(alphabet);
     const root = __testing.buildTrie(words, letterToIndex);
-    const cross = __testing.computeCrossMasks(state.board, alphabet, letterToIndex, words, 2);
+    const cross = __testing.computeCrossMasks(state.board, alphabet, words, 2);
 
     const anchors = [{ x: 7, y: 7 }];
-    const hasAny = __testing.hasAnyValidMoveFast(state, 'p1', anchors, root, letterToIndex, cross, alphabet.length, 2);
+    const lexicon = { alphabet: [...alphabet], letterToIndex, root, words };
+    const hasAny = __testing.hasAnyMove(state, 'p1', lexicon, { minLength: 2, crossMasks: cross, anchors });
     expect(hasAny).toBe(false);
   });
 
@@ -126,10 +130,11 @@ describe('endgameScan (trie backtracking)', () => {
     const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
     const letterToIndex = __testing.buildLetterToIndex(alphabet);
     const root = __testing.buildTrie(words, letterToIndex);
-    const cross = __testing.computeCrossMasks(state.board, alphabet, letterToIndex, words, 2);
+    const cross = __testing.computeCrossMasks(state.board, alphabet, words, 2);
 
     const anchors = [{ x: 8, y: 7 }];
-    const hasAny = __testing.hasAnyValidMoveFast(state, 'p1', anchors, root, letterToIndex, cross, alphabet.length, 2);
+    const lexicon = { alphabet: [...alphabet], letterToIndex, root, words };
+    const hasAny = __testing.hasAnyMove(state, 'p1', lexicon, { minLength: 2, crossMasks: cross, anchors });
     expect(hasAny).toBe(true);
   });
 });
@@ -1,5 +1,18 @@
-import type { GameState, Language } from '../core/types';
+import type { GameState, Language, WordSet } from '../core/types';
+import { layoutFor } from '../core/boardLayout';
+import {
+  alphabetFor as alphabetForLanguage,
+  buildLetterToIndex,
+  buildTrie,
+  computeAnchors,
+  computeCrossMasks,
+  hasAnyMove,
+  overlayTrie,
+  trieFor,
+  type TrieNode
+} from '../core/moveGenerator';
 import { getDictionaryWordSet, setMinWordLength, type DictionaryKey } from '../dictionary/dictionaryService';
+import { overlayRef, withOverlays, type WordOverlay } from '../dictionary/overlays';
 
 type RussianVariant = 'full' | 'strict' | undefined;
 
@@ -9,6 +22,8 @@ type EndgameScanRequest = {
   state: GameState;
   language: Language;
   russianVariant?: RussianVariant;
+  /** House-rule word lists in force for the session. */
+  overlays?: WordOverlay[];
   minLength: number;
   /**
    * When true, includes additional debug/timing information in the response.
@@ -49,479 +64,20 @@ type EndgameScanResponse =
     debug?: EndgameScanDebug;
   };
 
-const BOARD_SIZE = 15;
-
-function inBounds(v: number) {
-  return v >= 0 && v < BOARD_SIZE;
-}
-
-function boardHasAnyTiles(board: GameState['board']): boolean {
-  return board.some((row) => row.some((cell) => cell.tile !== null));
-}
-
-type Anchor = { x: number; y: number };
-
-function computeAnchors(board: GameState['board']): Anchor[] {
-  if (!boardHasAnyTiles(board)) return [{ x: 7, y: 7 }];
-
-  const anchors: Anchor[] = [];
-  const seen = new Set<string>();
-  for (let y = 0; y < BOARD_SIZE; y += 1) {
-    for (let x = 0; x < BOARD_SIZE; x += 1) {
-      if (board[y][x].tile) continue;
-      const touches =
-        (inBounds(x + 1) && board[y][x + 1].tile) ||
-        (inBounds(x - 1) && board[y][x - 1].tile) ||
-        (inBounds(y + 1) && board[y + 1][x].tile) ||
-        (inBounds(y - 1) && board[y - 1][x].tile);
-      if (!touches) continue;
-      const key = `${x},${y}`;
-      if (seen.has(key)) continue;
-      seen.add(key);
-      anchors.push({ x, y });
-    }
-  }
-  return anchors;
-}
-
-type Orientation = 'row' | 'col';
-
-const EN_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
-const RU_ALPHABET = 'АБВГДЕЁЖЗИЙКЛМНОПРСТУФХЦЧШЩЪЫЬЭЮЯ';
-
-function alphabetFor(language: DictionaryKey): string {
-  return language === 'en' ? EN_ALPHABET : RU_ALPHABET;
-}
-
-function buildLetterToIndex(alphabet: string): Map<string, number> {
-  const map = new Map<string, number>();
-  for (let i = 0; i < alphabet.length; i += 1) {
-    map.set(alphabet[i], i);
-  }
-  return map;
-}
-
-function bitForIndex(i: number): bigint {
-  return 1n << BigInt(i);
-}
-
-function allLettersMask(alphabetLen: number): bigint {
-  // (1<<n)-1, but in BigInt.
-  return (1n << BigInt(alphabetLen)) - 1n;
-}
-
-type TrieNode = {
-  children: Map<number, TrieNode>;
-  end: boolean;
-};
-
-function newTrieNode(): TrieNode {
-  return { children: new Map<number, TrieNode>(), end: false };
-}
-
-function buildTrie(wordSet: Iterable<string>, letterToIndex: Map<string, number>): TrieNode {
-  const root = newTrieNode();
-
-  outer: for (const raw of wordSet) {
-    const w = raw.trim().toUpperCase();
-    if (!w) continue;
-    // Words longer than 15 cannot be placed on the board; skipping reduces trie size.
-    if (w.length > BOARD_SIZE) continue;
-
-    let node = root;
-    for (let i = 0; i < w.length; i += 1) {
-      const idx = letterToIndex.get(w[i]);
-      if (idx === undefined) continue outer;
-      const next = node.children.get(idx) ?? newTrieNode();
-      node.children.set(idx, next);
-      node = next;
-    }
-    node.end = true;
-  }
-
-  return root;
-}
-
-type CrossMasks = {
-  // Masks for placing a tile at [y][x] when primary direction is row/col.
-  row: bigint[][];
-  col: bigint[][];
-};
-
-function computeCrossMasks(
-  board: GameState['board'],
-  alphabet: string,
-  letterToIndex: Map<string, number>,
-  wordSet: Set<string>,
-  minLength: number
-): CrossMasks {
-  const alphaLen = alphabet.length;
-  const all = allLettersMask(alphaLen);
-
-  const row: bigint[][] = Array.from({ length: BOARD_SIZE }, () => Array.from({ length: BOARD_SIZE }, () => 0n));
-  const col: bigint[][] = Array.from({ length: BOARD_SIZE }, () => Array.from({ length: BOARD_SIZE }, () => 0n));
-
-  const computeMaskAt = (x: number, y: number, primary: Orientation): bigint => {
-    if (board[y][x].tile) return 0n;
-
-    // primary=row => cross is vertical; primary=col => cross is horizontal.
-    const dx = primary === 'row' ? 0 : 1;
-    const dy = primary === 'row' ? 1 : 0;
-
-    const up: string[] = [];
-    let cx = x - dx;
-    let cy = y - dy;
-    while (inBounds(cx) && inBounds(cy) && board[cy][cx].tile) {
-      up.push(board[cy][cx].tile!.letter);
-      cx -= dx;
-      cy -= dy;
-    }
-    up.reverse();
-
-    const down: string[] = [];
-    cx = x + dx;
-    cy = y + dy;
-    while (inBounds(cx) && inBounds(cy) && board[cy][cx].tile) {
-      down.push(board[cy][cx].tile!.letter);
-      cx += dx;
-      cy += dy;
-    }
-
-    // No perpendicular neighbors => cross-word is length 1 and is not validated (same as collectFormedWords()).
-    if (up.length === 0 && down.length === 0) return all;
-
-    const prefix = up.join('');
-    const suffix = down.join('');
-    const totalLen = prefix.length + 1 + suffix.length;
-    if (totalLen < minLength) return 0n;
-
-    let mask = 0n;
-    for (let i = 0; i < alphaLen; i += 1) {
-      const letter = alphabet[i];
-      const cross = `${prefix}${letter}${suffix}`;
-      if (wordSet.has(cross)) mask |= bitForIndex(i);
-    }
-    return mask;
-  };
-
-  for (let y = 0; y < BOARD_SIZE; y += 1) {
-    for (let x = 0; x < BOARD_SIZE; x += 1) {
-      if (board[y][x].tile) continue;
-      row[y][x] = computeMaskAt(x, y, 'row');
-      col[y][x] = computeMaskAt(x, y, 'col');
-    }
-  }
-
-  // Ensure masks are never referencing unknown letters: `letterToIndex` is used only to build trie/rack.
-  // Cross masks are based on `alphabet` indices, so they are consistent by construction.
-  void letterToIndex;
-  return { row, col };
-}
-
-function rackCountsForPlayer(
-  state: GameState,
-  playerId: string,
-  letterToIndex: Map<string, number>,
-  alphabetLen: number
-): { counts: Uint8Array; blanks: number } {
-  const rack = state.racks[playerId] ?? [];
-  const counts = new Uint8Array(alphabetLen);
-  let blanks = 0;
-  for (const t of rack) {
-    if (t.blank) blanks += 1;
-    if (t.blank) continue;
-    const idx = letterToIndex.get(t.letter);
-    if (idx === undefined) continue;
-    counts[idx] += 1;
-  }
-  return { counts, blanks };
-}
-
-function fixedPrefixBeforeAnchor(
-  board: GameState['board'],
-  anchor: Anchor,
-  orientation: Orientation,
-  letterToIndex: Map<string, number>
-): { startX: number; startY: number; letters: number[] } | null {
-  const letters: number[] = [];
-  if (orientation === 'row') {
-    let x = anchor.x - 1;
-    const y = anchor.y;
-    while (inBounds(x) && board[y][x].tile) {
-      const idx = letterToIndex.get(board[y][x].tile!.letter);
-      if (idx === undefined) return null;
-      letters.push(idx);
-      x -= 1;
-    }
-    letters.reverse();
-    return { startX: x + 1, startY: y, letters };
-  }
-
-  // col
-  const x = anchor.x;
-  let y = anchor.y - 1;
-  while (inBounds(y) && board[y][x].tile) {
-    const idx = letterToIndex.get(board[y][x].tile!.letter);
-    if (idx === undefined) return null;
-    letters.push(idx);
-    y -= 1;
-  }
-  letters.reverse();
-  return { startX: x, startY: y + 1, letters };
-}
-
-function traverseFixedPrefix(root: TrieNode, fixed: number[]): TrieNode | null {
-  let node: TrieNode = root;
-  for (const idx of fixed) {
-    const nextNode = node.children.get(idx);
-    if (!nextNode) return null;
-    node = nextNode;
-  }
-  return node;
-}
-
-function hasAnyMoveRow(
-  state: GameState,
-  playerId: string,
-  anchors: Anchor[],
-  root: TrieNode,
-  letterToIndex: Map<string, number>,
-  crossMasksRow: bigint[][],
-  alphabetLen: number,
-  minLength: number
-): boolean {
-  const rack = state.racks[playerId] ?? [];
-  if (rack.length === 0) return false;
-
-  const { counts, blanks: initialBlanks } = rackCountsForPlayer(state, playerId, letterToIndex, alphabetLen);
-  const board = state.board;
-
-  const extendRight = (
-    x: number,
-    y: number,
-    node: TrieNode,
-    wordLen: number,
-    blanks: number,
-    usedRack: boolean,
-    anchorX: number
-  ): boolean => {
-    if (x >= BOARD_SIZE) return usedRack && node.end && wordLen >= minLength;
-    const cell = board[y][x].tile;
-    if (cell) {
-      const idx = letterToIndex.get(cell.letter);
-      if (idx === undefined) return false;
-      const next = node.children.get(idx);
-      if (!next) return false;
-      return extendRight(x + 1, y, next, wordLen + 1, blanks, usedRack, anchorX);
-    }
-    if (x !== anchorX && usedRack && node.end && wordLen >= minLength) return true;
-    const mask = crossMasksRow[y][x];
-    for (const [idx, next] of node.children) {
-      if ((mask & bitForIndex(idx)) === 0n) continue;
-      if (counts[idx] > 0) {
-        counts[idx] -= 1;
-        if (extendRight(x + 1, y, next, wordLen + 1, blanks, true, anchorX)) return true;
-        counts[idx] += 1;
-      } else if (blanks > 0) {
-        if (extendRight(x + 1, y, next, wordLen + 1, blanks - 1, true, anchorX)) return true;
-      }
-    }
-    return false;
-  };
-
-  const fillLeft = (
-    x: number,
-    endXExclusive: number,
-    y: number,
-    node: TrieNode,
-    blanks: number,
-    fixedAfter: number[],
-    anchorX: number,
-    lenSoFar: number
-  ): boolean => {
-    if (x === endXExclusive) {
-      const afterFixed = traverseFixedPrefix(node, fixedAfter);
-      if (!afterFixed) return false;
-      return extendRight(anchorX, y, afterFixed, lenSoFar + fixedAfter.length, blanks, false, anchorX);
-    }
-    const mask = crossMasksRow[y][x];
-    for (const [idx, next] of node.children) {
-      if ((mask & bitForIndex(idx)) === 0n) continue;
-      if (counts[idx] > 0) {
-        counts[idx] -= 1;
-        if (fillLeft(x + 1, endXExclusive, y, next, blanks, fixedAfter, anchorX, lenSoFar + 1)) return true;
-        counts[idx] += 1;
-      } else if (blanks > 0) {
-        if (fillLeft(x + 1, endXExclusive, y, next, blanks - 1, fixedAfter, anchorX, lenSoFar + 1)) return true;
-      }
-    }
-    return false;
-  };
-
-  for (const anchor of anchors) {
-    const y = anchor.y;
-
-    // Fixed run of existing tiles immediately to the left of the anchor must be part of the word.
-    const fixed = fixedPrefixBeforeAnchor(board, anchor, 'row', letterToIndex);
-    if (!fixed) continue;
-    const fixedLetters = fixed.letters;
-    const fixedStartX = fixed.startX;
-
-    // Count how many empty squares are immediately before the fixed run (potential left extension).
-    let leftLimit = 0;
-    let x = fixedStartX - 1;
-    while (inBounds(x) && board[y][x].tile === null) {
-      leftLimit += 1;
-      x -= 1;
-    }
-
-    // Choose the actual word start among those empty squares (or at fixedStartX).
-    for (let usedLeft = 0; usedLeft <= leftLimit; usedLeft += 1) {
-      const startX = fixedStartX - usedLeft;
-      // If there is a tile immediately before startX, the word would extend further left;
-      // that move will be found when scanning the leftmost newly placed tile as an anchor.
-      if (inBounds(startX - 1) && board[y][startX - 1].tile) continue;
-
-      // Reset per-start choice (counts are mutated in recursion).
-      // We keep counts in a single array; recursion restores changes, so no full clone needed here.
-      const blanks = initialBlanks;
-      if (fillLeft(startX, fixedStartX, y, root, blanks, fixedLetters, anchor.x, 0)) return true;
-    }
-  }
-
-  return false;
-}
-
-function hasAnyMoveCol(
-  state: GameState,
-  playerId: string,
-  anchors: Anchor[],
-  root: TrieNode,
-  letterToIndex: Map<string, number>,
-  crossMasksCol: bigint[][],
-  alphabetLen: number,
-  minLength: number
-): boolean {
-  const rack = state.racks[playerId] ?? [];
-  if (rack.length === 0) return false;
-
-  const { counts, blanks: initialBlanks } = rackCountsForPlayer(state, playerId, letterToIndex, alphabetLen);
-  const board = state.board;
-
-  const extendDown = (
-    x: number,
-    y: number,
-    node: TrieNode,
-    wordLen: number,
-    blanks: number,
-    usedRack: boolean,
-    anchorY: number
-  ): boolean => {
-    if (y >= BOARD_SIZE) return usedRack && node.end && wordLen >= minLength;
-    const cell = board[y][x].tile;
-    if (cell) {
-      const idx = letterToIndex.get(cell.letter);
-      if (idx === undefined) return false;
-      const next = node.children.get(idx);
-      if (!next) return false;
-      return extendDown(x, y + 1, next, wordLen + 1, blanks, usedRack, anchorY);
-    }
-    if (y !== anchorY && usedRack && node.end && wordLen >= minLength) return true;
-    const mask = crossMasksCol[y][x];
-    for (const [idx, next] of node.children) {
-      if ((mask & bitForIndex(idx)) === 0n) continue;
-      if (counts[idx] > 0) {
-        counts[idx] -= 1;
-        if (extendDown(x, y + 1, next, wordLen + 1, blanks, true, anchorY)) return true;
-        counts[idx] += 1;
-      } else if (blanks > 0) {
-        if (extendDown(x, y + 1, next, wordLen + 1, blanks - 1, true, anchorY)) return true;
-      }
-    }
-    return false;
-  };
-
-  const fillUp = (
-    y: number,
-    endYExclusive: number,
-    x: number,
-    node: TrieNode,
-    blanks: number,
-    fixedAfter: number[],
-    anchorY: number,
-    lenSoFar: number
-  ): boolean => {
-    if (y === endYExclusive) {
-      const afterFixed = traverseFixedPrefix(node, fixedAfter);
-      if (!afterFixed) return false;
-      return extendDown(x, anchorY, afterFixed, lenSoFar + fixedAfter.length, blanks, false, anchorY);
-    }
-    const mask = crossMasksCol[y][x];
-    for (const [idx, next] of node.children) {
-      if ((mask & bitForIndex(idx)) === 0n) continue;
-      if (counts[idx] > 0) {
-        counts[idx] -= 1;
-        if (fillUp(y + 1, endYExclusive, x, next, blanks, fixedAfter, anchorY, lenSoFar + 1)) return true;
-        counts[idx] += 1;
-      } else if (blanks > 0) {
-        if (fillUp(y + 1, endYExclusive, x, next, blanks - 1, fixedAfter, anchorY, lenSoFar + 1)) return true;
-      }
-    }
-    return false;
-  };
-
-  for (const anchor of anchors) {
-    const x = anchor.x;
-
-    const fixed = fixedPrefixBeforeAnchor(board, anchor, 'col', letterToIndex);
-    if (!fixed) continue;
-    const fixedLetters = fixed.letters;
-    const fixedStartY = fixed.startY;
-
-    let upLimit = 0;
-    let y = fixedStartY - 1;
-    while (inBounds(y) && board[y][x].tile === null) {
-      upLimit += 1;
-      y -= 1;
-    }
-
-    for (let usedUp = 0; usedUp <= upLimit; usedUp += 1) {
-      const startY = fixedStartY - usedUp;
-      if (inBounds(startY - 1) && board[startY - 1][x].tile) continue;
-
-      const blanks = initialBlanks;
-      if (fillUp(startY, fixedStartY, x, root, blanks, fixedLetters, anchor.y, 0)) return true;
-    }
-  }
-
-  return false;
-}
-
-function hasAnyValidMoveFast(
-  state: GameState,
-  playerId: string,
-  anchors: Anchor[],
-  root: TrieNode,
-  letterToIndex: Map<string, number>,
-  crossMasks: CrossMasks,
-  alphabetLen: number,
-  minLength: number
-): boolean {
-  // Try both orientations; early exit on the first found move.
-  if (hasAnyMoveRow(state, playerId, anchors, root, letterToIndex, crossMasks.row, alphabetLen, minLength)) return true;
-  if (hasAnyMoveCol(state, playerId, anchors, root, letterToIndex, crossMasks.col, alphabetLen, minLength)) return true;
-  return false;
+function alphabetFor(language: DictionaryKey): string[] {
+  return alphabetForLanguage(language === 'ru-strict' ? 'ru' : language);
 }
 
 type TrieCacheEntry = {
   root: TrieNode;
-  alphabet: string;
-  alphabetLen: number;
+  alphabet: string[];
   letterToIndex: Map<string, number>;
-  wordSetRef: Set<string>;
+  wordSetRef: WordSet;
+  overlayKey: string;
 };
 
-const trieCache: Partial<Record<string, TrieCacheEntry>> = {};
+// Keyed by dictionary alone; a different set of lists overwrites the entry.
+const trieCache: Partial<Record<DictionaryKey, TrieCacheEntry>> = {};
 
 async function runScan(req: EndgameScanRequest): Promise<EndgameScanResponse> {
   const tTotal0 = performance.now();
@@ -531,8 +87,8 @@ async function runScan(req: EndgameScanRequest): Promise<EndgameScanResponse> {
     const dictKey: DictionaryKey =
       req.language === 'ru' && req.russianVariant === 'strict' ? 'ru-strict' : req.language;
 
-    const wordSet = await getDictionaryWordSet(dictKey);
-    if (!wordSet) {
+    const baseWordSet = await getDictionaryWordSet(dictKey);
+    if (!baseWordSet) {
       return {
         type: 'ENDGAME_SCAN_RESPONSE',
         requestId: req.requestId,
@@ -541,49 +97,46 @@ async function runScan(req: EndgameScanRequest): Promise<EndgameScanResponse> {
       };
     }
 
+    const overlays = req.overlays ?? [];
+    const wordSet = withOverlays(baseWordSet, overlays);
+    const overlayKey = overlays.map((o) => overlayRef(o).hash).join(':');
     const cached = trieCache[dictKey];
     const alphabet = alphabetFor(dictKey);
     const letterToIndex = cached?.letterToIndex ?? buildLetterToIndex(alphabet);
-    const alphabetLen = alphabet.length;
 
     let trieBuildMs: number | undefined;
     let root: TrieNode;
     let cacheHit = false;
-    if (cached && cached.wordSetRef === wordSet) {
+    if (cached && cached.wordSetRef === baseWordSet && cached.overlayKey === overlayKey) {
       cacheHit = true;
       root = cached.root;
     } else {
       const tTrie0 = performance.now();
-      root = buildTrie(wordSet, letterToIndex);
+      // Lists go on top of the dictionary's own trie, which a DAWG already holds.
+      root = trieFor(baseWordSet, letterToIndex);
+      if (overlays.length) {
+        root = overlayTrie(root, overlays.flatMap((o) => o.allow), overlays.flatMap((o) => o.block), letterToIndex);
+      }
       trieBuildMs = performance.now() - tTrie0;
-      trieCache[dictKey] = { root, alphabet, alphabetLen, letterToIndex, wordSetRef: wordSet };
+      trieCache[dictKey] = { root, alphabet, letterToIndex, wordSetRef: baseWordSet, overlayKey };
     }
 
-    const anchors = computeAnchors(req.state.board);
+    const anchors = computeAnchors(req.state.board, layoutFor(req.state).center);
     let boardTiles = 0;
-    for (let y = 0; y < BOARD_SIZE; y += 1) {
-      for (let x = 0; x < BOARD_SIZE; x += 1) {
+    for (let y = 0; y < req.state.board.length; y += 1) {
+      for (let x = 0; x < req.state.board.length; x += 1) {
         if (req.state.board[y][x].tile) boardTiles += 1;
       }
     }
 
     const tCross0 = performance.now();
-    const crossMasks = computeCrossMasks(req.state.board, alphabet, letterToIndex, wordSet, req.minLength);
+    const crossMasks = computeCrossMasks(req.state.board, alphabet, wordSet, req.minLength);
     const crossMasksMs = performance.now() - tCross0;
 
     const tSearch0 = performance.now();
+    const lexicon = { alphabet, letterToIndex, root, words: wordSet };
     for (const playerId of req.state.players) {
-      const hasAny = hasAnyValidMoveFast(
-        req.state,
-        playerId,
-        anchors,
-        root,
-        letterToIndex,
-        crossMasks,
-        alphabetLen,
-        req.minLength
-      );
-      if (hasAny) {
+      if (hasAnyMove(req.state, playerId, lexicon, { minLength: req.minLength, crossMasks, anchors })) {
         const searchMs = performance.now() - tSearch0;
         const totalMs = performance.now() - tTotal0;
         return {
@@ -673,5 +226,5 @@ export const __testing = {
   buildLetterToIndex,
   buildTrie,
   computeCrossMasks,
-  hasAnyValidMoveFast
+  hasAnyMove
 };
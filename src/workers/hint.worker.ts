@@ -0,0 +1,56 @@
+import type { GameState, Language } from '../core/types';
+import { chooseHint } from '../core/hints';
+import { generateMoves, type GeneratedMove } from '../core/moveGenerator';
+import type { WordOverlay } from '../dictionary/overlays';
+import { loadLexicon, type RussianVariant } from './lexiconCache';
+
+type HintRequest = {
+  type: 'HINT_REQUEST';
+  requestId: string;
+  state: GameState;
+  playerId: string;
+  language: Language;
+  russianVariant?: RussianVariant;
+  /** House-rule word lists in force for the session. */
+  overlays?: WordOverlay[];
+  minLength: number;
+};
+
+export type HintResponse = {
+  type: 'HINT_RESPONSE';
+  requestId: string;
+  /** Null when the rack has no legal play (or the search could not run; see `reason`). */
+  move: GeneratedMove | null;
+  reason?: 'dictionary_unavailable' | 'error';
+  error?: string;
+};
+
+async function findHint(req: HintRequest): Promise<HintResponse> {
+  try {
+    const lexicon = await loadLexicon(req.language, req.russianVariant, req.minLength, req.overlays);
+    if (!lexicon) {
+      return { type: 'HINT_RESPONSE', requestId: req.requestId, move: null, reason: 'dictionary_unavailable' };
+    }
+    const moves = generateMoves(req.state, req.playerId, lexicon, { minLength: req.minLength });
+    return { type: 'HINT_RESPONSE', requestId: req.requestId, move: chooseHint(moves) };
+  } catch (err) {
+    return {
+      type: 'HINT_RESPONSE',
+      requestId: req.requestId,
+      move: null,
+      reason: 'error',
+      error: err instanceof Error ? err.message : String(err)
+    };
+  }
+}
+
+// Allow importing this module in tests (Node) without a global `self`.
+if (typeof self !== 'undefined' && typeof (self as unknown as Worker).addEventListener === 'function') {
+  self.addEventListener('message', (ev: MessageEvent) => {
+    const data = ev.data as HintRequest;
+    if (!data || data.type !== 'HINT_REQUEST') return;
+    void findHint(data).then((res) => {
+      (self as unknown as Worker).postMessage(res);
+    });
+  });
+}
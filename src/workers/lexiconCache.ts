@@ -0,0 +1,53 @@
+import type { Language, WordSet } from '../core/types';
+import { alphabetFor, buildMoveLexicon, overlayTrie, type MoveLexicon } from '../core/moveGenerator';
+import { getDictionaryWordSet, setMinWordLength, type DictionaryKey } from '../dictionary/dictionaryService';
+import { overlayRef, withOverlays, type WordOverlay } from '../dictionary/overlays';
+
+export type RussianVariant = 'full' | 'strict' | undefined;
+
+type LexiconCacheEntry = {
+  lexicon: MoveLexicon;
+  wordSetRef: WordSet;
+  overlayKey: string;
+};
+
+// One entry per dictionary: switching word lists replaces it rather than piling up tries.
+const lexiconCache: Partial<Record<DictionaryKey, LexiconCacheEntry>> = {};
+
+export function dictionaryKeyFor(language: Language, russianVariant: RussianVariant): DictionaryKey {
+  return language === 'ru' && russianVariant === 'strict' ? 'ru-strict' : language;
+}
+
+/**
+ * Loads the move-generation lexicon for a session dictionary inside a worker, with the
+ * session's house-rule word lists applied.
+ * The trie is rebuilt only when the underlying word set or the lists change (e.g. after a re-download);
+ * lists are laid over the dictionary's own trie instead of rebuilding it from every word.
+ * Returns null when the dictionary is not available offline.
+ */
+export async function loadLexicon(
+  language: Language,
+  russianVariant: RussianVariant,
+  minLength: number,
+  overlays: WordOverlay[] = []
+): Promise<MoveLexicon | null> {
+  setMinWordLength(minLength);
+  const dictKey = dictionaryKeyFor(language, russianVariant);
+  const wordSet = await getDictionaryWordSet(dictKey);
+  if (!wordSet) return null;
+
+  const overlayKey = overlays.map((o) => overlayRef(o).hash).join(':');
+  const cached = lexiconCache[dictKey];
+  if (cached && cached.wordSetRef === wordSet && cached.overlayKey === overlayKey) return cached.lexicon;
+
+  const base = buildMoveLexicon(wordSet, alphabetFor(language));
+  const lexicon = overlays.length
+    ? {
+      ...base,
+      root: overlayTrie(base.root, overlays.flatMap((o) => o.allow), overlays.flatMap((o) => o.block), base.letterToIndex),
+      words: withOverlays(wordSet, overlays)
+    }
+    : base;
+  lexiconCache[dictKey] = { lexicon, wordSetRef: wordSet, overlayKey };
+  return lexicon;
+}
@@ -0,0 +1,64 @@
+import type { Language } from '../core/types';
+import { findWords, type WordFinderQuery, type WordFinderResult, type WordFinderSort } from '../core/wordFinder';
+import type { WordOverlay } from '../dictionary/overlays';
+import { loadLexicon, type RussianVariant } from './lexiconCache';
+
+type WordFinderRequest = {
+  type: 'WORD_FINDER_REQUEST';
+  requestId: string;
+  language: Language;
+  russianVariant?: RussianVariant;
+  /** House-rule word lists in force for the session. */
+  overlays?: WordOverlay[];
+  minLength: number;
+  query: WordFinderQuery;
+  sort: WordFinderSort;
+  limit: number;
+};
+
+export type WordFinderResponse =
+  | ({
+    type: 'WORD_FINDER_RESPONSE';
+    requestId: string;
+  } & WordFinderResult)
+  | {
+    type: 'WORD_FINDER_RESPONSE';
+    requestId: string;
+    words: null;
+    reason: 'dictionary_unavailable' | 'error';
+    error?: string;
+  };
+
+async function runQuery(req: WordFinderRequest): Promise<WordFinderResponse> {
+  try {
+    const lexicon = await loadLexicon(req.language, req.russianVariant, req.minLength, req.overlays);
+    if (!lexicon) {
+      return { type: 'WORD_FINDER_RESPONSE', requestId: req.requestId, words: null, reason: 'dictionary_unavailable' };
+    }
+    const result = findWords(lexicon, req.language, req.query, {
+      minLength: req.minLength,
+      sort: req.sort,
+      limit: req.limit
+    });
+    return { type: 'WORD_FINDER_RESPONSE', requestId: req.requestId, ...result };
+  } catch (err) {
+    return {
+      type: 'WORD_FINDER_RESPONSE',
+      requestId: req.requestId,
+      words: null,
+      reason: 'error',
+      error: err instanceof Error ? err.message : String(err)
+    };
+  }
+}
+
+// Allow importing this module in tests (Node) without a global `self`.
+if (typeof self !== 'undefined' && typeof (self as unknown as Worker).addEventListener === 'function') {
+  self.addEventListener('message', (ev: MessageEvent) => {
+    const data = ev.data as WordFinderRequest;
+    if (!data || data.type !== 'WORD_FINDER_REQUEST') return;
+    void runQuery(data).then((res) => {
+      (self as unknown as Worker).postMessage(res);
+    });
+  });
+}